@@ -7,6 +7,14 @@ const nextConfig: NextConfig = {
   images: {
     formats: ['image/avif', 'image/webp'],
   },
+  // Open Graph image routes read the brand fonts from node_modules at runtime
+  // (src/lib/seo/og-image.tsx); file tracing cannot see those dynamic paths.
+  outputFileTracingIncludes: {
+    '**/opengraph-image*': [
+      './node_modules/@fontsource/inter/files/inter-latin{,-ext}-400-normal.woff',
+      './node_modules/@fontsource/outfit/files/outfit-latin{,-ext}-{600,700}-normal.woff',
+    ],
+  },
 };
 
 export default withNextIntl(nextConfig);
@@ -0,0 +1,45 @@
+/**
+ * Add a locale: its definition in src/lib/i18n/config.ts, src/messages/<code>.json
+ * pre-filled with the English text (untranslated until translators deliver),
+ * its translation QA entry and the route and CTA registries' locale lists.
+ *
+ * Usage: npm run locale:add -- <code> [--name Português] [--region PT | --flag 🇵🇹]
+ */
+import { defaultLocaleDefinition, flagForRegion, scaffoldLocale } from '@/lib/i18n/scaffold';
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const code = args[0];
+  if (!code || code.startsWith('--')) {
+    throw new Error('Usage: npm run locale:add -- <code> [--name <native name>] [--region <XX> | --flag <emoji>]');
+  }
+
+  const region = readOption(args, 'region');
+  const definition = defaultLocaleDefinition(code, {
+    nativeName: readOption(args, 'name'),
+    flag: readOption(args, 'flag') ?? (region ? flagForRegion(region) : undefined),
+  });
+  const files = scaffoldLocale(code, definition);
+
+  console.log(`Added ${code} (${definition.flag} ${definition.nativeName}):`);
+  files.forEach((file) => console.log(`  ${file}`));
+  console.log([
+    '',
+    'Next:',
+    `  npm run translations:export -- --locale ${code}   XLIFF/PO for the translators`,
+    `  add the URL segments for ${code} in src/lib/i18n/pathnames.ts (type-check fails until then)`,
+    `  npm run validate:translations -- --locale ${code}  lists what is still in English`,
+  ].join('\n'));
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
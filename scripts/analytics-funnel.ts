@@ -0,0 +1,48 @@
+/**
+ * Funnel report over the first-party analytics event log.
+ *
+ * Usage: npm run analytics:funnel -- [--file .data/events.jsonl] [--since 2026-01-01] [--until 2026-02-01] [--json]
+ */
+import { computeFunnel, filterByDate, formatFunnelReport, journeyFunnels, summarizeCtas } from '../src/lib/analytics/funnel';
+import { createJsonlEventStore, getEventsFile } from '../src/lib/analytics/store';
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function readDate(args: string[], name: string): Date | undefined {
+  const value = readOption(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${name} expects a date (YYYY-MM-DD), got "${value}"`);
+  }
+  return date;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = readOption(args, 'file') ?? getEventsFile();
+  const events = filterByDate(
+    await createJsonlEventStore(file).read(),
+    readDate(args, 'since'),
+    readDate(args, 'until')
+  );
+
+  if (args.includes('--json')) {
+    const funnels = journeyFunnels.map((funnel) => computeFunnel(funnel, events));
+    console.log(JSON.stringify({ file, events: events.length, funnels, ctas: summarizeCtas(events) }, null, 2));
+    return;
+  }
+
+  console.log(`Funnel report for ${file}\n`);
+  process.stdout.write(formatFunnelReport(events));
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+/**
+ * Translation key check: t() calls in src/ against en.json. Fails on keys
+ * missing from en.json, dynamic keys that match nothing, and unused keys.
+ * The same check runs in src/__tests__/i18n/keyUsage.test.ts.
+ *
+ * Usage: npm run validate:messages [-- --json]
+ */
+import { formatKeyUsageReport, scanKeyUsage } from '@/lib/i18n/key-usage';
+
+function main() {
+  const report = scanKeyUsage();
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    process.stdout.write(formatKeyUsageReport(report));
+  }
+
+  if (report.missing.length > 0 || report.unresolved.length > 0 || report.unused.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
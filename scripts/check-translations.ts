@@ -0,0 +1,40 @@
+/**
+ * Translation QA: placeholders, brand terms, length of UI strings and text
+ * left in English, per locale against en.json. Rules live in
+ * src/lib/i18n/qa.ts; the same check runs in src/__tests__/i18n/translationQa.test.ts.
+ *
+ * Usage: npm run validate:translations [-- --locale de] [-- --json]
+ */
+import { formatQaReport, runTranslationQa } from '@/lib/i18n/qa';
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const locale = readOption(args, 'locale');
+  const reports = runTranslationQa().filter((report) => !locale || report.locale === locale);
+
+  if (locale && reports.length === 0) {
+    throw new Error(`Unknown locale "${locale}"`);
+  }
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    process.stdout.write(formatQaReport(reports));
+  }
+
+  if (reports.some((report) => report.issues.length > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,16 @@
+// Run a TypeScript script with the "@/" path alias from tsconfig.json:
+//   node scripts/run-ts.cjs scripts/some-script.ts [...arguments]
+const path = require('path');
+
+const script = process.argv.splice(2, 1)[0];
+if (!script) {
+  console.error('Usage: node scripts/run-ts.cjs <script.ts> [...arguments]');
+  process.exit(1);
+}
+
+const jiti = require('jiti')(__filename, {
+  alias: { '@': path.join(__dirname, '..', 'src') },
+});
+
+process.argv[1] = path.resolve(script);
+jiti(process.argv[1]);
@@ -0,0 +1,75 @@
+/**
+ * Export translations for CAT tools: one XLIFF 2.0 and one PO file per
+ * locale in translations/, with the English source, context notes and the
+ * state of every key. Keys whose English changed since the last export are
+ * flagged (XLIFF note "previous-source", PO "fuzzy").
+ *
+ * Usage: npm run translations:export -- [--locale fr] [--format xliff|po]
+ */
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { locales, sourceLocale, type Locale } from '@/lib/i18n/config';
+import {
+  advanceSourceSnapshot,
+  buildTranslationUnits,
+  loadSourceSnapshot,
+  localeSources,
+  messageContexts,
+  saveSourceSnapshot,
+  TRANSLATIONS_DIR,
+  type TranslationUnit,
+} from '@/lib/i18n/exchange';
+import { loadFlatMessages } from '@/lib/i18n/message-files';
+import { exchangeExtensions, toPo, toXliff, type ExchangeFormat } from '@/lib/i18n/exchange-formats';
+import { scanKeyReferences } from '@/lib/i18n/key-usage';
+
+const serializers: Record<ExchangeFormat, (locale: Locale, units: TranslationUnit[]) => string> = {
+  xliff: toXliff,
+  po: toPo,
+};
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const targetLocales = locales.filter((locale) => locale !== sourceLocale);
+  const locale = readOption(args, 'locale');
+  const format = readOption(args, 'format');
+
+  if (locale !== undefined && !(targetLocales as readonly string[]).includes(locale)) {
+    throw new Error(`--locale expects one of ${targetLocales.join(', ')}, got "${locale}"`);
+  }
+  if (format !== undefined && !(format in serializers)) {
+    throw new Error(`--format expects xliff or po, got "${format}"`);
+  }
+
+  const source = loadFlatMessages(sourceLocale);
+  const snapshot = advanceSourceSnapshot(loadSourceSnapshot(), source, targetLocales);
+  const contexts = messageContexts(Object.keys(source), scanKeyReferences());
+  const formats = format ? [format as ExchangeFormat] : (Object.keys(serializers) as ExchangeFormat[]);
+
+  mkdirSync(TRANSLATIONS_DIR, { recursive: true });
+  for (const target of locale ? [locale as Locale] : targetLocales) {
+    const units = buildTranslationUnits(source, loadFlatMessages(target), localeSources(snapshot, target), contexts);
+    const files = formats.map((name) => {
+      const file = path.join(TRANSLATIONS_DIR, `${target}.${exchangeExtensions[name]}`);
+      writeFileSync(file, serializers[name](target, units));
+      return path.relative(process.cwd(), file);
+    });
+
+    const count = (state: string) => units.filter((unit) => unit.state === state).length;
+    console.log(`${target}: ${units.length} keys, ${count('untranslated')} untranslated, ${count('changed')} changed -> ${files.join(', ')}`);
+  }
+
+  saveSourceSnapshot(snapshot);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,81 @@
+/**
+ * Import translated XLIFF 2.0 or PO files back into src/messages. Only
+ * reviewed units whose ICU placeholders match the English source are
+ * written, and only where the text changed; everything else is listed.
+ *
+ * Usage: npm run translations:import -- translations/fr.xlf [translations/de.po ...]
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { locales, sourceLocale, type Locale } from '@/lib/i18n/config';
+import {
+  applyTranslations,
+  checkImport,
+  confirmSources,
+  loadSourceSnapshot,
+  saveSourceSnapshot,
+} from '@/lib/i18n/exchange';
+import { fromPo, fromXliff } from '@/lib/i18n/exchange-formats';
+import { loadFlatMessages, loadMessages, saveMessages } from '@/lib/i18n/message-files';
+
+function readExchangeFile(file: string) {
+  const content = readFileSync(file, 'utf8');
+  switch (path.extname(file)) {
+    case '.xlf':
+    case '.xliff':
+      return fromXliff(content);
+    case '.po':
+      return fromPo(content);
+    default:
+      throw new Error(`${file}: expected an .xlf, .xliff or .po file`);
+  }
+}
+
+function main() {
+  const files = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+  if (files.length === 0) {
+    throw new Error('Usage: npm run translations:import -- <file.xlf|file.po> [...]');
+  }
+
+  const source = loadFlatMessages(sourceLocale);
+  let snapshot = loadSourceSnapshot();
+
+  for (const file of files) {
+    const { locale, units } = readExchangeFile(file);
+    if (!(locales as readonly string[]).includes(locale) || locale === sourceLocale) {
+      throw new Error(`${file}: unsupported target language "${locale}"`);
+    }
+
+    const target = locale as Locale;
+    const result = checkImport(units, source, loadFlatMessages(target));
+    const changed = Object.keys(result.changes).length;
+    if (changed > 0) {
+      saveMessages(target, applyTranslations(loadMessages(target), result.changes));
+    }
+    if (snapshot) {
+      snapshot = confirmSources(snapshot, target, result.confirmed);
+    }
+
+    console.log(`${file} (${target}): ${changed} updated, ${result.skipped.length} skipped, ${result.rejected.length} rejected`);
+    for (const { key, message } of result.skipped) {
+      console.log(`  skipped   ${key}: ${message}`);
+    }
+    for (const { key, message } of result.rejected) {
+      console.log(`  rejected  ${key}: ${message}`);
+    }
+    if (result.rejected.length > 0) {
+      process.exitCode = 1;
+    }
+  }
+
+  if (snapshot) {
+    saveSourceSnapshot(snapshot);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,29 @@
+/**
+ * Registry conformance check: route-registry.yaml and cta-registry.yaml
+ * against the page files and against each other. Rendered-page checks
+ * (content requirements, CTA links) run in src/__tests__/routes/conformance.test.tsx.
+ *
+ * Usage: npm run validate:registry [-- --json]
+ */
+import { checkRegistries, formatDriftTable } from '@/lib/routes/conformance';
+
+function main() {
+  const issues = checkRegistries();
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(issues, null, 2));
+  } else {
+    process.stdout.write(formatDriftTable(issues));
+  }
+
+  if (issues.some((issue) => issue.severity === 'error')) {
+    process.exitCode = 1;
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
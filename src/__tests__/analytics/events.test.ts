@@ -0,0 +1,172 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest';
+import { POST } from '@/app/api/events/route';
+import { createConsent, serializeConsent, CONSENT_COOKIE } from '@/lib/consent/consent';
+import type { StoredEvent } from '@/lib/analytics/events';
+import { computeFunnel, formatFunnelReport, journeyFunnels, summarizeCtas } from '@/lib/analytics/funnel';
+import { getCtaDestinations, parseCtaDestinations } from '@/lib/analytics/registry';
+import { setEventStore, type EventStore } from '@/lib/analytics/store';
+import { stripLocale } from '@/lib/analytics/track';
+
+let clientCounter = 0;
+
+function consentCookie(analytics: boolean) {
+  return `${CONSENT_COOKIE}=${serializeConsent(createConsent({ analytics, marketing: false }))}`;
+}
+
+function postEvents(body: unknown, headers: Record<string, string> = { cookie: consentCookie(true) }) {
+  clientCounter += 1;
+  return POST(new Request('http://localhost/api/events', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': `203.0.113.${clientCounter}`, ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+}
+
+const base = { locale: 'en', sessionId: 'session01', device: 'desktop' } as const;
+
+function stored(event: Record<string, unknown>, at: string): StoredEvent {
+  return { ...base, ...event, at } as StoredEvent;
+}
+
+describe('POST /api/events', () => {
+  let appended: StoredEvent[];
+
+  beforeEach(() => {
+    appended = [];
+    const store: EventStore = {
+      name: 'memory',
+      async append(events) {
+        appended.push(...events);
+      },
+      async read() {
+        return appended;
+      },
+    };
+    setEventStore(store);
+  });
+
+  it('stores page views and registry CTA clicks with a server timestamp', async () => {
+    const response = await postEvents({
+      events: [
+        { ...base, type: 'pageview', path: '/', referrer: 'example.org' },
+        { ...base, type: 'cta_click', path: '/capabilities/defense', destination: '/contact', topic: 'defense' },
+      ],
+    });
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ ok: true, accepted: 2 });
+    expect(appended).toHaveLength(2);
+    expect(appended[1]).toMatchObject({ type: 'cta_click', destination: '/contact', topic: 'defense' });
+    expect(Date.parse(appended[0].at)).not.toBeNaN();
+  });
+
+  it('drops CTA clicks to destinations missing from the registry', async () => {
+    const response = await postEvents({
+      events: [{ ...base, type: 'cta_click', path: '/', destination: '/somewhere-else' }],
+    });
+
+    expect(await response.json()).toEqual({ ok: true, accepted: 0 });
+    expect(appended).toHaveLength(0);
+  });
+
+  it('records nothing without analytics consent', async () => {
+    const event = { events: [{ ...base, type: 'pageview', path: '/' }] };
+
+    await postEvents(event, {});
+    await postEvents(event, { cookie: consentCookie(false) });
+    expect(appended).toHaveLength(0);
+  });
+
+  it('honours Do-Not-Track and Global Privacy Control', async () => {
+    const event = { events: [{ ...base, type: 'pageview', path: '/' }] };
+
+    await postEvents(event, { cookie: consentCookie(true), dnt: '1' });
+    await postEvents(event, { cookie: consentCookie(true), 'sec-gpc': '1' });
+    expect(appended).toHaveLength(0);
+  });
+
+  it('rejects malformed payloads', async () => {
+    expect((await postEvents('not json')).status).toBe(400);
+    expect((await postEvents({ events: [] })).status).toBe(400);
+    expect((await postEvents({ events: [{ ...base, type: 'pageview', path: 'no-slash' }] })).status).toBe(400);
+    expect((await postEvents({ events: [{ ...base, type: 'pageview', path: '/', locale: 'xx' }] })).status).toBe(400);
+  });
+
+  it('rate limits a single client', async () => {
+    const request = () => POST(new Request('http://localhost/api/events', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': '192.0.2.99', cookie: consentCookie(true) },
+      body: JSON.stringify({ events: [{ ...base, type: 'pageview', path: '/' }] }),
+    }));
+
+    for (let i = 0; i < 60; i++) {
+      await request();
+    }
+    const response = await request();
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBeTruthy();
+  });
+});
+
+describe('CTA registry destinations', () => {
+  it('collects nested destinations once', () => {
+    const source = [
+      'a:',
+      '  primary_cta: { destination: "/contact" }',
+      '  secondary_ctas:',
+      '    - { destination: "/sectors" }',
+      '    - { destination: "/contact" }',
+    ].join('\n');
+    expect(parseCtaDestinations(source)).toEqual(['/contact', '/sectors']);
+  });
+
+  it('reads the repository registry', () => {
+    expect(getCtaDestinations()).toEqual(expect.arrayContaining(['/contact', '/capabilities/defense', '/about/partners']));
+  });
+
+  it('strips locale prefixes from paths', () => {
+    expect(stripLocale('/fr/contact')).toBe('/contact');
+    expect(stripLocale('/en')).toBe('/');
+    expect(stripLocale('/enterprise')).toBe('/enterprise');
+    expect(stripLocale('/ca/capacitats/defensa')).toBe('/capabilities/defense');
+  });
+});
+
+describe('funnels', () => {
+  const primary = journeyFunnels.find((funnel) => funnel.id === 'primary-conversion')!;
+  const mobile = journeyFunnels.find((funnel) => funnel.id === 'mobile-quick-contact')!;
+
+  const events: StoredEvent[] = [
+    stored({ type: 'pageview', path: '/' }, '2026-10-01T10:00:00Z'),
+    stored({ type: 'cta_click', path: '/', destination: '/capabilities' }, '2026-10-01T10:00:01Z'),
+    stored({ type: 'pageview', path: '/capabilities' }, '2026-10-01T10:00:02Z'),
+    stored({ type: 'pageview', path: '/about' }, '2026-10-01T10:00:03Z'),
+    stored({ type: 'pageview', path: '/contact' }, '2026-10-01T10:00:04Z'),
+    stored({ type: 'event', path: '/contact', name: 'contact_submitted' }, '2026-10-01T10:01:00Z'),
+    // Visits contact before capabilities: only the first step counts
+    stored({ type: 'pageview', path: '/', sessionId: 'session02' }, '2026-10-01T11:00:00Z'),
+    stored({ type: 'pageview', path: '/contact', sessionId: 'session02' }, '2026-10-01T11:00:01Z'),
+    stored({ type: 'pageview', path: '/capabilities', sessionId: 'session02' }, '2026-10-01T11:00:02Z'),
+    stored({ type: 'pageview', path: '/', sessionId: 'session03', device: 'mobile' }, '2026-10-01T12:00:00Z'),
+    stored({ type: 'pageview', path: '/contact', sessionId: 'session03', device: 'mobile' }, '2026-10-01T12:00:01Z'),
+  ];
+
+  it('counts sessions reaching each step in order', () => {
+    const result = computeFunnel(primary, events);
+    expect(result.steps.map((step) => step.sessions)).toEqual([3, 2, 1, 1]);
+    expect(result.steps[1].stepRate).toBeCloseTo(2 / 3);
+    expect(result.steps[2].overallRate).toBeCloseTo(1 / 3);
+  });
+
+  it('restricts device-specific funnels to matching sessions', () => {
+    expect(computeFunnel(mobile, events).steps.map((step) => step.sessions)).toEqual([1, 1, 0]);
+  });
+
+  it('summarizes CTA clicks by destination and renders a report', () => {
+    expect(summarizeCtas(events)).toEqual([{ destination: '/capabilities', clicks: 1, sessions: 1 }]);
+    const report = formatFunnelReport(events);
+    expect(report).toContain('Primary conversion');
+    expect(report).toContain('Mobile quick contact (mobile)');
+  });
+});
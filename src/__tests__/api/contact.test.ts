@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { POST } from '@/app/api/contact/route';
+import { setContactTransport, resolveTransportName, type ContactMessage } from '@/lib/contact/transport';
+import { contactSchema, getFieldErrors } from '@/lib/contact/schema';
+import { getRecipients } from '@/lib/contact/routing';
+import { getContactPath } from '@/lib/contact/topics';
+import { issueFormToken } from '@/lib/spam/token';
+
+const validSubmission = {
+  name: 'Jane Doe',
+  email: 'jane@example.eu',
+  organization: 'European Defence Agency',
+  subject: 'Program inquiry',
+  message: 'We would like to discuss a joint capability program.',
+};
+
+let clientCounter = 0;
+
+// Each request comes from its own client so the shared rate limiter stays out of the way
+function postJson(body: unknown) {
+  clientCounter += 1;
+  return POST(new Request('http://localhost/api/contact', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': `203.0.113.${clientCounter}` },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+}
+
+function withToken<T extends object>(body: T) {
+  return { ...body, formToken: issueFormToken(Date.now() - 10_000) };
+}
+
+describe('POST /api/contact', () => {
+  let sent: ContactMessage[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    sent = [];
+    setContactTransport({
+      name: 'memory',
+      async send(message) {
+        sent.push(message);
+      },
+    });
+  });
+
+  afterEach(() => {
+    setContactTransport(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it('delivers a valid submission through the transport', async () => {
+    const response = await postJson(withToken({ ...validSubmission, locale: 'fr' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].locale).toBe('fr');
+    expect(sent[0].submission.email).toBe('jane@example.eu');
+  });
+
+  it('routes the inquiry to the topic recipients and keeps only its fields', async () => {
+    const response = await postJson(withToken({
+      ...validSubmission,
+      topic: 'defense',
+      organizationType: 'eu-institution',
+      programName: 'EDF 2026',
+      mediaOutlet: 'left over from the press topic',
+    }));
+
+    expect(response.status).toBe(200);
+    expect(sent[0].submission.topic).toBe('defense');
+    expect(sent[0].submission.programName).toBe('EDF 2026');
+    expect(sent[0].submission.mediaOutlet).toBeUndefined();
+    expect(sent[0].recipients).toEqual(getRecipients('defense'));
+  });
+
+  it('requires topic-specific fields', async () => {
+    const response = await postJson(withToken({ ...validSubmission, topic: 'press' }));
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).fieldErrors).toEqual({ mediaOutlet: 'mediaOutletRequired' });
+  });
+
+  it('returns field error codes for invalid input', async () => {
+    const response = await postJson({ ...validSubmission, email: 'not-an-email', message: 'Too short' });
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.error).toBe('validation');
+    expect(body.fieldErrors).toEqual({ email: 'emailInvalid', message: 'messageTooShort' });
+    expect(sent).toHaveLength(0);
+  });
+
+  it('rejects submissions without a form token', async () => {
+    const response = await postJson(validSubmission);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('rejected');
+    expect(sent).toHaveLength(0);
+  });
+
+  it('pretends to accept honeypot submissions without delivering them', async () => {
+    const response = await postJson(withToken({ ...validSubmission, website: 'http://spam.example' }));
+
+    expect(response.status).toBe(200);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('rejects malformed JSON', async () => {
+    const response = await postJson('{not json');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('invalidRequest');
+  });
+
+  it('reports delivery failures', async () => {
+    setContactTransport({
+      name: 'failing',
+      async send() {
+        throw new Error('connection refused');
+      },
+    });
+
+    const response = await postJson(withToken(validSubmission));
+
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toBe('delivery');
+  });
+});
+
+describe('contactSchema', () => {
+  it('maps each invalid field to a translation key', () => {
+    const result = contactSchema.safeParse({ name: 'J', email: '', subject: 'Hi', message: '' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(getFieldErrors(result.error)).toEqual({
+        name: 'nameTooShort',
+        email: 'emailInvalid',
+        subject: 'subjectTooShort',
+        message: 'messageTooShort',
+      });
+    }
+  });
+
+  it('reports wrong-typed fields as invalid instead of zod\'s English text', () => {
+    const result = contactSchema.safeParse({ name: 42, email: 'jane@example.com', subject: ['Hello'], message: 'A message long enough to pass.' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(getFieldErrors(result.error)).toEqual({ name: 'invalid', subject: 'invalid' });
+    }
+  });
+});
+
+describe('inquiry routing', () => {
+  it('uses per-topic recipient lists from the environment', () => {
+    const env = { CONTACT_RECIPIENTS_DUAL_USE: 'a@dualys.eu, b@dualys.eu', CONTACT_EMAIL: 'info@dualys.eu' };
+
+    expect(getRecipients('dual-use', env)).toEqual(['a@dualys.eu', 'b@dualys.eu']);
+    expect(getRecipients('defense', env)).toEqual(['info@dualys.eu']);
+    expect(getRecipients('press', env)).toEqual(['press@dualys.eu']);
+  });
+
+  it('builds contact links carrying the topic', () => {
+    expect(getContactPath('biosecurity')).toBe('/contact?topic=biosecurity');
+    expect(getContactPath('general')).toBe('/contact');
+  });
+});
+
+describe('resolveTransportName', () => {
+  it('prefers the explicit CONTACT_TRANSPORT setting', () => {
+    expect(resolveTransportName({ CONTACT_TRANSPORT: 'outbox', SMTP_HOST: 'smtp.example.com' })).toBe('outbox');
+  });
+
+  it('uses SMTP when a host is configured, outbox otherwise', () => {
+    expect(resolveTransportName({ SMTP_HOST: 'smtp.example.com' })).toBe('smtp');
+    expect(resolveTransportName({})).toBe('outbox');
+  });
+});
@@ -0,0 +1,325 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { renderToStaticMarkup } from 'react-dom/server';
+import NewsletterConfirmPage from '@/app/[locale]/newsletter/confirm/page';
+import NewsletterUnsubscribePage from '@/app/[locale]/newsletter/unsubscribe/page';
+import { POST } from '@/app/api/newsletter/route';
+import { POST as oneClickUnsubscribe } from '@/app/api/newsletter/unsubscribe/route';
+import { cancelSubscriptionAction, confirmSubscriptionAction } from '@/lib/newsletter/actions';
+import { setNewsletterMailer, type ConfirmationEmail } from '@/lib/newsletter/mailer';
+import { resolveStoreName, setSubscriberStore, type Subscriber } from '@/lib/newsletter/store';
+import { createJsonStore } from '@/lib/newsletter/stores/json';
+import { cancelSubscription, confirmSubscription, getListUnsubscribeHeaders } from '@/lib/newsletter/subscription';
+import { CONFIRM_TOKEN_TTL_MS, issueNewsletterToken, verifyNewsletterToken } from '@/lib/newsletter/token';
+import { issueFormToken } from '@/lib/spam/token';
+
+vi.mock('next-intl/server', () => ({
+  getTranslations: async () => (key: string, values?: Record<string, string>) =>
+    values ? `${key} ${JSON.stringify(values)}` : key,
+  setRequestLocale: () => {},
+}));
+
+vi.mock('@/lib/i18n/navigation', () => ({
+  Link: ({ href, children }: { href: string; children: React.ReactNode }) => <a href={href}>{children}</a>,
+}));
+
+let clientCounter = 0;
+
+function postJson(body: unknown) {
+  clientCounter += 1;
+  return POST(new Request('http://localhost/api/newsletter', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': `198.51.100.${clientCounter}` },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+}
+
+function withToken<T extends object>(body: T) {
+  return { ...body, formToken: issueFormToken(Date.now() - 10_000) };
+}
+
+describe('POST /api/newsletter', () => {
+  let sent: ConfirmationEmail[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    sent = [];
+    setNewsletterMailer({
+      name: 'memory',
+      async sendConfirmation(email) {
+        sent.push(email);
+      },
+    });
+  });
+
+  afterEach(() => {
+    setNewsletterMailer(undefined);
+    vi.restoreAllMocks();
+  });
+
+  it('sends a localized double opt-in email with a signed confirm link', async () => {
+    const response = await postJson(withToken({ email: 'jane@example.eu', consent: true, locale: 'de' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: 'jane@example.eu', locale: 'de', subject: 'subject' });
+    expect(sent[0].confirmUrl).toContain('/de/newsletter/bestaetigen?token=');
+    expect(sent[0].text).toContain(sent[0].confirmUrl);
+
+    const token = new URL(sent[0].confirmUrl).searchParams.get('token') ?? undefined;
+    const verification = verifyNewsletterToken(token, 'confirm');
+    expect(verification.ok && verification.payload).toMatchObject({ email: 'jane@example.eu', locale: 'de' });
+  });
+
+  it('adds one-click List-Unsubscribe headers to the email', async () => {
+    await postJson(withToken({ email: 'jane@example.eu', consent: true, locale: 'de' }));
+
+    const { headers } = sent[0];
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    const url = new URL(headers['List-Unsubscribe'].slice(1, -1));
+    expect(url.pathname).toBe('/api/newsletter/unsubscribe');
+    const verification = verifyNewsletterToken(url.searchParams.get('token') ?? undefined, 'unsubscribe');
+    expect(verification.ok && verification.payload).toMatchObject({ email: 'jane@example.eu', locale: 'de' });
+  });
+
+  it('requires GDPR consent and a valid email', async () => {
+    const response = await postJson(withToken({ email: 'not-an-email', consent: false }));
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      ok: false,
+      error: 'validation',
+      fieldErrors: { email: 'emailInvalid', consent: 'consentRequired' },
+    });
+    expect(sent).toHaveLength(0);
+  });
+
+  it('rejects malformed JSON', async () => {
+    const response = await postJson('{');
+    expect(response.status).toBe(400);
+  });
+
+  it('goes through the form guard', async () => {
+    const response = await postJson({ email: 'jane@example.eu', consent: true });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ ok: false, error: 'rejected' });
+    expect(sent).toHaveLength(0);
+  });
+
+  it('reports delivery failures', async () => {
+    setNewsletterMailer({
+      name: 'broken',
+      async sendConfirmation() {
+        throw new Error('SMTP down');
+      },
+    });
+
+    const response = await postJson(withToken({ email: 'jane@example.eu', consent: true }));
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ ok: false, error: 'delivery' });
+  });
+});
+
+describe('newsletter tokens', () => {
+  const subscriber = { email: 'jane@example.eu', locale: 'it' as const };
+
+  it('expires confirmation links but not unsubscribe links', () => {
+    const issuedAt = Date.now();
+    const later = issuedAt + CONFIRM_TOKEN_TTL_MS + 1;
+
+    expect(verifyNewsletterToken(issueNewsletterToken('confirm', subscriber, issuedAt), 'confirm', later))
+      .toEqual({ ok: false, reason: 'expiredToken' });
+    expect(verifyNewsletterToken(issueNewsletterToken('unsubscribe', subscriber, issuedAt), 'unsubscribe', later).ok)
+      .toBe(true);
+  });
+
+  it('rejects tampered tokens and tokens issued for another purpose', () => {
+    const token = issueNewsletterToken('confirm', subscriber);
+    const [payload, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), email: 'eve@example.eu' }))
+      .toString('base64url');
+
+    expect(verifyNewsletterToken(`${forged}.${signature}`, 'confirm')).toEqual({ ok: false, reason: 'invalidToken' });
+    expect(verifyNewsletterToken(token, 'unsubscribe')).toEqual({ ok: false, reason: 'invalidToken' });
+    expect(verifyNewsletterToken(undefined, 'confirm')).toEqual({ ok: false, reason: 'invalidToken' });
+  });
+});
+
+describe('double opt-in flow', () => {
+  let stored: Subscriber[];
+  let removed: string[];
+
+  beforeEach(() => {
+    stored = [];
+    removed = [];
+    setSubscriberStore({
+      name: 'memory',
+      async subscribe(subscriber) {
+        stored.push(subscriber);
+      },
+      async unsubscribe(email) {
+        removed.push(email);
+      },
+    });
+  });
+
+  afterEach(() => {
+    setSubscriberStore(undefined);
+  });
+
+  it('stores the subscriber with consent and confirmation times on confirm', async () => {
+    const consentAt = Date.UTC(2026, 0, 10);
+    const token = issueNewsletterToken('confirm', { email: 'jane@example.eu', locale: 'ca' }, consentAt);
+    const result = await confirmSubscription(token, consentAt + 60_000);
+
+    expect(result.status).toBe('confirmed');
+    expect(stored).toEqual([{
+      email: 'jane@example.eu',
+      locale: 'ca',
+      consentAt: '2026-01-10T00:00:00.000Z',
+      confirmedAt: '2026-01-10T00:01:00.000Z',
+    }]);
+
+    // The success page links to a working unsubscribe URL
+    const unsubscribeUrl = result.status === 'confirmed' ? result.unsubscribeUrl : '';
+    const unsubscribeToken = new URL(unsubscribeUrl).searchParams.get('token') ?? undefined;
+    expect(await cancelSubscription(unsubscribeToken)).toEqual({ status: 'unsubscribed', email: 'jane@example.eu' });
+    expect(removed).toEqual(['jane@example.eu']);
+  });
+
+  it('does not store anything for invalid links', async () => {
+    expect(await confirmSubscription('garbage')).toEqual({ status: 'invalidToken' });
+    expect(await cancelSubscription(undefined)).toEqual({ status: 'invalidToken' });
+    expect(stored).toHaveLength(0);
+    expect(removed).toHaveLength(0);
+  });
+});
+
+describe('newsletter link pages', () => {
+  let stored: Subscriber[];
+  let removed: string[];
+  const subscriber = { email: 'jane@example.eu', locale: 'fr' as const };
+
+  beforeEach(() => {
+    stored = [];
+    removed = [];
+    setSubscriberStore({
+      name: 'memory',
+      async subscribe(entry) {
+        stored.push(entry);
+      },
+      async unsubscribe(email) {
+        removed.push(email);
+      },
+    });
+  });
+
+  afterEach(() => {
+    setSubscriberStore(undefined);
+  });
+
+  async function renderPage(
+    Page: typeof NewsletterConfirmPage | typeof NewsletterUnsubscribePage,
+    token?: string
+  ) {
+    const element = await Page({ params: Promise.resolve({ locale: 'fr' }), searchParams: Promise.resolve({ token }) });
+    return renderToStaticMarkup(element);
+  }
+
+  function tokenForm(token: string) {
+    const formData = new FormData();
+    formData.set('token', token);
+    return formData;
+  }
+
+  it('only asks for confirmation when the confirm link is opened', async () => {
+    const token = issueNewsletterToken('confirm', subscriber);
+    const html = await renderPage(NewsletterConfirmPage, token);
+
+    expect(html).toContain('<form');
+    expect(html).toContain('confirm.prompt.button');
+    expect(stored).toHaveLength(0);
+
+    expect(await confirmSubscriptionAction(undefined, tokenForm(token))).toMatchObject({ status: 'confirmed' });
+    expect(stored.map(({ email }) => email)).toEqual(['jane@example.eu']);
+  });
+
+  it('only asks before unsubscribing when the unsubscribe link is opened', async () => {
+    const token = issueNewsletterToken('unsubscribe', subscriber);
+    const html = await renderPage(NewsletterUnsubscribePage, token);
+
+    expect(html).toContain('<form');
+    expect(html).toContain('unsubscribe.prompt.button');
+    expect(removed).toHaveLength(0);
+
+    expect(await cancelSubscriptionAction(undefined, tokenForm(token))).toEqual({ status: 'unsubscribed', email: 'jane@example.eu' });
+    expect(removed).toEqual(['jane@example.eu']);
+  });
+
+  it('shows invalid and expired links without a form', async () => {
+    const expired = issueNewsletterToken('confirm', subscriber, Date.now() - CONFIRM_TOKEN_TTL_MS - 1);
+
+    expect(await renderPage(NewsletterConfirmPage, expired)).toContain('confirm.expiredToken.title');
+    expect(await renderPage(NewsletterUnsubscribePage, 'garbage')).not.toContain('<form');
+  });
+
+  it('unsubscribes on an RFC 8058 one-click POST to the List-Unsubscribe URL', async () => {
+    const headers = getListUnsubscribeHeaders('jane@example.eu', 'fr');
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    const url = headers['List-Unsubscribe'].slice(1, -1);
+
+    const response = await oneClickUnsubscribe(new Request(url, {
+      method: 'POST',
+      body: new URLSearchParams({ 'List-Unsubscribe': 'One-Click' }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(removed).toEqual(['jane@example.eu']);
+  });
+
+  it('ignores one-click requests without the one-click body or a valid token', async () => {
+    const url = getListUnsubscribeHeaders('jane@example.eu', 'fr')['List-Unsubscribe'].slice(1, -1);
+
+    expect((await oneClickUnsubscribe(new Request(url, { method: 'POST' }))).status).toBe(400);
+    expect((await oneClickUnsubscribe(new Request('http://localhost/api/newsletter/unsubscribe?token=garbage', {
+      method: 'POST',
+      body: new URLSearchParams({ 'List-Unsubscribe': 'One-Click' }),
+    }))).status).toBe(400);
+    expect(removed).toHaveLength(0);
+  });
+});
+
+describe('JSON subscriber store', () => {
+  it('records subscriptions and unsubscriptions by email', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'dualys-newsletter-'));
+    const file = path.join(dir, 'subscribers.json');
+    const store = createJsonStore(file);
+
+    try {
+      await store.subscribe({
+        email: 'Jane@Example.eu',
+        locale: 'fr',
+        consentAt: '2026-01-10T00:00:00.000Z',
+        confirmedAt: '2026-01-10T00:01:00.000Z',
+      });
+      await store.unsubscribe('jane@example.eu');
+
+      const data = JSON.parse(await readFile(file, 'utf8'));
+      expect(data['jane@example.eu']).toMatchObject({ locale: 'fr', status: 'unsubscribed' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('is the default store without ESP credentials', () => {
+    expect(resolveStoreName({})).toBe('json');
+    expect(resolveStoreName({ BREVO_API_KEY: 'key' })).toBe('brevo');
+    expect(resolveStoreName({ NEWSLETTER_STORE: 'json', BREVO_API_KEY: 'key' })).toBe('json');
+  });
+});
@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { capabilities, capabilityIconKeys, getCapability, getCapabilityPath } from '@/lib/capabilities/definitions';
+import { findRoute } from '@/lib/routes/registry';
+import en from '@/messages/en.json';
+
+const pages = en.pages as Record<string, Record<string, unknown>>;
+
+function message(namespace: Record<string, unknown>, key: string): unknown {
+  return key.split('.').reduce<unknown>((value, part) => (value as Record<string, unknown> | undefined)?.[part], namespace);
+}
+
+describe('capability definitions', () => {
+  it('have unique slugs served by the capability route', () => {
+    const slugs = capabilities.map((capability) => capability.slug);
+    expect(new Set(slugs).size).toBe(slugs.length);
+    for (const slug of slugs) {
+      expect(findRoute(getCapabilityPath(slug))?.path).toBe('/capabilities/[capability]');
+    }
+  });
+
+  it('looks up definitions by slug', () => {
+    expect(getCapability('dual-use')?.messageKey).toBe('dualUse');
+    expect(getCapability('space')).toBeUndefined();
+  });
+
+  it('only reference known icons and registered routes', () => {
+    for (const capability of capabilities) {
+      const icons = [capability.icon, ...capability.technologies.map((item) => item.icon), ...(capability.useCases ?? []).flatMap((useCase) => useCase.icon ?? [])];
+      expect(icons.filter((icon) => !capabilityIconKeys.includes(icon))).toEqual([]);
+      expect(capability.related.filter((link) => !findRoute(link.path))).toEqual([]);
+    }
+  });
+
+  it('have copy for every technology, comparison item and use case', () => {
+    for (const capability of capabilities) {
+      const page = pages[capability.messageKey];
+      const keys = [
+        ...capability.technologies.map(({ key }) => `technologies.items.${key}.title`),
+        ...Object.entries(capability.comparison ?? {}).flatMap(([type, items]) => items.map((item) => `comparison.${type}.items.${item}`)),
+        ...(capability.useCases ?? []).map(({ key }) => `useCases.items.${key}.title`),
+      ];
+      expect(keys.filter((key) => typeof message(page, key) !== 'string'), capability.slug).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ContactForm } from '@/components/forms/ContactForm';
+
+describe('ContactForm', () => {
+  beforeEach(() => {
+    // Keep the form-token request pending; these tests only look at the first render
+    vi.stubGlobal('fetch', () => new Promise(() => {}));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('preselects the topic passed by the page', () => {
+    render(<ContactForm topic="press" />);
+    expect(screen.getByRole('combobox', { name: /topic/ })).toHaveValue('press');
+  });
+
+  it('falls back to the default topic', () => {
+    render(<ContactForm />);
+    expect(screen.getByRole('combobox', { name: /topic/ })).toHaveValue('general');
+  });
+});
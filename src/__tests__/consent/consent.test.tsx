@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ConsentProvider } from '@/components/consent/ConsentProvider';
+import { useConsent } from '@/hooks/useConsent';
+import {
+  CONSENT_COOKIE,
+  CONSENT_VERSION,
+  createConsent,
+  hasConsent,
+  parseConsent,
+  readConsentCookie,
+  serializeConsent,
+} from '@/lib/consent/consent';
+
+vi.mock('@/lib/i18n/navigation', () => ({
+  Link: ({ href, children, ...props }: { href: string; children: React.ReactNode }) => (
+    <a href={href} {...props}>{children}</a>
+  ),
+}));
+
+function clearConsentCookie() {
+  document.cookie = `${CONSENT_COOKIE}=; Path=/; Max-Age=0`;
+}
+
+function ConsentProbe() {
+  const { hasConsent: granted, openPreferences } = useConsent();
+  return (
+    <>
+      <p data-testid="analytics">{String(granted('analytics'))}</p>
+      <button onClick={openPreferences}>settings</button>
+    </>
+  );
+}
+
+describe('consent cookie', () => {
+  it('round-trips a serialized state', () => {
+    const state = createConsent({ analytics: true, marketing: false }, new Date('2026-10-01T00:00:00Z'));
+    expect(parseConsent(serializeConsent(state))).toEqual({
+      version: CONSENT_VERSION,
+      analytics: true,
+      marketing: false,
+      updatedAt: '2026-10-01T00:00:00.000Z',
+    });
+  });
+
+  it('ignores missing, malformed and outdated values', () => {
+    const outdated = { ...createConsent({ analytics: true, marketing: true }), version: CONSENT_VERSION - 1 };
+    expect(parseConsent(undefined)).toBeUndefined();
+    expect(parseConsent('%7Bnot-json')).toBeUndefined();
+    expect(parseConsent(encodeURIComponent(JSON.stringify({ version: CONSENT_VERSION })))).toBeUndefined();
+    expect(parseConsent(encodeURIComponent(JSON.stringify(outdated)))).toBeUndefined();
+  });
+
+  it('always allows necessary cookies and defaults optional ones to off', () => {
+    expect(hasConsent(undefined, 'necessary')).toBe(true);
+    expect(hasConsent(undefined, 'analytics')).toBe(false);
+    expect(hasConsent(createConsent({ analytics: true, marketing: false }), 'analytics')).toBe(true);
+    expect(hasConsent(createConsent({ analytics: true, marketing: false }), 'marketing')).toBe(false);
+  });
+});
+
+describe('ConsentProvider', () => {
+  beforeEach(clearConsentCookie);
+
+  it('shows the banner until a choice is made and stores it', () => {
+    render(<ConsentProvider><ConsentProbe /></ConsentProvider>);
+
+    expect(screen.getByText('banner.title')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'acceptAll' }));
+
+    expect(screen.queryByText('banner.title')).not.toBeInTheDocument();
+    expect(screen.getByTestId('analytics')).toHaveTextContent('true');
+    expect(readConsentCookie()).toMatchObject({ analytics: true, marketing: true });
+  });
+
+  it('does not prompt again when a current choice is stored', () => {
+    document.cookie = `${CONSENT_COOKIE}=${serializeConsent(createConsent({ analytics: false, marketing: false }))}; Path=/`;
+    render(<ConsentProvider><ConsentProbe /></ConsentProvider>);
+
+    expect(screen.queryByText('banner.title')).not.toBeInTheDocument();
+    expect(screen.getByTestId('analytics')).toHaveTextContent('false');
+  });
+
+  it('re-prompts after a policy version change', () => {
+    const outdated = { ...createConsent({ analytics: true, marketing: true }), version: CONSENT_VERSION - 1 };
+    document.cookie = `${CONSENT_COOKIE}=${serializeConsent(outdated)}; Path=/`;
+    render(<ConsentProvider><ConsentProbe /></ConsentProvider>);
+
+    expect(screen.getByText('banner.title')).toBeInTheDocument();
+    expect(screen.getByTestId('analytics')).toHaveTextContent('false');
+  });
+
+  it('saves per-category choices from the preferences dialog', () => {
+    render(<ConsentProvider><ConsentProbe /></ConsentProvider>);
+    fireEvent.click(screen.getByRole('button', { name: 'customize' }));
+
+    expect(screen.getByRole('checkbox', { name: 'categories.necessary.title' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('checkbox', { name: 'categories.analytics.title' }));
+    fireEvent.click(screen.getByRole('button', { name: 'preferences.save' }));
+
+    expect(readConsentCookie()).toMatchObject({ analytics: true, marketing: false });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
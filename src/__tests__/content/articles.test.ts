@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAdjacentArticles,
+  getArchive,
+  getNewsListing,
+  getNewsPath,
+  getRelatedArticles,
+  paginate,
+  type Article,
+  type ArticleCategory,
+} from '@/lib/content';
+
+function article(slug: string, category: ArticleCategory, publishedAt: string): Article {
+  return {
+    slug,
+    locale: 'en',
+    title: slug,
+    excerpt: '',
+    category,
+    publishedAt,
+    body: { format: 'markdown', source: '' },
+  };
+}
+
+// Newest first, as returned by getArticles
+const articles = [
+  article('e', 'event', '2026-05-01'),
+  article('d', 'partnership', '2026-04-01'),
+  article('c', 'technology', '2026-03-01'),
+  article('b', 'partnership', '2026-02-01'),
+  article('a', 'announcement', '2026-01-01'),
+];
+
+describe('getRelatedArticles', () => {
+  it('prefers the same category, then the latest others', () => {
+    const related = getRelatedArticles(articles, articles[3]);
+    expect(related.map(({ slug }) => slug)).toEqual(['d', 'e', 'c']);
+  });
+
+  it('never includes the article itself', () => {
+    const related = getRelatedArticles(articles, articles[0], 10);
+    expect(related.map(({ slug }) => slug)).toEqual(['d', 'c', 'b', 'a']);
+  });
+});
+
+describe('getAdjacentArticles', () => {
+  it('returns the older and newer neighbours', () => {
+    const { previous, next } = getAdjacentArticles(articles, 'c');
+    expect(previous?.slug).toBe('b');
+    expect(next?.slug).toBe('d');
+  });
+
+  it('has no neighbours past either end or for unknown slugs', () => {
+    expect(getAdjacentArticles(articles, 'e').next).toBeUndefined();
+    expect(getAdjacentArticles(articles, 'a').previous).toBeUndefined();
+    expect(getAdjacentArticles(articles, 'missing')).toEqual({ previous: undefined, next: undefined });
+  });
+});
+
+describe('paginate', () => {
+  const items = Array.from({ length: 20 }, (_, index) => index);
+
+  it('slices pages and counts the total', () => {
+    expect(paginate(items, 3, 9)).toEqual({ items: [18, 19], page: 3, totalPages: 3 });
+  });
+
+  it('rejects pages out of range but always has a first page', () => {
+    expect(paginate(items, 4, 9)).toBeUndefined();
+    expect(paginate(items, 0, 9)).toBeUndefined();
+    expect(paginate(items, Number('abc'), 9)).toBeUndefined();
+    expect(paginate([], 1, 9)).toEqual({ items: [], page: 1, totalPages: 1 });
+  });
+});
+
+describe('getNewsListing', () => {
+  it('leads the index with the newest article when nothing is pinned', () => {
+    const listing = getNewsListing(articles);
+    expect(listing?.featured?.slug).toBe('e');
+    expect(listing?.items.map(({ slug }) => slug)).toEqual(['d', 'c', 'b', 'a']);
+  });
+
+  it('prefers a pinned article for the featured slot', () => {
+    const pinned = articles.map((item) => (item.slug === 'b' ? { ...item, featured: true } : item));
+    expect(getNewsListing(pinned)?.featured?.slug).toBe('b');
+  });
+
+  it('has no featured slot on filtered views', () => {
+    const listing = getNewsListing(articles, { category: 'partnership' });
+    expect(listing?.featured).toBeUndefined();
+    expect(listing?.items.map(({ slug }) => slug)).toEqual(['d', 'b']);
+  });
+
+  it('filters archive views by year and month', () => {
+    expect(getNewsListing(articles, { year: 2026, month: 3 })?.items.map(({ slug }) => slug)).toEqual(['c']);
+    expect(getNewsListing(articles, { year: 2025 })?.items).toEqual([]);
+  });
+});
+
+describe('getArchive', () => {
+  it('groups articles by year and month, newest first', () => {
+    const archive = getArchive([...articles, article('z', 'event', '2025-12-24')]);
+    expect(archive.map(({ year, count }) => [year, count])).toEqual([[2026, 5], [2025, 1]]);
+    expect(archive[0].months[0]).toEqual({ month: 5, count: 1 });
+  });
+});
+
+describe('getNewsPath', () => {
+  it('builds shareable listing URLs', () => {
+    expect(getNewsPath()).toBe('/news');
+    expect(getNewsPath({}, 2)).toBe('/news/page/2');
+    expect(getNewsPath({ category: 'partnership' })).toBe('/news/category/partnership');
+    expect(getNewsPath({ category: 'event' }, 3)).toBe('/news/category/event/page/3');
+    expect(getNewsPath({ year: 2026, month: 1 })).toBe('/news/archive/2026/01');
+  });
+});
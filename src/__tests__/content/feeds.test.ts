@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { Article } from '@/lib/content';
+import { buildAtomFeed, buildJsonFeed, buildRssFeed, getFeedAlternates, type NewsFeed } from '@/lib/content/feeds';
+
+const feed: NewsFeed = {
+  locale: 'de',
+  title: 'News & Insights',
+  description: 'Neuigkeiten <Dualys>',
+  articles: [
+    {
+      slug: 'launch',
+      locale: 'de',
+      title: 'Start "Q1" & mehr',
+      excerpt: 'Kurz',
+      category: 'technology',
+      publishedAt: '2026-03-01',
+      updatedAt: '2026-03-05',
+      author: 'Jane Doe',
+      image: '/images/news/launch.jpg',
+      body: { format: 'markdown', source: '' },
+    },
+    {
+      slug: 'partnership',
+      locale: 'de',
+      title: 'Partnerschaft',
+      excerpt: 'Kurz',
+      category: 'partnership',
+      publishedAt: '2026-01-15',
+      body: { format: 'markdown', source: '' },
+    },
+  ] satisfies Article[],
+};
+
+describe('news feeds', () => {
+  it('builds an escaped RSS 2.0 channel with one item per article', () => {
+    const xml = buildRssFeed(feed);
+
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain('<language>de</language>');
+    expect(xml).toContain('<title>News &amp; Insights</title>');
+    expect(xml).toContain('Start &quot;Q1&quot; &amp; mehr');
+    expect(xml).toContain('/de/neuigkeiten/feed.xml" rel="self"');
+    expect(xml).toContain(`<pubDate>${new Date('2026-01-15').toUTCString()}</pubDate>`);
+    expect(xml.match(/<item>/g)).toHaveLength(2);
+  });
+
+  it('describes article images with their MIME type and no byte length', () => {
+    const xml = buildRssFeed({
+      ...feed,
+      articles: [feed.articles[0], { ...feed.articles[1], image: 'https://cdn.example.eu/partnership.webp?w=1200' }],
+    });
+
+    expect(xml).toContain('xmlns:media="http://search.yahoo.com/mrss/"');
+    expect(xml).toMatch(/<media:content url="https?:\/\/[^"]+\/images\/news\/launch\.jpg" medium="image" type="image\/jpeg"\/>/);
+    expect(xml).toContain('<media:content url="https://cdn.example.eu/partnership.webp?w=1200" medium="image" type="image/webp"/>');
+    expect(xml).not.toContain('<enclosure');
+  });
+
+  it('builds an Atom feed updated at the latest article change', () => {
+    const xml = buildAtomFeed(feed);
+
+    expect(xml).toContain('xml:lang="de"');
+    expect(xml).toContain('<updated>2026-03-05T00:00:00.000Z</updated>');
+    expect(xml).toContain('<subtitle>Neuigkeiten &lt;Dualys&gt;</subtitle>');
+    expect(xml.match(/<entry>/g)).toHaveLength(2);
+  });
+
+  it('builds a JSON Feed 1.1 document', () => {
+    const json = JSON.parse(buildJsonFeed(feed));
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.feed_url).toMatch(/\/de\/neuigkeiten\/feed\.json$/);
+    expect(json.items[0]).toMatchObject({ title: 'Start "Q1" & mehr', tags: ['technology'] });
+    expect(json.items[0].image).toMatch(/^https?:\/\/.+\/images\/news\/launch\.jpg$/);
+    expect(json.items[1].authors).toEqual([{ name: 'Dualys' }]);
+  });
+
+  it('advertises all three feeds for discovery', () => {
+    expect(Object.keys(getFeedAlternates('en'))).toEqual([
+      'application/rss+xml',
+      'application/atom+xml',
+      'application/feed+json',
+    ]);
+  });
+});
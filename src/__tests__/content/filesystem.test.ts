@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createFileSystemProvider } from '@/lib/content/providers/filesystem';
+import { resolveProviderName } from '@/lib/content';
+import { locales } from '@/lib/i18n/config';
+
+describe('file-system content provider', () => {
+  describe('repository content/ directory', () => {
+    const provider = createFileSystemProvider(path.join(process.cwd(), 'content'));
+
+    locales.forEach((locale) => {
+      it(`${locale} has localized articles, team members and partners`, async () => {
+        const articles = await provider.getArticles(locale);
+        const team = await provider.getTeamMembers(locale);
+        const partners = await provider.getPartners(locale);
+
+        expect(articles.length).toBeGreaterThan(0);
+        expect(articles.every((article) => article.locale === locale && article.title)).toBe(true);
+        expect(team.length).toBeGreaterThan(0);
+        expect(partners.length).toBeGreaterThan(0);
+      });
+    });
+
+    it('lists articles newest first', async () => {
+      const dates = (await provider.getArticles('en')).map((article) => article.publishedAt);
+      expect(dates).toEqual([...dates].sort().reverse());
+    });
+  });
+
+  describe('fixture directory', () => {
+    let root: string;
+
+    beforeAll(async () => {
+      root = await mkdtemp(path.join(tmpdir(), 'dualys-content-'));
+      const articleDir = path.join(root, 'news', 'hello-world');
+      await mkdir(articleDir, { recursive: true });
+      await writeFile(path.join(articleDir, 'meta.yaml'), 'category: event\npublishedAt: "2026-02-01"\n');
+      await writeFile(path.join(articleDir, 'en.md'), '---\ntitle: Hello\nexcerpt: Short\n---\n\n# Body\n\nText.\n');
+      await writeFile(path.join(articleDir, 'fr.md'), '---\ntitle: Bonjour\nexcerpt: Court\n---\n\nTexte.\n');
+      await writeFile(
+        path.join(root, 'team.yaml'),
+        'members:\n  - id: jane\n    name: Jane Doe\n    role:\n      en: Director\n      de: Direktorin\n    bio: Bio\n'
+      );
+      await writeFile(path.join(root, 'partners.yaml'), 'partners:\n  - id: p1\n    name: P1\n    category: alien\n');
+    });
+
+    afterAll(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('parses frontmatter and keeps the Markdown body', async () => {
+      const article = await createFileSystemProvider(root).getArticle('fr', 'hello-world');
+
+      expect(article).toMatchObject({ slug: 'hello-world', title: 'Bonjour', category: 'event' });
+      expect(article?.body).toEqual({ format: 'markdown', source: 'Texte.' });
+    });
+
+    it('falls back to English for missing translations', async () => {
+      const provider = createFileSystemProvider(root);
+
+      expect((await provider.getArticle('it', 'hello-world'))?.title).toBe('Hello');
+      expect((await provider.getTeamMembers('it'))[0].role).toBe('Director');
+      expect((await provider.getTeamMembers('de'))[0].role).toBe('Direktorin');
+    });
+
+    it('returns undefined for unknown or unsafe slugs', async () => {
+      const provider = createFileSystemProvider(root);
+
+      expect(await provider.getArticle('en', 'missing')).toBeUndefined();
+      expect(await provider.getArticle('en', '../team')).toBeUndefined();
+    });
+
+    it('rejects content files that do not match the schema', async () => {
+      await expect(createFileSystemProvider(root).getPartners('en')).rejects.toThrow(/partners\.yaml/);
+    });
+  });
+});
+
+describe('resolveProviderName', () => {
+  it('uses Contentful only when configured', () => {
+    expect(resolveProviderName({})).toBe('filesystem');
+    expect(resolveProviderName({ CONTENTFUL_SPACE_ID: 'space' })).toBe('contentful');
+    expect(resolveProviderName({ CONTENT_PROVIDER: 'filesystem', CONTENTFUL_SPACE_ID: 'space' })).toBe('filesystem');
+  });
+});
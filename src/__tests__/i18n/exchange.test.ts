@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addUntranslatedLocale,
+  advanceSourceSnapshot,
+  applyTranslations,
+  buildTranslationUnits,
+  checkImport,
+  confirmSources,
+  messageArguments,
+  placeholderIssue,
+} from '@/lib/i18n/exchange';
+import { fromPo, fromXliff, toPo, toXliff } from '@/lib/i18n/exchange-formats';
+
+const source = {
+  'nav.home': 'Home',
+  'footer.copyright': '© {year} Dualys AIE.',
+  'newsletter.email.text': 'Hello,\n\nconfirm "here": {url}',
+  'nav.contact': 'Contact',
+};
+
+const target = {
+  'nav.home': 'Accueil',
+  'footer.copyright': '© {year} Dualys AIE.',
+  'newsletter.email.text': 'Bonjour,\n\nconfirmez « ici » : {url}',
+  'nav.contact': 'Contact',
+};
+
+describe('Translation exchange', () => {
+  describe('buildTranslationUnits', () => {
+    it('marks missing and recorded fallback keys as untranslated and stale keys as changed', () => {
+      const units = buildTranslationUnits(
+        source,
+        { ...target, 'footer.copyright': '' },
+        { stale: { 'nav.home': 'Start' }, untranslated: ['nav.contact'] }
+      );
+
+      expect(units.map(({ key, state }) => [key, state])).toEqual([
+        ['nav.home', 'changed'],
+        ['footer.copyright', 'untranslated'],
+        ['newsletter.email.text', 'translated'],
+        ['nav.contact', 'untranslated'],
+      ]);
+      expect(units[0]).toMatchObject({ previousSource: 'Start', target: 'Accueil', namespace: 'nav' });
+      expect(units[3].target).toBeUndefined();
+    });
+
+    it('treats text identical to English as translated unless recorded as a fallback', () => {
+      expect(buildTranslationUnits(source, target).find((unit) => unit.key === 'nav.contact'))
+        .toMatchObject({ state: 'translated', target: 'Contact' });
+    });
+  });
+
+  describe('source snapshot', () => {
+    it('flags keys whose English changed since the last export in every locale', () => {
+      const first = advanceSourceSnapshot(undefined, { a: 'One', b: 'Two' }, ['fr', 'de']);
+      expect(first.stale).toEqual({ fr: {}, de: {} });
+
+      const second = advanceSourceSnapshot(first, { a: 'One!', b: 'Two' }, ['fr', 'de']);
+      const third = advanceSourceSnapshot(second, { a: 'One!!', b: 'Two' }, ['fr', 'de']);
+      expect(third.stale.fr).toEqual({ a: 'One' });
+      expect(third.source).toEqual({ a: 'One!!', b: 'Two' });
+    });
+
+    it('records every key of a scaffolded locale as untranslated until confirmed', () => {
+      const snapshot = addUntranslatedLocale(advanceSourceSnapshot(undefined, { a: 'One', b: 'Two' }, ['fr']), 'de', { a: 'One', b: 'Two' });
+      expect(snapshot.untranslated).toEqual({ de: ['a', 'b'] });
+
+      const next = advanceSourceSnapshot(snapshot, { a: 'One' }, ['fr', 'de']);
+      expect(next.untranslated).toEqual({ de: ['a'] });
+      expect(confirmSources(next, 'de', ['a']).untranslated).toEqual({});
+    });
+
+    it('clears confirmed keys for the imported locale only', () => {
+      const snapshot = { source: {}, stale: { fr: { a: 'One' }, de: { a: 'One' } }, untranslated: { fr: ['a', 'b'], de: ['a'] } };
+      const confirmed = confirmSources(snapshot, 'fr', ['a']);
+
+      expect(confirmed.stale).toEqual({ fr: {}, de: { a: 'One' } });
+      expect(confirmed.untranslated).toEqual({ fr: ['b'], de: ['a'] });
+    });
+  });
+
+  describe('placeholders', () => {
+    it('lists ICU arguments and rich text tags', () => {
+      expect(messageArguments('{count, plural, =1 {# result} other {# results}} for <b>{query}</b>'))
+        .toEqual(['<b>', '{count}', '{query}']);
+    });
+
+    it('reports missing, unexpected and invalid placeholders', () => {
+      expect(placeholderIssue('© {year} Dualys', '© {année} Dualys')).toBe('missing {year}; unexpected {année}');
+      expect(placeholderIssue('By {author}', 'Par {author')).toMatch(/^invalid ICU message/);
+      expect(placeholderIssue('By {author}', 'Par {author}')).toBeUndefined();
+    });
+  });
+
+  describe('checkImport', () => {
+    it('writes back only reviewed, changed and valid translations', () => {
+      const result = checkImport([
+        { key: 'nav.home', source: 'Home', target: 'Page d\'accueil', reviewed: true },
+        { key: 'nav.contact', source: 'Contact', target: 'Nous contacter', reviewed: false },
+        { key: 'footer.copyright', source: '© {year} Dualys AIE.', target: '© Dualys AIE.', reviewed: true },
+        { key: 'newsletter.email.text', source: source['newsletter.email.text'], target: target['newsletter.email.text'], reviewed: true },
+        { key: 'nav.blog', source: 'Blog', target: 'Blog', reviewed: true },
+      ], source, target);
+
+      expect(result.changes).toEqual({ 'nav.home': 'Page d\'accueil' });
+      expect(result.confirmed).toEqual(['nav.home', 'newsletter.email.text']);
+      expect(result.skipped).toEqual([{ key: 'nav.contact', message: 'not reviewed' }]);
+      expect(result.rejected.map(({ key }) => key)).toEqual(['footer.copyright', 'nav.blog']);
+    });
+
+    it('skips translations made from outdated English', () => {
+      const result = checkImport([{ key: 'nav.home', source: 'Start', target: 'Début', reviewed: true }], source, target);
+      expect(result.changes).toEqual({});
+      expect(result.skipped).toEqual([{ key: 'nav.home', message: 'English text changed since the export' }]);
+    });
+
+    it('applies changes without reordering keys', () => {
+      const messages = { nav: { home: 'Accueil', contact: 'Contact' }, footer: { copyright: '©' } };
+      const updated = applyTranslations(messages, { 'nav.home': 'Page d\'accueil' });
+
+      expect(JSON.stringify(updated)).toBe('{"nav":{"home":"Page d\'accueil","contact":"Contact"},"footer":{"copyright":"©"}}');
+      expect(messages.nav.home).toBe('Accueil');
+    });
+  });
+
+  describe('formats', () => {
+    const units = buildTranslationUnits(source, target, { stale: { 'nav.home': 'Start' }, untranslated: ['nav.contact'] }, new Map([
+      ['nav.home', { pages: ['/'], files: ['src/components/layout/Header.tsx'] }],
+    ]));
+
+    it('writes XLIFF 2.0 with context notes and states', () => {
+      const xliff = toXliff('fr', units);
+
+      expect(xliff).toContain('<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="fr">');
+      expect(xliff).toContain('<note category="page">/</note>');
+      expect(xliff).toContain('<note category="previous-source">Start</note>');
+      expect(xliff).toContain('<source>Hello,\n\nconfirm &quot;here&quot;: {url}</source>');
+    });
+
+    it('reads back what it writes', () => {
+      for (const { locale, units: imported } of [fromXliff(toXliff('fr', units)), fromPo(toPo('fr', units))]) {
+        expect(locale).toBe('fr');
+        expect(imported.map(({ key, source: text, target: translation }) => [key, text, translation])).toEqual([
+          ['nav.home', 'Home', 'Accueil'],
+          ['footer.copyright', '© {year} Dualys AIE.', '© {year} Dualys AIE.'],
+          ['newsletter.email.text', source['newsletter.email.text'], target['newsletter.email.text']],
+          ['nav.contact', 'Contact', ''],
+        ]);
+        expect(imported[0].reviewed).toBe(false);
+        expect(imported[2].reviewed).toBe(true);
+      }
+    });
+
+    it('marks changed PO entries fuzzy with the previous msgid', () => {
+      expect(toPo('fr', units)).toContain([
+        '#. namespace: nav',
+        '#. page: /',
+        '#: src/components/layout/Header.tsx',
+        '#, fuzzy',
+        '#| msgid "Start"',
+        'msgctxt "nav.home"',
+        'msgid "Home"',
+        'msgstr "Accueil"',
+      ].join('\n'));
+    });
+
+    it('treats untranslated PO entries as reviewed once filled in', () => {
+      const po = toPo('fr', units).replace('msgctxt "nav.contact"\nmsgid "Contact"\nmsgstr ""', 'msgctxt "nav.contact"\nmsgid "Contact"\nmsgstr "Nous contacter"');
+      expect(fromPo(po).units.find((unit) => unit.key === 'nav.contact')).toMatchObject({ target: 'Nous contacter', reviewed: true });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { checkKeyUsage, findKeyReferences, flattenMessageKeys, scanKeyUsage } from '@/lib/i18n/key-usage';
+
+function keys(source: string) {
+  return findKeyReferences(source, 'Fixture.tsx').map((reference) => reference.key);
+}
+
+describe('Translation key usage', () => {
+  describe('findKeyReferences', () => {
+    it('prefixes keys with the translator\'s namespace', () => {
+      expect(keys(`
+        function Hero() {
+          const t = useTranslations('hero');
+          return <h1 title={t.rich('tagline')}>{t('title')}</h1>;
+        }
+      `)).toEqual(['hero.tagline', 'hero.title']);
+    });
+
+    it('reads getTranslations namespaces, including shorthand and template ones', () => {
+      expect(keys(`
+        async function Page({ locale, sector }) {
+          const t = await getTranslations({ locale, namespace: 'pages.about' });
+          const namespace = \`pages.sectors.\${sector}\`;
+          const sectorT = await getTranslations({ locale, namespace });
+          return [t('meta.title'), sectorT('title')];
+        }
+      `)).toEqual(['pages.about.meta.title', 'pages.sectors.*.title']);
+    });
+
+    it('turns data-driven keys into patterns', () => {
+      expect(keys(`
+        const t = useTranslations('nav');
+        items.map((item) => t(messageKey('nav', item.label)));
+        t(open ? 'close' : 'open');
+        t(\`\${category}.title\`);
+      `)).toEqual(['nav.*', 'nav.close', 'nav.open', 'nav.*.title']);
+    });
+
+    it('keeps translators scoped to their function', () => {
+      expect(keys(`
+        function A() { const t = useTranslations('a'); return t('x'); }
+        function B() { const t = useTranslations('b'); return t('y'); }
+        t('ignored');
+      `)).toEqual(['a.x', 'b.y']);
+    });
+
+    it('marks t.has() keys optional and records lines', () => {
+      const [reference] = findKeyReferences(`const t = useTranslations('ns');\nt.has('maybe');`, 'Fixture.tsx');
+      expect(reference).toMatchObject({ key: 'ns.maybe', line: 2, optional: true });
+    });
+  });
+
+  describe('checkKeyUsage', () => {
+    const messageKeys = flattenMessageKeys({ nav: { home: 'Home', about: 'About' }, footer: { legal: { title: 'Legal' } } });
+    const reference = (key: string, extra = {}) => ({ key, file: 'Fixture.tsx', line: 1, optional: false, raw: false, ...extra });
+
+    it('reports missing, unresolved and unused keys', () => {
+      const report = checkKeyUsage(
+        [reference('nav.home'), reference('nav.contact'), reference('footer.*.text'), reference('nav.optional', { optional: true })],
+        messageKeys
+      );
+
+      expect(report.missing.map((item) => item.key)).toEqual(['nav.contact']);
+      expect(report.unresolved.map((item) => item.key)).toEqual(['footer.*.text']);
+      expect(report.unused).toEqual(['nav.about', 'footer.legal.title']);
+    });
+
+    it('counts every key a pattern can reach as used', () => {
+      const report = checkKeyUsage([reference('nav.*'), reference('footer', { raw: true })], messageKeys);
+
+      expect(report.dynamic).toEqual([expect.objectContaining({ key: 'nav.*', matches: 2 })]);
+      expect(report.unused).toEqual([]);
+    });
+  });
+
+  it('finds no missing, unresolved or unused keys in src/', () => {
+    const report = scanKeyUsage();
+
+    expect(report.missing).toEqual([]);
+    expect(report.unresolved).toEqual([]);
+    expect(report.unused).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { LanguageHint, type LanguageHintMessages } from '@/components/layout/LanguageHint';
+import { locales, type Locale } from '@/lib/i18n/config';
+import { LOCALE_COOKIE, readLocalePreference } from '@/lib/i18n/preference';
+
+const mockReplace = vi.fn();
+vi.mock('@/lib/i18n/client-navigation', () => ({
+  useRouter: () => ({ replace: mockReplace, push: vi.fn() }),
+  usePathname: () => '/about',
+}));
+
+const messages = Object.fromEntries(locales.map((locale) => [locale, {
+  text: `available in ${locale}`,
+  action: `view in ${locale}`,
+  dismiss: `dismiss ${locale}`,
+}])) as Record<Locale, LanguageHintMessages>;
+
+function setBrowserLanguages(languages: string[]) {
+  Object.defineProperty(navigator, 'languages', { value: languages, configurable: true });
+}
+
+describe('LanguageHint', () => {
+  beforeEach(() => {
+    mockReplace.mockClear();
+  });
+
+  afterEach(() => {
+    document.cookie = `${LOCALE_COOKIE}=; Path=/; Max-Age=0`;
+  });
+
+  it('offers the page in the browser language, in that language', () => {
+    setBrowserLanguages(['es-ES', 'en']);
+    render(<LanguageHint messages={messages} />);
+
+    expect(screen.getByRole('region')).toHaveAttribute('lang', 'es');
+    expect(screen.getByText('available in es')).toBeInTheDocument();
+  });
+
+  it('stays hidden when the page is already in the browser language', () => {
+    setBrowserLanguages(['en-GB']);
+    render(<LanguageHint messages={messages} />);
+
+    expect(screen.queryByRole('region')).not.toBeInTheDocument();
+  });
+
+  it('stays hidden once a language was chosen', () => {
+    setBrowserLanguages(['es']);
+    document.cookie = `${LOCALE_COOKIE}=en; Path=/`;
+    render(<LanguageHint messages={messages} />);
+
+    expect(screen.queryByRole('region')).not.toBeInTheDocument();
+  });
+
+  it('switches to the suggested language and remembers it', () => {
+    setBrowserLanguages(['fr']);
+    render(<LanguageHint messages={messages} />);
+    fireEvent.click(screen.getByText('view in fr'));
+
+    expect(mockReplace).toHaveBeenCalledWith('/about', { locale: 'fr' });
+    expect(readLocalePreference()).toBe('fr');
+    expect(screen.queryByRole('region')).not.toBeInTheDocument();
+  });
+
+  it('keeps the current language when dismissed', () => {
+    setBrowserLanguages(['de']);
+    render(<LanguageHint messages={messages} />);
+    fireEvent.click(screen.getByLabelText('dismiss de'));
+
+    expect(mockReplace).not.toHaveBeenCalled();
+    expect(readLocalePreference()).toBe('en');
+    expect(screen.queryByRole('region')).not.toBeInTheDocument();
+  });
+});
@@ -1,11 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { LanguageSwitcher } from '@/components/layout/LanguageSwitcher';
-import { locales, localeNames } from '@/lib/i18n/config';
+import { localeDefinitions, locales } from '@/lib/i18n/config';
+import { readLocalePreference } from '@/lib/i18n/preference';
 
 // Mock the i18n navigation
 const mockReplace = vi.fn();
-vi.mock('@/lib/i18n/navigation', () => ({
+vi.mock('@/lib/i18n/client-navigation', () => ({
   useRouter: () => ({
     replace: mockReplace,
     push: vi.fn(),
@@ -61,7 +62,7 @@ describe('LanguageSwitcher', () => {
       expect(screen.getByRole('menu')).toBeInTheDocument();
     });
 
-    it('renders all 6 language options when open', () => {
+    it('renders every language option when open', () => {
       render(<LanguageSwitcher />);
 
       const button = screen.getByRole('button');
@@ -69,7 +70,7 @@ describe('LanguageSwitcher', () => {
 
       // Check all language names are displayed
       locales.forEach((locale) => {
-        expect(screen.getByText(localeNames[locale])).toBeInTheDocument();
+        expect(screen.getByText(localeDefinitions[locale].nativeName)).toBeInTheDocument();
       });
     });
 
@@ -80,7 +81,7 @@ describe('LanguageSwitcher', () => {
       fireEvent.click(button);
 
       const menuItems = screen.getAllByRole('menuitem');
-      expect(menuItems).toHaveLength(6);
+      expect(menuItems).toHaveLength(locales.length);
     });
 
     it('closes dropdown when clicking a language', () => {
@@ -114,6 +115,15 @@ describe('LanguageSwitcher', () => {
       expect(mockReplace).toHaveBeenCalledWith('/about', { locale: 'fr' });
     });
 
+    it('remembers the chosen language in a cookie', () => {
+      render(<LanguageSwitcher />);
+
+      fireEvent.click(screen.getByRole('button'));
+      fireEvent.click(screen.getByText('Deutsch'));
+
+      expect(readLocalePreference()).toBe('de');
+    });
+
     it('calls router.replace with correct locale for each language', () => {
       const testCases = [
         { name: 'Español', locale: 'es' },
@@ -164,7 +174,7 @@ describe('LanguageSwitcher', () => {
       fireEvent.click(button);
 
       const menuItems = screen.getAllByRole('menuitem');
-      expect(menuItems).toHaveLength(6);
+      expect(menuItems).toHaveLength(locales.length);
     });
 
     it('menu has correct aria-orientation', () => {
@@ -0,0 +1,51 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { useTranslations } from 'next-intl';
+import { contactSchema } from '@/lib/contact/schema';
+import { messageKey, type MessageKey } from '@/lib/i18n/messages';
+import { newsletterSchema } from '@/lib/newsletter/schema';
+import { getNavigation } from '@/lib/routes/registry';
+import en from '@/messages/en.json';
+
+// Never called: only has to type-check
+function UnknownKey() {
+  const t = useTranslations('nav');
+  // @ts-expect-error keys are checked against en.json
+  return t('hom');
+}
+
+function errorCodes(result: { error?: { issues: { message: string }[] } }): string[] {
+  return result.error?.issues.map((issue) => issue.message) ?? [];
+}
+
+describe('Typed messages', () => {
+  it('derives keys from en.json', () => {
+    expectTypeOf<MessageKey<'nav'>>().toEqualTypeOf<keyof typeof en.nav>();
+    expectTypeOf<'meta.title'>().toExtend<MessageKey<'pages.about'>>();
+    expect(UnknownKey).toBeTypeOf('function');
+  });
+
+  it('passes data-driven keys through unchanged', () => {
+    expect(messageKey('nav', 'about')).toBe('about');
+  });
+
+  it('has a label for every registry navigation link', () => {
+    const { footer_legal: legal, ...areas } = getNavigation();
+    const navLabels = Object.values(areas).flat().map((item) => item.label);
+
+    expect(navLabels.filter((label) => !(label in en.nav))).toEqual([]);
+    expect(legal.map((item) => item.label).filter((label) => !(label in en.footer))).toEqual([]);
+  });
+
+  it('has a message for every form error code', () => {
+    const contactErrors = [
+      ...errorCodes(contactSchema.safeParse({ topic: 'x', name: 'a', email: 'b', organizationType: 'x', subject: 'c', message: 'd' })),
+      ...errorCodes(contactSchema.safeParse({ topic: 'press', name: 'Ada', email: 'ada@example.eu', subject: 'Press', message: 'A message long enough' })),
+    ];
+    const newsletterErrors = errorCodes(newsletterSchema.safeParse({ email: 'b', consent: false }));
+
+    expect(contactErrors.length).toBeGreaterThan(0);
+    expect(contactErrors.filter((code) => !(code in en.contact.form.errors))).toEqual([]);
+    expect(newsletterErrors).toEqual(['emailInvalid', 'consentRequired']);
+    expect(newsletterErrors.filter((code) => !(code in en.newsletter.errors))).toEqual([]);
+  });
+});
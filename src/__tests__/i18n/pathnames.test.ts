@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { capabilities, getCapabilityPath } from '@/lib/capabilities/definitions';
+import { locales } from '@/lib/i18n/config';
+import {
+  getInternalPathname,
+  getLegacyRedirect,
+  getLocalizedHref,
+  getLocalizedPathname,
+  matchPathname,
+  pathnames,
+} from '@/lib/i18n/pathnames';
+import { flattenRoutes, getRouteRegistry } from '@/lib/routes/registry';
+import { getSectorPath, sectors } from '@/lib/sectors/sectors';
+
+describe('Localized pathnames', () => {
+  it('covers every registry route, capability and sector', () => {
+    const expected = [
+      ...flattenRoutes(getRouteRegistry().routes)
+        .map((route) => route.path)
+        .filter((path) => !['/capabilities/[capability]', '/sectors/[sector]'].includes(path)),
+      ...capabilities.map((capability) => getCapabilityPath(capability.slug)),
+      ...sectors.map(getSectorPath),
+    ];
+
+    expect(expected.filter((path) => !(path in pathnames))).toEqual([]);
+  });
+
+  it('keeps one URL per route in every locale', () => {
+    for (const locale of locales) {
+      const urls = Object.keys(pathnames).map((path) => getLocalizedPathname(path, locale));
+      expect(new Set(urls).size).toBe(urls.length);
+    }
+  });
+
+  it('translates static paths and keeps English for en', () => {
+    expect(getLocalizedPathname('/capabilities/defense', 'ca')).toBe('/capacitats/defensa');
+    expect(getLocalizedPathname('/about/team', 'de')).toBe('/ueber-uns/team');
+    expect(getLocalizedPathname('/capabilities/defense', 'en')).toBe('/capabilities/defense');
+    expect(getLocalizedPathname('/', 'fr')).toBe('/');
+  });
+
+  it('fills dynamic segments and keeps the query and hash', () => {
+    expect(getLocalizedPathname('/news/category/technology/page/2', 'es')).toBe('/noticias/categoria/technology/pagina/2');
+    expect(getLocalizedPathname('/contact?topic=defense#form', 'it')).toBe('/contatti?topic=defense#form');
+    expect(matchPathname('/news/launch')).toEqual({ pathname: '/news/[slug]', params: { slug: 'launch' } });
+    expect(matchPathname('/news/page/2')).toEqual({ pathname: '/news/page/[page]', params: { page: '2' } });
+  });
+
+  it('leaves unknown paths unchanged', () => {
+    expect(getLocalizedPathname('/labs', 'ca')).toBe('/labs');
+    expect(getInternalPathname('/labs', 'ca')).toBe('/labs');
+  });
+
+  it('round-trips every route in every locale', () => {
+    const paths = ['/', '/about/partners', '/sectors/academic', '/news/launch', '/news/archive/2026/01', '/newsletter/unsubscribe?token=x'];
+
+    for (const locale of locales) {
+      for (const path of paths) {
+        expect(getInternalPathname(getLocalizedPathname(path, locale), locale)).toBe(path);
+      }
+    }
+  });
+
+  it('prefixes the locale', () => {
+    expect(getLocalizedHref('/', 'ca')).toBe('/ca');
+    expect(getLocalizedHref('/?q=x', 'ca')).toBe('/ca?q=x');
+    expect(getLocalizedHref('/search?q=drone', 'fr')).toBe('/fr/recherche?q=drone');
+  });
+
+  describe('getLegacyRedirect', () => {
+    it('redirects English slugs to the locale\'s path', () => {
+      expect(getLegacyRedirect('/ca/capabilities/defense')).toBe('/ca/capacitats/defensa');
+      expect(getLegacyRedirect('/de/news/launch')).toBe('/de/neuigkeiten/launch');
+    });
+
+    it('redirects another locale\'s slugs', () => {
+      expect(getLegacyRedirect('/en/capacitats/defensa')).toBe('/en/capabilities/defense');
+      expect(getLegacyRedirect('/fr/sobre-nosotros')).toBe('/fr/a-propos');
+    });
+
+    it('leaves canonical, unknown and unprefixed paths alone', () => {
+      expect(getLegacyRedirect('/ca/capacitats/defensa')).toBeUndefined();
+      expect(getLegacyRedirect('/en/about')).toBeUndefined();
+      expect(getLegacyRedirect('/ca')).toBeUndefined();
+      expect(getLegacyRedirect('/ca/labs')).toBeUndefined();
+      expect(getLegacyRedirect('/api/events')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { defaultLocale } from '@/lib/i18n/config';
+import {
+  LOCALE_COOKIE,
+  negotiateLocale,
+  readLocalePreference,
+  resolvePreferredLocale,
+  writeLocalePreference,
+} from '@/lib/i18n/preference';
+
+describe('Locale preference', () => {
+  describe('negotiateLocale', () => {
+    it('picks the highest weighted supported language', () => {
+      expect(negotiateLocale('ja-JP, de;q=0.7, fr;q=0.9')).toBe('fr');
+      expect(negotiateLocale('ca-ES,ca;q=0.9,es;q=0.8,en;q=0.5')).toBe('ca');
+    });
+
+    it('accepts navigator.languages lists', () => {
+      expect(negotiateLocale(['nl-NL', 'it-IT', 'en'])).toBe('it');
+    });
+
+    it('ignores wildcards, refused and unsupported languages', () => {
+      expect(negotiateLocale('*')).toBeUndefined();
+      expect(negotiateLocale('en;q=0, nl')).toBeUndefined();
+      expect(negotiateLocale('')).toBeUndefined();
+      expect(negotiateLocale(null)).toBeUndefined();
+    });
+  });
+
+  describe('resolvePreferredLocale', () => {
+    it('lets the chosen language win over the browser', () => {
+      expect(resolvePreferredLocale({ cookie: 'es', acceptLanguage: 'de' })).toBe('es');
+    });
+
+    it('negotiates when there is no valid choice and falls back to the default locale', () => {
+      expect(resolvePreferredLocale({ cookie: 'xx', acceptLanguage: 'de-AT' })).toBe('de');
+      expect(resolvePreferredLocale({ acceptLanguage: 'ja' })).toBe(defaultLocale);
+      expect(resolvePreferredLocale({})).toBe(defaultLocale);
+    });
+  });
+
+  describe('cookie', () => {
+    afterEach(() => {
+      document.cookie = `${LOCALE_COOKIE}=; Path=/; Max-Age=0`;
+    });
+
+    it('round-trips the chosen locale', () => {
+      expect(readLocalePreference()).toBeUndefined();
+      writeLocalePreference('it');
+      expect(readLocalePreference()).toBe('it');
+    });
+  });
+});
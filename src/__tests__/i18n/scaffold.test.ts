@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  addLocaleDefinition,
+  addQaLocale,
+  addRegistryLocale,
+  defaultLocaleDefinition,
+  flagForRegion,
+  scaffoldLocale,
+} from '@/lib/i18n/scaffold';
+
+describe('Locale scaffold', () => {
+  it('derives the native name and flag from the code', () => {
+    expect(flagForRegion('pt')).toBe('🇵🇹');
+    expect(defaultLocaleDefinition('pt')).toEqual({ nativeName: 'Português', flag: '🇵🇹' });
+    expect(defaultLocaleDefinition('nl')).toEqual({ nativeName: 'Nederlands', flag: '🇳🇱' });
+    expect(defaultLocaleDefinition('pl', { flag: '🇵🇱', nativeName: 'Polski' })).toEqual({ nativeName: 'Polski', flag: '🇵🇱' });
+  });
+
+  it('appends the definition to config.ts', () => {
+    const source = readFileSync(path.join(process.cwd(), 'src', 'lib', 'i18n', 'config.ts'), 'utf8');
+    const updated = addLocaleDefinition(source, 'pt', { nativeName: 'Português', flag: '🇵🇹' });
+
+    expect(updated).toContain("  ca: { nativeName: 'Català', flag: '🏴󠁥󠁳󠁣󠁴󠁿' },\n  pt: { nativeName: 'Português', flag: '🇵🇹' },\n} as const");
+    expect(updated.replace("  pt: { nativeName: 'Português', flag: '🇵🇹' },\n", '')).toBe(source);
+  });
+
+  it('adds an empty QA allowlist entry', () => {
+    const source = readFileSync(path.join(process.cwd(), 'src', 'lib', 'i18n', 'qa.ts'), 'utf8');
+    const updated = addQaLocale(source, 'pt');
+
+    expect(updated).toContain("'Cookies'],\n    pt: [],\n  } satisfies Record<TranslatedLocale, string[]>");
+    expect(updated.replace('    pt: [],\n', '')).toBe(source);
+  });
+
+  it('appends the locale to registry lists in their quoting style', () => {
+    expect(addRegistryLocale('version: "1.0"\nlocales: ["en", "fr"]\n', 'pt')).toBe('version: "1.0"\nlocales: ["en", "fr", "pt"]\n');
+    expect(addRegistryLocale('locales: [en, fr]\nroutes: []\n', 'nl')).toBe('locales: [en, fr, nl]\nroutes: []\n');
+    expect(() => addRegistryLocale('routes: []\n', 'nl')).toThrow('locales list not found');
+  });
+
+  it('refuses existing locales and invalid codes', () => {
+    expect(() => scaffoldLocale('fr', { nativeName: 'Français', flag: '🇫🇷' })).toThrow('already a locale');
+    expect(() => scaffoldLocale('pt-BR', { nativeName: 'Português', flag: '🇧🇷' })).toThrow('not a two or three letter language code');
+  });
+});
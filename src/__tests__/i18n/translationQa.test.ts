@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { checkTranslations, formatQaReport, runTranslationQa, translationQaConfig } from '@/lib/i18n/qa';
+
+const config = {
+  ...translationQaConfig,
+  lengthRules: [{ pattern: 'nav.*', maxRatio: 1.5 }, { pattern: '**.button', maxRatio: 2 }],
+  minLengthBase: 6,
+  sharedKeys: ['contact.email'],
+  identicalAllowed: { fr: ['Contact'] },
+};
+
+function checks(source: Record<string, string>, target: Record<string, string>) {
+  return checkTranslations('fr', source, target, config).map(({ check, key }) => [check, key]);
+}
+
+describe('Translation QA', () => {
+  it('requires the English ICU arguments and tags', () => {
+    expect(checks(
+      { 'footer.copyright': '© {year} Dualys AIE', 'search.count': '{count, plural, other {# results}}' },
+      { 'footer.copyright': '© {année} Dualys AIE', 'search.count': '{count, plural, other {# résultats}}' }
+    )).toEqual([['placeholders', 'footer.copyright']]);
+  });
+
+  it('keeps brand terms untranslated', () => {
+    const issues = checkTranslations(
+      'fr',
+      { 'about.text': 'Dualys AIE works with NATO to ISO 27001.' },
+      { 'about.text': 'Dualys SL travaille avec l\'OTAN selon ISO 27001.' },
+      config
+    );
+
+    expect(issues).toEqual([{ check: 'brand-terms', key: 'about.text', message: 'missing "Dualys AIE", "NATO"' }]);
+  });
+
+  it('limits the length of navigation labels and buttons', () => {
+    expect(checks(
+      { 'nav.home': 'Home', 'nav.news': 'News', 'hero.cta.button': 'Get in Touch', 'hero.text': 'Hi' },
+      { 'nav.home': 'Accueil', 'nav.news': 'Actualités', 'hero.cta.button': 'Prenez contact avec notre équipe', 'hero.text': 'Bonjour à toutes et à tous' }
+    )).toEqual([['length', 'nav.news'], ['length', 'hero.cta.button']]);
+  });
+
+  it('flags text left in English unless allowed', () => {
+    expect(checks(
+      { 'nav.contact': 'Contact', 'nav.team': 'Team', 'contact.email': 'info@dualys.eu' },
+      { 'nav.contact': 'Contact', 'nav.team': 'Team', 'contact.email': 'info@dualys.eu' }
+    )).toEqual([['identical', 'nav.team']]);
+  });
+
+  it('reports recorded English fallbacks as untranslated, even where English is allowed', () => {
+    const issues = checkTranslations('fr', { 'nav.contact': 'Contact' }, { 'nav.contact': 'Contact' }, config, ['nav.contact']);
+    expect(issues).toEqual([{ check: 'untranslated', key: 'nav.contact', message: 'English fallback, not translated yet' }]);
+  });
+
+  it('leaves missing keys to the completeness tests', () => {
+    expect(checks({ 'nav.home': 'Home' }, {})).toEqual([]);
+  });
+
+  it('formats a per-locale report', () => {
+    expect(formatQaReport([
+      { locale: 'fr', keys: 2, issues: [] },
+      { locale: 'de', keys: 2, issues: [{ check: 'identical', key: 'nav.team', message: 'same as English: "Team"' }] },
+    ])).toBe('fr: 2 keys, 0 issue(s)\nde: 2 keys, 1 issue(s)\n  identical    nav.team  same as English: "Team"\n');
+  });
+
+  describe('src/messages', () => {
+    it.each(runTranslationQa())('$locale passes translation QA', ({ locale, issues }) => {
+      expect(issues, formatQaReport([{ locale, keys: 0, issues }])).toEqual([]);
+    });
+  });
+});
@@ -1,22 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import * as en from '@/messages/en.json';
-import * as es from '@/messages/es.json';
-import * as ca from '@/messages/ca.json';
-import * as fr from '@/messages/fr.json';
-import * as de from '@/messages/de.json';
-import * as itJson from '@/messages/it.json';
 import { locales } from '@/lib/i18n/config';
+import { loadMessages } from '@/lib/i18n/message-files';
 
 type TranslationObject = Record<string, unknown>;
 
-const translations: Record<string, TranslationObject> = {
-  en: en as unknown as TranslationObject,
-  es: es as unknown as TranslationObject,
-  ca: ca as unknown as TranslationObject,
-  fr: fr as unknown as TranslationObject,
-  de: de as unknown as TranslationObject,
-  it: itJson as unknown as TranslationObject,
-};
+const translations: Record<string, TranslationObject> = Object.fromEntries(
+  locales.map((locale) => [locale, loadMessages(locale)])
+);
+const { en, es, ca, fr, de } = translations;
 
 /**
  * Recursively get all keys from a nested object
@@ -194,8 +185,8 @@ describe('i18n Translations', () => {
     });
 
     it('Italian contains Italian special characters', () => {
-      const title = getValueByKey(itJson as unknown as TranslationObject, 'metadata.title') as string;
-      const description = getValueByKey(itJson as unknown as TranslationObject, 'metadata.description') as string;
+      const title = getValueByKey(translations.it, 'metadata.title') as string;
+      const description = getValueByKey(translations.it, 'metadata.description') as string;
       const content = title + description;
 
       // Italian should have accents
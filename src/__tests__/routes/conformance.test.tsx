@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderToReadableStream } from 'react-dom/server';
+import path from 'path';
+import { getContentProvider, setContentProvider, type ContentProvider } from '@/lib/content';
+import { locales, type Locale } from '@/lib/i18n/config';
+import { getExpectedCtas } from '@/lib/routes/cta-registry';
+import { checkRegistries, checkRenderedPage, formatDriftTable, pageFileFor, type DriftIssue } from '@/lib/routes/conformance';
+import { flattenRoutes, getRouteRegistry } from '@/lib/routes/registry';
+import { loadMessages } from '@/lib/i18n/message-files';
+import type { Messages } from '@/lib/i18n/messages';
+
+const messages = Object.fromEntries(locales.map((locale) => [locale, loadMessages(locale)])) as Record<Locale, Messages>;
+let currentLocale: Locale = 'en';
+
+// Real translations (a missing key fails the render) instead of the global key-echo mock
+vi.mock('next-intl', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('next-intl')>();
+  return {
+    ...actual,
+    useLocale: () => currentLocale,
+    useTranslations: (namespace?: string) => actual.createTranslator({
+      locale: currentLocale,
+      messages: messages[currentLocale],
+      namespace,
+      onError: (error: Error) => {
+        throw error;
+      },
+    } as never),
+  };
+});
+
+vi.mock('next-intl/server', async () => {
+  const { createTranslator } = await import('next-intl');
+  return {
+    setRequestLocale: () => {},
+    getTranslations: async (options: string | { locale?: Locale; namespace?: string } = {}) => {
+      const { locale = currentLocale, namespace } = typeof options === 'string' ? { namespace: options } : options;
+      return createTranslator({
+        locale,
+        messages: messages[locale],
+        namespace,
+        onError: (error: Error) => {
+          throw error;
+        },
+      } as never);
+    },
+  };
+});
+
+// Internal hrefs rendered with the locale's translated slugs, as on the site
+vi.mock('@/lib/i18n/navigation', async () => {
+  const { getLocalizedHref } = await import('@/lib/i18n/pathnames');
+  return {
+    Link: ({ href, children, ...props }: { href: string; children: React.ReactNode }) => (
+      <a href={getLocalizedHref(href, currentLocale)} {...props}>{children}</a>
+    ),
+  };
+});
+
+vi.mock('@/lib/i18n/client-navigation', () => ({
+  usePathname: () => '/',
+  useRouter: () => ({ push: vi.fn(), replace: vi.fn() }),
+}));
+
+interface PageModule {
+  default: (props: { params: Promise<Record<string, string>>; searchParams: Promise<Record<string, string>> }) => Promise<React.ReactElement> | React.ReactElement;
+  generateStaticParams?: (props: { params: Record<string, string> }) => Promise<Record<string, string>[]> | Record<string, string>[];
+}
+
+function loadPage(routePath: string): Promise<PageModule> {
+  return import(/* @vite-ignore */ pageFileFor(routePath));
+}
+
+/**
+ * Every statically generated parameter set of a route, resolved like Next.js:
+ * a page's generateStaticParams only receives its layouts' params (here the
+ * [locale] layout's), never those of the page one segment up.
+ */
+async function resolveParams(routePath: string, locale: Locale): Promise<Record<string, string>[]> {
+  const params = { locale };
+  if (!routePath.includes('[')) {
+    return [params];
+  }
+  const page = await loadPage(routePath);
+  const candidates = (await page.generateStaticParams?.({ params })) ?? [];
+  return candidates
+    .filter((candidate) => !candidate.locale || candidate.locale === locale)
+    .map((candidate) => ({ ...params, ...candidate }));
+}
+
+/**
+ * The site has too few articles for a second listing page, so paginated
+ * routes are checked against each article repeated under new slugs.
+ */
+function createPaddedProvider(base: ContentProvider, copies = 10): ContentProvider {
+  return {
+    ...base,
+    name: `${base.name}-padded`,
+    async getArticles(locale) {
+      const articles = await base.getArticles(locale);
+      return articles.flatMap((article) => Array.from({ length: copies }, (_, index) => (index === 0
+        ? article
+        : { ...article, slug: `${article.slug}-${index + 1}`, featured: false })));
+    },
+  };
+}
+
+async function renderPage(routePath: string, params: Record<string, string>): Promise<Document> {
+  const { default: Page } = await loadPage(routePath);
+  const element = await Page({ params: Promise.resolve(params), searchParams: Promise.resolve({}) });
+  const stream = await renderToReadableStream(element);
+  await stream.allReady;
+  return new DOMParser().parseFromString(await new Response(stream).text(), 'text/html');
+}
+
+const routes = flattenRoutes(getRouteRegistry().routes);
+const expectedCtas = getExpectedCtas();
+
+describe('registry conformance', () => {
+  it('registries, page files and each other agree', () => {
+    const errors = checkRegistries().filter((issue) => issue.severity === 'error');
+    expect(errors, formatDriftTable(errors)).toEqual([]);
+  });
+
+  it('resolves page files relative to the app directory', () => {
+    expect(pageFileFor('/')).toBe(path.join(process.cwd(), 'src', 'app', '[locale]', 'page.tsx'));
+  });
+
+  it('flags pages with disjoint or dangling JSON-LD', () => {
+    const document = new DOMParser().parseFromString([
+      '<script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"WebPage","@id":"#webpage","name":"A","url":"/a","isPartOf":{"@id":"#website"}}]}</script>',
+      '<script type="application/ld+json">{"@type":"Organization"</script>',
+    ].join(''), 'text/html');
+
+    expect(checkRenderedPage(document, { path: '/a' }, 'en').map((issue) => issue.detail)).toEqual([
+      '2 JSON-LD scripts instead of one @graph',
+      '$.@graph[0].isPartOf: reference to #website is not in the graph',
+      'JSON-LD is not valid JSON',
+    ]);
+  });
+
+  describe.each(locales)('rendered pages (%s)', (locale) => {
+    it.for(routes.map((route) => [route.path, route] as const))('%s', async ([routePath, route]) => {
+      const paginated = routePath.endsWith('/page/[page]');
+      if (paginated) {
+        setContentProvider(createPaddedProvider(getContentProvider()));
+      }
+
+      try {
+        const paramSets = await resolveParams(routePath, locale);
+        expect(paramSets.length, 'no statically generated params').toBeGreaterThan(0);
+
+        currentLocale = locale;
+        const issues: DriftIssue[] = [];
+        for (const params of paramSets) {
+          const document = await renderPage(routePath, params);
+          // Mappings for one page of a dynamic route are keyed by its concrete path
+          const concretePath = routePath.replace(/\[(\w+)\]/g, (_, name: string) => params[name]);
+          const expected = expectedCtas.get(concretePath) ?? expectedCtas.get(routePath);
+          issues.push(...checkRenderedPage(document, { ...route, path: concretePath }, locale, expected));
+        }
+        expect(issues, formatDriftTable(issues)).toEqual([]);
+      } finally {
+        if (paginated) {
+          setContentProvider(undefined);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,131 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { locales } from '@/lib/i18n/config';
+import {
+  findRoute,
+  flattenRoutes,
+  getNavigation,
+  getRouteRegistry,
+  isIndexable,
+  parseRouteRegistry,
+  type RouteEntry,
+} from '@/lib/routes/registry';
+import { buildSitemap } from '@/lib/seo/sitemap';
+import sitemap from '@/app/sitemap';
+
+const minimal = `
+version: "1.0"
+framework: "nextjs-app-router"
+locales: ["en", "fr"]
+default_locale: "en"
+validation:
+  statuses: { published: "Live", draft: "Draft", coming_soon: "Soon", placeholder: "Placeholder" }
+  content_requirements: []
+clusters: []
+routes:
+  - path: "/"
+    status: published
+    priority: 1.0
+    changefreq: weekly
+`;
+
+function route(overrides: Partial<RouteEntry>): RouteEntry {
+  return { path: '/', status: 'published', nav: [], index: true, priority: 0.5, changefreq: 'monthly', ...overrides };
+}
+
+describe('route registry loader', () => {
+  it('validates the repository registry', () => {
+    const registry = getRouteRegistry();
+    expect(registry.routes.length).toBeGreaterThan(0);
+    expect(flattenRoutes(registry.routes).map((entry) => entry.path)).toContain('/capabilities/[capability]');
+  });
+
+  it('defaults nav to an empty list', () => {
+    expect(parseRouteRegistry(minimal).routes[0].nav).toEqual([]);
+  });
+
+  it('reports invalid entries with their location', () => {
+    const invalid = minimal.replace('status: published', 'status: live').replace('priority: 1.0', 'priority: 2');
+    expect(() => parseRouteRegistry(invalid)).toThrow(/routes\[0\]\.status/);
+    expect(() => parseRouteRegistry(invalid)).toThrow(/routes\[0\]\.priority/);
+    expect(() => parseRouteRegistry(minimal.replace('path: "/"', 'path: "about"'))).toThrow(/Invalid route path/);
+  });
+
+  it('resolves concrete paths to static or dynamic entries', () => {
+    expect(findRoute('/news')?.path).toBe('/news');
+    expect(findRoute('/news/some-article')?.path).toBe('/news/[slug]');
+    expect(findRoute('')?.path).toBe('/');
+    expect(findRoute('/does-not-exist')).toBeUndefined();
+  });
+
+  it('excludes draft and placeholder routes from indexing', () => {
+    expect(isIndexable(route({ status: 'published' }))).toBe(true);
+    expect(isIndexable(route({ status: 'coming_soon' }))).toBe(true);
+    expect(isIndexable(route({ status: 'draft' }))).toBe(false);
+    expect(isIndexable(route({ status: 'placeholder' }))).toBe(false);
+    expect(isIndexable(route({ index: false }))).toBe(false);
+  });
+});
+
+describe('navigation', () => {
+  it('builds header and footer links from the nav field', () => {
+    const navigation = getNavigation();
+    expect(navigation.header.map((item) => item.href)).toEqual(['/', '/about', '/capabilities', '/sectors', '/news']);
+    expect(navigation.header_cta).toEqual([{ href: '/contact', label: 'contact' }]);
+    expect(navigation.footer.map((item) => item.label)).toEqual(['about', 'capabilities', 'sectors', 'news', 'contact']);
+    expect(navigation.footer_legal.map((item) => item.label)).toEqual(['privacy', 'terms', 'cookies']);
+  });
+
+  it('prefers an explicit label', () => {
+    const navigation = getNavigation([route({ path: '/about/team', nav: ['footer'], label: 'team' }), route({ nav: ['header'] })]);
+    expect(navigation.footer).toEqual([{ href: '/about/team', label: 'team' }]);
+    expect(navigation.header).toEqual([{ href: '/', label: 'home' }]);
+  });
+});
+
+describe('sitemap', () => {
+  const now = new Date('2026-10-01T00:00:00Z');
+
+  it('uses registry priority and change frequency for every locale', async () => {
+    const entries = await buildSitemap([route({ path: '/', priority: 1, changefreq: 'weekly' })], { now });
+
+    expect(entries).toHaveLength(locales.length);
+    expect(entries[0]).toMatchObject({ url: 'https://dualys.eu/en', priority: 1, changeFrequency: 'weekly', lastModified: now });
+    expect(entries[0].alternates?.languages).toMatchObject({ fr: 'https://dualys.eu/fr', 'x-default': 'https://dualys.eu/en' });
+  });
+
+  it('skips draft and placeholder routes, including their children', async () => {
+    const entries = await buildSitemap([
+      route({ path: '/about', children: [route({ path: '/about/team', status: 'placeholder' })] }),
+      route({ path: '/labs', status: 'draft' }),
+    ], { now });
+
+    const paths = entries.map((entry) => new URL(entry.url).pathname);
+    expect(paths).toHaveLength(locales.length);
+    expect(paths).toEqual(expect.arrayContaining([
+      '/en/about', '/fr/a-propos', '/es/sobre-nosotros', '/de/ueber-uns', '/it/chi-siamo', '/ca/qui-som',
+    ]));
+  });
+
+  it('expands dynamic routes through resolvers, per locale', async () => {
+    const lastModified = new Date('2026-09-01T00:00:00Z');
+    const entries = await buildSitemap([route({ path: '/news/[slug]' }), route({ path: '/news/archive/[year]' })], {
+      now,
+      resolvers: {
+        '/news/[slug]': async (locale) => (locale === 'en' || locale === 'fr' ? [{ path: '/news/launch', lastModified }] : []),
+      },
+    });
+
+    expect(entries.map((entry) => entry.url)).toEqual(['https://dualys.eu/en/news/launch', 'https://dualys.eu/fr/actualites/launch']);
+    expect(entries[1].lastModified).toBe(lastModified);
+    expect(Object.keys(entries[0].alternates?.languages ?? {})).toEqual(['en', 'fr', 'x-default']);
+  });
+
+  it('covers the published registry routes', async () => {
+    const urls = (await sitemap()).map((entry) => entry.url);
+
+    expect(urls).toContain('https://dualys.eu/de/kompetenzen/verteidigung');
+    expect(urls).toContain('https://dualys.eu/en/legal/privacy');
+    expect(urls).not.toContain('https://dualys.eu/en/about/team');
+  });
+});
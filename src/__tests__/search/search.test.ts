@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { locales } from '@/lib/i18n/config';
+import { buildArticleDocuments, buildPageDocuments, searchablePages, type SearchDocument } from '@/lib/search/documents';
+import { highlight, search } from '@/lib/search/search';
+import { foldText, tokenize } from '@/lib/search/text';
+import en from '@/messages/en.json';
+import fr from '@/messages/fr.json';
+import ca from '@/messages/ca.json';
+
+function marked(parts: { text: string; match: boolean }[]) {
+  return parts.filter((part) => part.match).map((part) => part.text);
+}
+
+describe('tokenize', () => {
+  it('folds accents for Romance locales', () => {
+    expect(tokenize('Défense européenne', 'fr')).toEqual(['defense', 'europeenne']);
+    expect(tokenize('Col·laboració i innovació', 'ca')).toEqual(['collaboracio', 'innovacio']);
+    expect(tokenize('Tecnología de doble uso', 'es')).toEqual(['tecnologia', 'de', 'doble', 'uso']);
+  });
+
+  it('keeps umlauts distinct in German', () => {
+    expect(tokenize('Fähigkeiten', 'de')).toEqual(['fähigkeiten']);
+  });
+
+  it('splits elisions and drops one-letter fragments', () => {
+    expect(tokenize("l'autonomia d'Europa", 'ca')).toEqual(['autonomia', 'europa']);
+  });
+
+  it('maps folded characters back to the original text', () => {
+    const { text, offsets } = foldText('col·lab', 'ca');
+    expect(text).toBe('collab');
+    expect(offsets).toEqual([0, 1, 2, 4, 5, 6]);
+  });
+});
+
+describe('search', () => {
+  const documents: SearchDocument[] = [
+    { id: 'a', type: 'page', path: '/capabilities/cybersecurity', title: 'Ciberseguretat', description: 'Protecció d’infraestructures crítiques', text: 'Seguretat digital i resiliència.' },
+    { id: 'b', type: 'article', path: '/news/launch', title: 'Llançament', description: 'Nova solució de ciberseguretat', text: 'La ciberseguretat és clau. Ciberseguretat per a pimes.' },
+    { id: 'c', type: 'page', path: '/sectors', title: 'Sectors', description: 'Institucional i industrial', text: 'Defensa i seguretat.' },
+  ];
+
+  it('ranks title matches above body matches', () => {
+    expect(search(documents, 'ciberseguretat', 'ca').map(({ document }) => document.id)).toEqual(['a', 'b']);
+  });
+
+  it('matches word prefixes without accents', () => {
+    expect(search(documents, 'resilien', 'ca').map(({ document }) => document.id)).toEqual(['a']);
+    expect(search(documents, 'proteccio', 'ca').map(({ document }) => document.id)).toEqual(['a']);
+  });
+
+  it('requires every term to match', () => {
+    expect(search(documents, 'seguretat defensa', 'ca').map(({ document }) => document.id)).toEqual(['c']);
+    expect(search(documents, 'seguretat quantum', 'ca')).toEqual([]);
+    expect(search(documents, '  ', 'ca')).toEqual([]);
+  });
+
+  it('highlights matches in the original spelling', () => {
+    const [result] = search(documents, 'proteccio', 'ca');
+    expect(marked(result.snippet)).toEqual(['Protecció']);
+  });
+
+  it('cuts long text to a window around the first match', () => {
+    const text = `${'lorem ipsum '.repeat(30)}biosecurity ${'dolor sit '.repeat(30)}`;
+    const parts = highlight(text, ['biosecurity'], 'en', 80);
+
+    expect(parts[0].text).toBe('…');
+    expect(parts.at(-1)?.text).toBe('…');
+    expect(marked(parts)).toEqual(['biosecurity']);
+  });
+});
+
+describe('index documents', () => {
+  it('indexes every searchable page in every locale', async () => {
+    for (const locale of locales) {
+      const messages = (await import(`@/messages/${locale}.json`)).default;
+      const documents = buildPageDocuments(messages);
+
+      expect(documents).toHaveLength(searchablePages.length);
+      expect(documents.every((document) => document.title && document.text)).toBe(true);
+    }
+  });
+
+  it('finds capability copy across locales', () => {
+    expect(search(buildPageDocuments(en), 'unmanned', 'en')[0]?.document.path).toBe('/capabilities/defense');
+    expect(search(buildPageDocuments(fr), 'defense', 'fr').length).toBeGreaterThan(0);
+    expect(search(buildPageDocuments(ca), 'bioseguretat', 'ca')[0]?.document.path).toBe('/capabilities/biosecurity');
+  });
+
+  it('strips Markdown from article bodies', () => {
+    const [document] = buildArticleDocuments([{
+      slug: 'launch',
+      locale: 'en',
+      title: 'Launch',
+      excerpt: 'Short',
+      category: 'technology',
+      publishedAt: '2026-01-01',
+      body: { format: 'markdown', source: '## Heading\n\nSee [our site](https://dualys.eu) for **more**.' },
+    }]);
+
+    expect(document).toMatchObject({ path: '/news/launch', text: 'Heading See our site for more.' });
+  });
+});
@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { ctaHref, getCtaRegistry, getExpectedCtas } from '@/lib/routes/cta-registry';
+import { getSectorLinks, getSectorPath, isSector, sectors } from '@/lib/sectors/sectors';
+
+describe('sector spoke pages', () => {
+  it('has a cta-registry mapping for every sector and no other', () => {
+    expect(Object.keys(getCtaRegistry().sector_to_capability).sort()).toEqual([...sectors].sort());
+  });
+
+  it('reads related capabilities and the contact CTA from the registry', () => {
+    expect(getSectorLinks('academic')).toEqual({
+      relatedCapabilities: ['/capabilities/biosecurity', '/capabilities/dual-use'],
+      ctaHref: '/contact?topic=partnership',
+    });
+  });
+
+  it('throws for a sector missing from the registry', () => {
+    const registry = { ...getCtaRegistry(), sector_to_capability: {} };
+    expect(() => getSectorLinks('industrial', registry)).toThrow(/sector_to_capability/);
+  });
+
+  it('attributes sector CTAs to the concrete spoke path', () => {
+    const expected = getExpectedCtas().get(getSectorPath('institutional'));
+    expect(expected?.map((cta) => cta.destination)).toEqual([
+      '/capabilities/defense',
+      '/capabilities/cybersecurity',
+      '/contact',
+    ]);
+    expect(getExpectedCtas().has('/sectors/[sector]')).toBe(false);
+  });
+
+  it('validates sector slugs', () => {
+    expect(isSector('academic')).toBe(true);
+    expect(isSector('public')).toBe(false);
+  });
+});
+
+describe('ctaHref', () => {
+  it('appends the contact topic as a query param', () => {
+    expect(ctaHref({ destination: '/contact' })).toBe('/contact');
+    expect(ctaHref({ destination: '/contact', topic: 'press' })).toBe('/contact?topic=press');
+    expect(ctaHref({ destination: '/contact?ref=x', topic: 'press' })).toBe('/contact?ref=x&topic=press');
+  });
+});
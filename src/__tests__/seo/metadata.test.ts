@@ -1,11 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import {
-  generatePageMetadata,
-  getOrganizationSchema,
-  getWebSiteSchema,
-  getWebPageSchema,
-  getBreadcrumbSchema,
-} from '@/lib/seo/metadata';
+import { xDefaultLocale } from '@/lib/i18n/config';
+import { generatePageMetadata } from '@/lib/seo/metadata';
 
 describe('SEO Metadata', () => {
   describe('generatePageMetadata', () => {
@@ -38,100 +33,28 @@ describe('SEO Metadata', () => {
       expect(languages?.de).toContain('/de/test');
       expect(languages?.it).toContain('/it/test');
       expect(languages?.ca).toContain('/ca/test');
-      expect(languages?.['x-default']).toContain('/en/test');
+      expect(languages?.['x-default']).toBe(languages?.[xDefaultLocale]);
     });
-  });
-
-  describe('getOrganizationSchema', () => {
-    it('returns valid Organization schema', () => {
-      const schema = getOrganizationSchema();
-
-      expect(schema['@context']).toBe('https://schema.org');
-      expect(schema['@type']).toBe('Organization');
-      expect(schema.name).toBe('Dualys');
-      expect(schema.url).toBeDefined();
-      expect(schema.logo).toBeDefined();
-    });
-
-    it('includes required organization fields', () => {
-      const schema = getOrganizationSchema();
-
-      expect(schema.address).toBeDefined();
-      expect(schema.address['@type']).toBe('PostalAddress');
-      expect(schema.knowsAbout).toBeInstanceOf(Array);
-      expect(schema.knowsAbout.length).toBeGreaterThan(0);
-    });
-  });
 
-  describe('getWebSiteSchema', () => {
-    it('returns valid WebSite schema', () => {
-      const schema = getWebSiteSchema('en');
+    it('uses each locale\'s translated path for the canonical and alternates', () => {
+      const metadata = generatePageMetadata({ title: 'Defensa', description: 'D', locale: 'ca', path: '/capabilities/defense' });
 
-      expect(schema['@context']).toBe('https://schema.org');
-      expect(schema['@type']).toBe('WebSite');
-      expect(schema.name).toBe('Dualys');
-      expect(schema.inLanguage).toBe('en');
-    });
-
-    it('includes search action', () => {
-      const schema = getWebSiteSchema('en');
-
-      expect(schema.potentialAction).toBeDefined();
-      expect(schema.potentialAction['@type']).toBe('SearchAction');
-    });
-  });
-
-  describe('getWebPageSchema', () => {
-    it('returns valid WebPage schema', () => {
-      const schema = getWebPageSchema({
-        title: 'Test Page',
-        description: 'Test description',
-        locale: 'en',
-        path: '/test',
+      expect(metadata.alternates?.canonical).toBe('https://dualys.eu/ca/capacitats/defensa');
+      expect(metadata.openGraph?.url).toBe('https://dualys.eu/ca/capacitats/defensa');
+      expect(metadata.alternates?.languages).toMatchObject({
+        en: 'https://dualys.eu/en/capabilities/defense',
+        fr: 'https://dualys.eu/fr/capacites/defense',
+        de: 'https://dualys.eu/de/kompetenzen/verteidigung',
+        'x-default': 'https://dualys.eu/en/capabilities/defense',
       });
-
-      expect(schema['@context']).toBe('https://schema.org');
-      expect(schema['@type']).toBe('WebPage');
-      expect(schema.name).toBe('Test Page');
-      expect(schema.description).toBe('Test description');
-      expect(schema.inLanguage).toBe('en');
-    });
-
-    it('includes isPartOf reference to WebSite', () => {
-      const schema = getWebPageSchema({
-        title: 'Test',
-        description: 'Test',
-        locale: 'en',
-        path: '/test',
-      });
-
-      expect(schema.isPartOf).toBeDefined();
-      expect(schema.isPartOf['@type']).toBe('WebSite');
-    });
-  });
-
-  describe('getBreadcrumbSchema', () => {
-    it('returns valid BreadcrumbList schema', () => {
-      const schema = getBreadcrumbSchema([
-        { name: 'Home', url: '' },
-        { name: 'About', url: '/about' },
-      ], 'en');
-
-      expect(schema['@context']).toBe('https://schema.org');
-      expect(schema['@type']).toBe('BreadcrumbList');
-      expect(schema.itemListElement).toHaveLength(2);
     });
 
-    it('creates correct positions', () => {
-      const schema = getBreadcrumbSchema([
-        { name: 'Home', url: '' },
-        { name: 'About', url: '/about' },
-        { name: 'Team', url: '/about/team' },
-      ], 'en');
+    it('marks placeholder routes from the route registry as noindex', () => {
+      const placeholder = generatePageMetadata({ title: 'Team', description: 'Team', locale: 'en', path: '/about/team' });
+      const published = generatePageMetadata({ title: 'About', description: 'About', locale: 'en', path: '/about' });
 
-      expect(schema.itemListElement[0].position).toBe(1);
-      expect(schema.itemListElement[1].position).toBe(2);
-      expect(schema.itemListElement[2].position).toBe(3);
+      expect(placeholder.robots).toMatchObject({ index: false, follow: true });
+      expect(published.robots).toMatchObject({ index: true, follow: true });
     });
   });
 });
@@ -0,0 +1,84 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { OgImage } from '@/components/seo/OgImage';
+import { locales } from '@/lib/i18n/config';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { loadOgBackground, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+
+const pagesDir = path.join(process.cwd(), 'src', 'app', '[locale]');
+
+function pageDirs(dir: string): string[] {
+  const children = readdirSync(dir).filter((name) => statSync(path.join(dir, name)).isDirectory());
+  return [
+    ...(existsSync(path.join(dir, 'page.tsx')) ? [dir] : []),
+    ...children.flatMap((name) => pageDirs(path.join(dir, name))),
+  ];
+}
+
+// Width and height from the PNG IHDR chunk
+function pngSize(buffer: Buffer) {
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+describe('Open Graph images', () => {
+  it.each(locales)('renders a 1200x630 PNG with the bundled fonts (%s)', async (locale) => {
+    const response = await renderOgImage({ title: 'Biosecurity', section: 'Capabilities', locale });
+    const buffer = Buffer.from(await response.arrayBuffer());
+
+    expect(response.headers.get('content-type')).toBe('image/png');
+    expect(pngSize(buffer)).toEqual(ogImageSize);
+  }, 30_000);
+
+  it('draws the title, section and accent dot', () => {
+    const html = renderToStaticMarkup(<OgImage title="Biosecurity" section="Capabilities" locale="en" host="dualys.eu" />);
+
+    expect(html).toContain('Biosecurity');
+    expect(html).toContain('CAPABILITIES');
+    expect(html).toContain('background-color:#4F61E7');
+    expect(html).not.toContain('<img');
+  });
+
+  it('uses a featured image as background', () => {
+    const html = renderToStaticMarkup(
+      <OgImage title="Launch" locale="fr" host="dualys.eu" background="https://images.example.com/launch.jpg" />
+    );
+    expect(html).toContain('src="https://images.example.com/launch.jpg"');
+  });
+
+  describe('loadOgBackground', () => {
+    it('inlines site images and passes remote ones through', async () => {
+      const local = await loadOgBackground('/apple-touch-icon.png');
+      const expected = readFileSync(path.join(process.cwd(), 'public', 'apple-touch-icon.png')).toString('base64');
+
+      expect(local).toBe(`data:image/png;base64,${expected}`);
+      expect(await loadOgBackground('https://images.example.com/a.jpg')).toBe('https://images.example.com/a.jpg');
+    });
+
+    it('skips missing files and unsupported formats', async () => {
+      expect(await loadOgBackground(undefined)).toBeUndefined();
+      expect(await loadOgBackground('/images/news/missing.jpg')).toBeUndefined();
+      expect(await loadOgBackground('/images/news/photo.webp')).toBeUndefined();
+    });
+  });
+
+  it('leaves page images to the opengraph-image route unless one is given', () => {
+    const generated = generatePageMetadata({ title: 'About', description: 'About', locale: 'en', path: '/about' });
+    const explicit = generatePageMetadata({ title: 'About', description: 'About', locale: 'en', path: '/about', image: '/custom.png' });
+
+    expect(generated.openGraph).not.toHaveProperty('images');
+    expect(generated.twitter).not.toHaveProperty('images');
+    expect(explicit.openGraph?.images).toEqual([{ url: '/custom.png', width: 1200, height: 630, alt: 'About' }]);
+  });
+
+  it('has an opengraph-image next to every page using generatePageMetadata', () => {
+    const missing = pageDirs(pagesDir)
+      .filter((dir) => readFileSync(path.join(dir, 'page.tsx'), 'utf8').includes('generatePageMetadata('))
+      .filter((dir) => !existsSync(path.join(dir, 'opengraph-image.tsx')))
+      .map((dir) => path.relative(pagesDir, dir) || '.');
+
+    expect(missing).toEqual([]);
+  });
+});
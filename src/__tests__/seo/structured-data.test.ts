@@ -0,0 +1,285 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getOrganizationSchema,
+  getWebSiteSchema,
+  getWebPageSchema,
+  getContactPageSchema,
+  getFaqPageSchema,
+  getBreadcrumbSchema,
+  getPersonSchema,
+  getNewsArticleSchema,
+  getServiceSchema,
+  getItemListSchema,
+  getJsonLdGraph,
+  organizationId,
+  serializeJsonLd,
+  validateJsonLd,
+} from '@/lib/seo/structured-data';
+
+describe('Structured data', () => {
+  describe('getOrganizationSchema', () => {
+    it('returns an Organization with a stable @id', () => {
+      const schema = getOrganizationSchema();
+
+      expect(schema['@type']).toBe('Organization');
+      expect(schema['@id']).toBe(organizationId);
+      expect(schema.name).toBe('Dualys');
+      expect(schema.logo.url).toMatch(/\/logo\.png$/);
+      expect(schema.address['@type']).toBe('PostalAddress');
+      expect(schema.knowsAbout.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('getWebSiteSchema', () => {
+    it('returns a localized WebSite published by the organization', () => {
+      const schema = getWebSiteSchema('en');
+
+      expect(schema['@type']).toBe('WebSite');
+      expect(schema['@id']).toMatch(/\/en#website$/);
+      expect(schema.inLanguage).toBe('en');
+      expect(schema.publisher).toEqual({ '@id': organizationId });
+      expect(schema.potentialAction['@type']).toBe('SearchAction');
+    });
+  });
+
+  describe('getWebPageSchema', () => {
+    const breadcrumb = getBreadcrumbSchema([
+      { name: 'Home', url: '' },
+      { name: 'Test', url: '/test' },
+    ], 'en');
+
+    it('references its website and breadcrumb by @id', () => {
+      const schema = getWebPageSchema({ title: 'Test Page', description: 'Test description', locale: 'en', path: '/test', breadcrumb });
+
+      expect(schema['@type']).toBe('WebPage');
+      expect(schema['@id']).toMatch(/\/en\/test#webpage$/);
+      expect(schema.name).toBe('Test Page');
+      expect(schema.isPartOf).toEqual({ '@id': getWebSiteSchema('en')['@id'] });
+      expect(schema.breadcrumb).toEqual({ '@id': breadcrumb['@id'] });
+    });
+
+    it('builds ContactPage and FAQPage variants', () => {
+      const contact = getContactPageSchema({ title: 'Contact', description: 'Reach us', locale: 'fr', path: '/contact' });
+      const faq = getFaqPageSchema({
+        title: 'FAQ',
+        description: 'Questions',
+        locale: 'fr',
+        path: '/faq',
+        questions: [{ question: 'Who?', answer: 'Dualys' }],
+      });
+
+      expect(contact['@type']).toBe('ContactPage');
+      expect(contact.about).toEqual({ '@id': organizationId });
+      expect(faq['@type']).toBe('FAQPage');
+      expect(faq.mainEntity).toEqual([
+        { '@type': 'Question', name: 'Who?', acceptedAnswer: { '@type': 'Answer', text: 'Dualys' } },
+      ]);
+    });
+  });
+
+  describe('getBreadcrumbSchema', () => {
+    it('numbers items and takes its @id from the current page', () => {
+      const schema = getBreadcrumbSchema([
+        { name: 'Home', url: '' },
+        { name: 'About', url: '/about' },
+        { name: 'Team', url: '/about/team' },
+      ], 'en');
+
+      expect(schema['@id']).toMatch(/\/en\/about\/team#breadcrumb$/);
+      expect(schema.itemListElement.map((item) => item.position)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('getNewsArticleSchema', () => {
+    it('returns a NewsArticle with a Person author', () => {
+      const schema = getNewsArticleSchema({
+        headline: 'Partnership',
+        description: 'Excerpt',
+        locale: 'fr',
+        path: '/news/partnership',
+        datePublished: '2026-01-15',
+        author: 'Jane Doe',
+        image: '/images/news/partnership.jpg',
+      });
+
+      expect(schema['@type']).toBe('NewsArticle');
+      expect(schema.url).toContain('/fr/actualites/partnership');
+      expect(schema.mainEntityOfPage['@id']).toMatch(/\/fr\/actualites\/partnership#webpage$/);
+      expect(schema.dateModified).toBe('2026-01-15');
+      expect(schema.author).toMatchObject({ '@type': 'Person', name: 'Jane Doe', worksFor: { '@id': organizationId } });
+      expect(schema.publisher).toEqual({ '@id': organizationId });
+      expect(schema.image[0]).toMatch(/^https?:\/\/.+\/images\/news\/partnership\.jpg$/);
+    });
+
+    it('attributes unsigned articles to the organization', () => {
+      const schema = getNewsArticleSchema({
+        headline: 'Launch',
+        description: 'Excerpt',
+        locale: 'en',
+        path: '/news/launch',
+        datePublished: '2026-01-15',
+        dateModified: '2026-02-01',
+      });
+
+      expect(schema.author).toEqual({ '@id': organizationId });
+      expect(schema.dateModified).toBe('2026-02-01');
+    });
+  });
+
+  describe('getPersonSchema', () => {
+    it('derives the @id from the key and drops empty properties', () => {
+      const schema = getPersonSchema({ name: 'Àlex Puig', jobTitle: 'CEO' });
+
+      expect(schema['@id']).toMatch(/#person-alex-puig$/);
+      expect(schema).not.toHaveProperty('sameAs');
+      expect(schema).not.toHaveProperty('image');
+    });
+  });
+
+  describe('getServiceSchema', () => {
+    const schema = getServiceSchema({
+      name: 'Defense Technologies',
+      description: 'Unmanned systems and sensors',
+      serviceType: 'Defense',
+      locale: 'de',
+      path: '/capabilities/defense',
+      audiences: ['Institutional Sector', 'Industrial Sector'],
+      offerPath: '/contact?topic=defense',
+    });
+
+    it('is provided by the organization across Europe', () => {
+      expect(schema['@type']).toBe('Service');
+      expect(schema.provider).toEqual({ '@id': organizationId });
+      expect(schema.areaServed).toMatchObject({ name: 'Europe' });
+      expect(schema.url).toMatch(/\/de\/kompetenzen\/verteidigung$/);
+    });
+
+    it('lists one audience per sector and an offer into the contact form', () => {
+      expect(schema.audience).toEqual([
+        { '@type': 'Audience', audienceType: 'Institutional Sector' },
+        { '@type': 'Audience', audienceType: 'Industrial Sector' },
+      ]);
+      expect(schema.offers?.url).toMatch(/\/de\/kontakt\?topic=defense$/);
+    });
+
+    it('omits the offer without an offer path', () => {
+      const withoutOffer = getServiceSchema({ name: 'X', description: 'Y', serviceType: 'Z', locale: 'en', path: '/x' });
+      expect(withoutOffer).not.toHaveProperty('offers');
+    });
+  });
+
+  describe('getItemListSchema', () => {
+    it('returns an ItemList linking each item', () => {
+      const schema = getItemListSchema({
+        name: 'Our Capabilities',
+        items: [
+          { name: 'Defense', url: '/capabilities/defense' },
+          { name: 'Cybersecurity', url: '/capabilities/cybersecurity' },
+        ],
+        locale: 'en',
+        path: '/capabilities',
+      });
+
+      expect(schema.numberOfItems).toBe(2);
+      expect(schema.itemListElement[1]).toMatchObject({ position: 2, name: 'Cybersecurity' });
+      expect(schema.itemListElement[1].url).toMatch(/\/en\/capabilities\/cybersecurity$/);
+    });
+  });
+
+  describe('getJsonLdGraph', () => {
+    const breadcrumb = getBreadcrumbSchema([
+      { name: 'Home', url: '' },
+      { name: 'Defense', url: '/capabilities/defense' },
+    ], 'es');
+    const page = getWebPageSchema({ title: 'Defense', description: 'D', locale: 'es', path: '/capabilities/defense', breadcrumb });
+    const service = getServiceSchema({
+      name: 'Defense',
+      description: 'D',
+      serviceType: 'Defense',
+      locale: 'es',
+      path: '/capabilities/defense',
+      audiences: ['Institutional Sector'],
+      offerPath: '/contact?topic=defense',
+    });
+
+    it('emits one connected graph starting with the organization and website', () => {
+      const graph = getJsonLdGraph('es', page, breadcrumb, service);
+
+      expect(graph['@context']).toBe('https://schema.org');
+      expect(graph['@graph'].map((node) => node['@type'])).toEqual([
+        'Organization', 'WebSite', 'WebPage', 'BreadcrumbList', 'Service',
+      ]);
+      expect(validateJsonLd(graph)).toEqual([]);
+    });
+
+    it('emits nodes repeated by @id once', () => {
+      const graph = getJsonLdGraph('es', getOrganizationSchema(), page, page);
+      expect(graph['@graph']).toHaveLength(3);
+    });
+
+    it('validates every builder in a graph', () => {
+      const article = getNewsArticleSchema({
+        headline: 'Launch',
+        description: 'Excerpt',
+        locale: 'es',
+        path: '/news/launch',
+        datePublished: '2026-01-15',
+        author: 'Jane Doe',
+      });
+      const articlePage = getWebPageSchema({ title: 'Launch', description: 'Excerpt', locale: 'es', path: '/news/launch', mainEntity: article });
+      const graph = getJsonLdGraph(
+        'es',
+        articlePage,
+        article,
+        getContactPageSchema({ title: 'Contact', description: 'C', locale: 'es', path: '/contact' }),
+        getFaqPageSchema({ title: 'FAQ', description: 'F', locale: 'es', path: '/faq', questions: [{ question: 'Q', answer: 'A' }] }),
+        getItemListSchema({ name: 'List', items: [{ name: 'A', url: '/a' }], locale: 'es', path: '/list' }),
+        getPersonSchema({ name: 'John Roe', image: '/images/team/john.jpg' }),
+      );
+
+      expect(validateJsonLd(graph)).toEqual([]);
+    });
+  });
+
+  describe('validateJsonLd', () => {
+    it('flags references to nodes outside the graph', () => {
+      const page = getWebPageSchema({ title: 'T', description: 'D', locale: 'en', path: '/t' });
+      const graph = { '@context': 'https://schema.org', '@graph': [page] };
+
+      expect(validateJsonLd(graph)).toEqual([
+        `$.@graph[0].isPartOf: reference to ${page.isPartOf['@id']} is not in the graph`,
+      ]);
+    });
+
+    it('flags missing required properties and unlinked list items', () => {
+      const list = getItemListSchema({ name: 'List', items: [{ name: 'A', url: '/a' }], locale: 'en', path: '/list' });
+      const broken = { ...list, itemListElement: [{ ...list.itemListElement[0], name: '', url: undefined }] };
+
+      expect(validateJsonLd(broken)).toEqual([
+        '$.itemListElement[0].name: missing',
+        '$.itemListElement[0]: list item without item or url',
+      ]);
+    });
+
+    it('flags duplicate @ids', () => {
+      const graph = { '@graph': [getOrganizationSchema(), getOrganizationSchema()] };
+      expect(validateJsonLd(graph)).toEqual([`$.@graph[1]: duplicate @id ${organizationId}`]);
+    });
+  });
+
+  describe('serializeJsonLd', () => {
+    it('escapes markup so content cannot close the script element', () => {
+      const page = getWebPageSchema({
+        title: 'Title</script><script>alert(1)</script>',
+        description: '<!-- comment -->',
+        locale: 'en',
+        path: '/t',
+      });
+      const json = serializeJsonLd(getJsonLdGraph('en', page));
+
+      expect(json).not.toContain('</script');
+      expect(json).not.toContain('<!--');
+      expect(JSON.parse(json)['@graph'][2].name).toBe('Title</script><script>alert(1)</script>');
+    });
+  });
+});
@@ -0,0 +1,182 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { createFormGuard, getClientIp, getTrustedProxyCount, type RejectionLogEntry } from '@/lib/spam/guard';
+import { createRateLimiter } from '@/lib/spam/rate-limit';
+import { issueFormToken, verifyFormToken } from '@/lib/spam/token';
+import { scoreContent, SPAM_SCORE_THRESHOLD } from '@/lib/spam/content';
+
+const NOW = Date.UTC(2026, 2, 1, 12, 0, 0);
+
+function requestFrom(ip: string) {
+  return new Request('http://localhost/api/test', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': ip },
+  });
+}
+
+describe('form tokens', () => {
+  it('accepts a token older than the minimum time-to-submit', () => {
+    const token = issueFormToken(NOW - 5_000);
+    expect(verifyFormToken(token, { now: NOW })).toEqual({ ok: true, ageMs: 5_000 });
+  });
+
+  it('rejects submissions faster than a human could type', () => {
+    const token = issueFormToken(NOW - 500);
+    expect(verifyFormToken(token, { now: NOW })).toEqual({ ok: false, reason: 'tooFast' });
+  });
+
+  it('rejects expired, missing and tampered tokens', () => {
+    expect(verifyFormToken(issueFormToken(NOW - 3 * 60 * 60 * 1000), { now: NOW }).ok).toBe(false);
+    expect(verifyFormToken(undefined, { now: NOW })).toEqual({ ok: false, reason: 'missingToken' });
+
+    const [, nonce, signature] = issueFormToken(NOW - 60_000).split('.');
+    const forged = `${NOW - 3_600_000}.${nonce}.${signature}`;
+    expect(verifyFormToken(forged, { now: NOW })).toEqual({ ok: false, reason: 'invalidToken' });
+  });
+});
+
+describe('sliding-window rate limiter', () => {
+  it('allows up to the limit within the window', async () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect((await limiter.check('ip', NOW)).allowed).toBe(true);
+    expect((await limiter.check('ip', NOW + 1_000)).allowed).toBe(true);
+
+    const third = await limiter.check('ip', NOW + 2_000);
+    expect(third.allowed).toBe(false);
+    expect(third.retryAfterMs).toBe(59_000);
+  });
+
+  it('frees capacity as old hits slide out of the window', async () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    await limiter.check('ip', NOW);
+    expect((await limiter.check('ip', NOW + 30_000)).allowed).toBe(false);
+    expect((await limiter.check('ip', NOW + 95_000)).allowed).toBe(true);
+  });
+
+  it('tracks keys independently', async () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+
+    await limiter.check('a', NOW);
+    expect((await limiter.check('b', NOW)).allowed).toBe(true);
+  });
+});
+
+describe('content scoring', () => {
+  it('passes ordinary inquiries', () => {
+    const result = scoreContent({
+      text: 'We are interested in your UAV programme, see https://example.eu for details.',
+      email: 'procurement@example.eu',
+    });
+    expect(result.score).toBeLessThan(SPAM_SCORE_THRESHOLD);
+  });
+
+  it('flags link-stuffed messages and disposable addresses', () => {
+    const result = scoreContent({
+      text: 'Buy now http://a.example http://b.example www.c.example',
+      email: 'bot@mailinator.com',
+    });
+    expect(result.signals).toEqual(['tooManyLinks', 'disposableEmail']);
+    expect(result.score).toBeGreaterThanOrEqual(SPAM_SCORE_THRESHOLD);
+  });
+
+  it('does not treat a disposable address alone as spam', () => {
+    const result = scoreContent({ text: 'Please send me your capability brochure.', email: 'jane@yopmail.com' });
+    expect(result.signals).toEqual(['disposableEmail']);
+    expect(result.score).toBeLessThan(SPAM_SCORE_THRESHOLD);
+  });
+});
+
+describe('getClientIp', () => {
+  function request(headers: Record<string, string>) {
+    return new Request('http://localhost/api/test', { headers });
+  }
+
+  it('takes the address appended by the trusted proxies, not the client-supplied ones', () => {
+    const forwarded = { 'x-forwarded-for': '203.0.113.9, 198.51.100.7, 10.0.0.2' };
+
+    expect(getClientIp(request(forwarded), 1)).toBe('10.0.0.2');
+    expect(getClientIp(request(forwarded), 2)).toBe('198.51.100.7');
+  });
+
+  it('falls back to x-real-ip, and ignores proxy headers without a trusted proxy', () => {
+    expect(getClientIp(request({ 'x-real-ip': '198.51.100.8' }), 1)).toBe('198.51.100.8');
+    expect(getClientIp(request({ 'x-forwarded-for': '198.51.100.9' }), 0)).toBe('unknown');
+  });
+
+  it('reads the proxy count from TRUSTED_PROXY_COUNT', () => {
+    expect(getTrustedProxyCount({})).toBe(1);
+    expect(getTrustedProxyCount({ TRUSTED_PROXY_COUNT: '2' })).toBe(2);
+    expect(getTrustedProxyCount({ TRUSTED_PROXY_COUNT: 'many' })).toBe(1);
+  });
+});
+
+describe('createFormGuard', () => {
+  function createGuard() {
+    const log = vi.fn<(entry: RejectionLogEntry) => void>();
+    const guard = createFormGuard({ form: 'test', rateLimit: { limit: 2, windowMs: 60_000 }, log });
+    return { guard, log };
+  }
+
+  const validToken = () => issueFormToken(NOW - 10_000);
+
+  it('lets clean submissions through without logging', async () => {
+    const { guard, log } = createGuard();
+
+    const verdict = await guard.check(requestFrom('198.51.100.1'), { formToken: validToken() }, NOW);
+    expect(verdict).toEqual({ ok: true });
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('logs rejections with a reason code and an anonymized client', async () => {
+    const { guard, log } = createGuard();
+
+    const verdict = await guard.check(
+      requestFrom('198.51.100.2'),
+      { formToken: validToken(), website: 'filled-by-bot' },
+      NOW
+    );
+
+    expect(verdict).toEqual({ ok: false, reason: 'honeypot' });
+    expect(log).toHaveBeenCalledWith(expect.objectContaining({ form: 'test', reason: 'honeypot' }));
+    expect(log.mock.calls[0][0].client).not.toContain('198.51.100.2');
+  });
+
+  it('rate limits per client IP', async () => {
+    const { guard } = createGuard();
+    const request = requestFrom('198.51.100.3');
+
+    await guard.check(request, { formToken: validToken() }, NOW);
+    await guard.check(request, { formToken: validToken() }, NOW);
+    const verdict = await guard.check(request, { formToken: validToken() }, NOW);
+
+    expect(verdict).toMatchObject({ ok: false, reason: 'rateLimited' });
+    expect((await guard.check(requestFrom('198.51.100.4'), { formToken: validToken() }, NOW)).ok).toBe(true);
+  });
+
+  it('rate limits clients that spoof a new x-forwarded-for on every request', async () => {
+    const { guard } = createGuard();
+    // The proxy appends the real address after whatever the client sent
+    const spoofed = (n: number) => requestFrom(`203.0.113.${n}, 198.51.100.6`);
+
+    await guard.check(spoofed(1), { formToken: validToken() }, NOW);
+    await guard.check(spoofed(2), { formToken: validToken() }, NOW);
+    const verdict = await guard.check(spoofed(3), { formToken: validToken() }, NOW);
+
+    expect(verdict).toMatchObject({ ok: false, reason: 'rateLimited' });
+  });
+
+  it('rejects spammy content', async () => {
+    const { guard, log } = createGuard();
+
+    const verdict = await guard.check(
+      requestFrom('198.51.100.5'),
+      { formToken: validToken(), content: { text: '<a href="http://spam.example">deal</a>', email: 'x@yopmail.com' } },
+      NOW
+    );
+
+    expect(verdict).toEqual({ ok: false, reason: 'contentSpam' });
+    expect(log).toHaveBeenCalledWith(expect.objectContaining({ signals: ['linkMarkup', 'disposableEmail'] }));
+  });
+});
@@ -5,8 +5,10 @@ import { Container } from '@/components/ui/container';
 import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
 import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
 
 interface PageProps {
   params: Promise<{ locale: string }>;
@@ -28,19 +30,21 @@ export default async function AboutPage({ params }: PageProps) {
   const { locale } = await params;
   setRequestLocale(locale);
   const t = await getTranslations({ locale, namespace: 'pages.about' });
+  const navT = await getTranslations({ locale, namespace: 'nav' });
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/about' },
+  ], locale as Locale);
 
   const pageSchema = getWebPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/about',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: t('title'), url: '/about' },
-  ], locale as Locale);
-
   const values = [
     {
       icon: Target,
@@ -66,8 +70,7 @@ export default async function AboutPage({ params }: PageProps) {
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
 
       <Breadcrumbs
         items={[{ label: t('title') }]}
@@ -142,7 +145,7 @@ export default async function AboutPage({ params }: PageProps) {
         <Container>
           <div className="grid gap-8 md:grid-cols-2">
             <a
-              href={`/${locale}/about/team`}
+              href={getLocalizedHref('/about/team', locale as Locale)}
               className="group rounded-xl bg-white/10 p-8 transition-colors hover:bg-white/20"
             >
               <Users className="mb-4 h-8 w-8 text-white" />
@@ -150,7 +153,7 @@ export default async function AboutPage({ params }: PageProps) {
               <p className="text-white/80">{t('links.teamDesc')}</p>
             </a>
             <a
-              href={`/${locale}/about/partners`}
+              href={getLocalizedHref('/about/partners', locale as Locale)}
               className="group rounded-xl bg-white/10 p-8 transition-colors hover:bg-white/20"
             >
               <Handshake className="mb-4 h-8 w-8 text-white" />
@@ -158,6 +161,14 @@ export default async function AboutPage({ params }: PageProps) {
               <p className="text-white/80">{t('links.partnersDesc')}</p>
             </a>
           </div>
+          <div className="mt-10 text-center">
+            <a
+              href={getLocalizedHref('/contact', locale as Locale)}
+              className="inline-flex items-center justify-center rounded-md bg-white px-8 py-3 text-base font-medium text-primary-500 transition-colors hover:bg-neutral-100"
+            >
+              {navT('contact')}
+            </a>
+          </div>
         </Container>
       </section>
     </>
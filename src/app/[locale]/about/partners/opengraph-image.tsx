@@ -0,0 +1,19 @@
+import { getTranslations } from 'next-intl/server';
+import { ogImageAlt, ogImageContentType, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+import type { Locale } from '@/lib/i18n/config';
+
+export const alt = ogImageAlt;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+interface ImageProps {
+  params: { locale: string };
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale } = params;
+  const t = await getTranslations({ locale, namespace: 'pages.partners' });
+  const sectionT = await getTranslations({ locale, namespace: 'nav' });
+
+  return renderOgImage({ title: t('title'), section: sectionT('about'), locale: locale as Locale });
+}
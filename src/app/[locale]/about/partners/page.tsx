@@ -1,12 +1,23 @@
 import { getTranslations, setRequestLocale } from 'next-intl/server';
 import type { Metadata } from 'next';
-import { Building2, GraduationCap, FlaskConical, Globe } from 'lucide-react';
+import { Building2, GraduationCap, FlaskConical, Globe, type LucideIcon } from 'lucide-react';
 import { Container } from '@/components/ui/container';
 import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import { getPartners, partnerCategories, type PartnerCategory } from '@/lib/content';
+import { getContactPath } from '@/lib/contact/topics';
 import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
+
+const categoryIcons: Record<PartnerCategory, LucideIcon> = {
+  industrial: Building2,
+  academic: GraduationCap,
+  research: FlaskConical,
+  institutional: Globe,
+};
 
 interface PageProps {
   params: Promise<{ locale: string }>;
@@ -30,66 +41,35 @@ export default async function PartnersPage({ params }: PageProps) {
   const t = await getTranslations({ locale, namespace: 'pages.partners' });
   const navT = await getTranslations({ locale, namespace: 'nav' });
 
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: navT('about'), url: '/about' },
+    { name: t('title'), url: '/about/partners' },
+  ], locale as Locale);
+
   const pageSchema = getWebPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/about/partners',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: navT('about'), url: '/about' },
-    { name: t('title'), url: '/about/partners' },
-  ], locale as Locale);
+  const partners = await getPartners(locale as Locale);
 
-  const partnerCategories = [
-    {
-      icon: Building2,
-      title: t('categories.industry.title'),
-      description: t('categories.industry.description'),
-      partners: [
-        { name: 'Partner 1', type: 'Defense Contractor' },
-        { name: 'Partner 2', type: 'Technology Provider' },
-        { name: 'Partner 3', type: 'Systems Integrator' },
-      ],
-    },
-    {
-      icon: GraduationCap,
-      title: t('categories.academic.title'),
-      description: t('categories.academic.description'),
-      partners: [
-        { name: 'University 1', type: 'Research University' },
-        { name: 'University 2', type: 'Technical Institute' },
-        { name: 'University 3', type: 'Engineering School' },
-      ],
-    },
-    {
-      icon: FlaskConical,
-      title: t('categories.research.title'),
-      description: t('categories.research.description'),
-      partners: [
-        { name: 'Research Center 1', type: 'Defense Research' },
-        { name: 'Research Center 2', type: 'Cybersecurity Lab' },
-        { name: 'Research Center 3', type: 'Innovation Hub' },
-      ],
-    },
-    {
-      icon: Globe,
-      title: t('categories.institutional.title'),
-      description: t('categories.institutional.description'),
-      partners: [
-        { name: 'Institution 1', type: 'EU Agency' },
-        { name: 'Institution 2', type: 'National Authority' },
-        { name: 'Institution 3', type: 'Regional Government' },
-      ],
-    },
-  ];
+  const partnerGroups = partnerCategories
+    .map((category) => ({
+      key: category,
+      icon: categoryIcons[category],
+      title: t(`categories.${category}.title`),
+      description: t(`categories.${category}.description`),
+      partners: partners.filter((partner) => partner.category === category),
+    }))
+    .filter((group) => group.partners.length > 0);
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
 
       <Breadcrumbs
         items={[
@@ -115,9 +95,9 @@ export default async function PartnersPage({ params }: PageProps) {
       </section>
 
       {/* Partner Categories */}
-      {partnerCategories.map((category, categoryIndex) => (
+      {partnerGroups.map((category, categoryIndex) => (
         <section
-          key={category.title}
+          key={category.key}
           className={categoryIndex % 2 === 0 ? 'bg-neutral-50 py-16' : 'py-16'}
         >
           <Container>
@@ -133,14 +113,34 @@ export default async function PartnersPage({ params }: PageProps) {
             <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 card-grid">
               {category.partners.map((partner) => (
                 <div
-                  key={partner.name}
+                  key={partner.id}
+                  data-testid="partner-card"
                   className="rounded-xl border border-neutral-200 bg-white p-6 shadow-sm card-equal"
                 >
                   <div className="mb-4 h-16 w-full rounded-lg bg-neutral-100 flex items-center justify-center">
-                    <span className="text-2xl font-bold text-neutral-300">Logo</span>
+                    {partner.logo ? (
+                      <img src={partner.logo} alt={partner.name} className="max-h-12 w-auto object-contain" />
+                    ) : (
+                      <span className="text-2xl font-bold text-neutral-300">Logo</span>
+                    )}
                   </div>
-                  <h3 className="font-semibold text-neutral-900">{partner.name}</h3>
-                  <p className="text-sm text-neutral-500">{partner.type}</p>
+                  <h3 className="font-semibold text-neutral-900">
+                    {partner.website ? (
+                      <a
+                        href={partner.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="transition-colors hover:text-primary-500"
+                      >
+                        {partner.name}
+                      </a>
+                    ) : (
+                      partner.name
+                    )}
+                  </h3>
+                  {partner.description && (
+                    <p className="text-sm text-neutral-500">{partner.description}</p>
+                  )}
                 </div>
               ))}
             </div>
@@ -155,7 +155,7 @@ export default async function PartnersPage({ params }: PageProps) {
             <h2 className="text-3xl font-bold text-white">{t('cta.title')}</h2>
             <p className="mt-4 text-lg text-white/80">{t('cta.text')}</p>
             <a
-              href={`/${locale}/contact`}
+              href={getLocalizedHref(getContactPath('partnership'), locale as Locale)}
               className="mt-8 inline-flex items-center justify-center rounded-md bg-white px-8 py-3 text-base font-medium text-primary-500 transition-colors hover:bg-neutral-100"
             >
               {t('cta.button')}
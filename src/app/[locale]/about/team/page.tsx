@@ -5,8 +5,12 @@ import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { TeamCard } from '@/components/content/TeamCard';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema, getPersonSchema } from '@/lib/seo/structured-data';
+import { getTeamMembers } from '@/lib/content';
+import { getContactPath } from '@/lib/contact/topics';
 import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
 
 interface PageProps {
   params: Promise<{ locale: string }>;
@@ -30,51 +34,32 @@ export default async function TeamPage({ params }: PageProps) {
   const t = await getTranslations({ locale, namespace: 'pages.team' });
   const navT = await getTranslations({ locale, namespace: 'nav' });
 
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: navT('about'), url: '/about' },
+    { name: t('title'), url: '/about/team' },
+  ], locale as Locale);
+
   const pageSchema = getWebPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/about/team',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: navT('about'), url: '/about' },
-    { name: t('title'), url: '/about/team' },
-  ], locale as Locale);
-
-  // Team members - in production these would come from a CMS
-  const teamMembers = [
-    {
-      name: t('members.member1.name'),
-      role: t('members.member1.role'),
-      description: t('members.member1.description'),
-      linkedin: 'https://linkedin.com/in/example1',
-    },
-    {
-      name: t('members.member2.name'),
-      role: t('members.member2.role'),
-      description: t('members.member2.description'),
-      linkedin: 'https://linkedin.com/in/example2',
-    },
-    {
-      name: t('members.member3.name'),
-      role: t('members.member3.role'),
-      description: t('members.member3.description'),
-      linkedin: 'https://linkedin.com/in/example3',
-    },
-    {
-      name: t('members.member4.name'),
-      role: t('members.member4.role'),
-      description: t('members.member4.description'),
-      linkedin: 'https://linkedin.com/in/example4',
-    },
-  ];
+  const teamMembers = await getTeamMembers(locale as Locale);
+  const personSchemas = teamMembers.map((member) => getPersonSchema({
+    name: member.name,
+    key: member.id,
+    jobTitle: member.role,
+    image: member.photo,
+    sameAs: member.linkedin ? [member.linkedin] : undefined,
+  }));
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema, ...personSchemas)} />
 
       <Breadcrumbs
         items={[
@@ -99,8 +84,13 @@ export default async function TeamPage({ params }: PageProps) {
           <div className="grid gap-8 sm:grid-cols-2 lg:grid-cols-4 card-grid">
             {teamMembers.map((member, index) => (
               <TeamCard
-                key={member.name}
-                {...member}
+                key={member.id}
+                name={member.name}
+                role={member.role}
+                description={member.bio}
+                image={member.photo}
+                linkedin={member.linkedin}
+                email={member.email}
                 index={index}
               />
             ))}
@@ -115,7 +105,7 @@ export default async function TeamPage({ params }: PageProps) {
             <h2 className="text-3xl font-bold text-neutral-900">{t('joinUs.title')}</h2>
             <p className="mt-4 text-lg text-neutral-600">{t('joinUs.text')}</p>
             <a
-              href={`/${locale}/contact`}
+              href={getLocalizedHref(getContactPath('careers'), locale as Locale)}
               className="mt-8 inline-flex items-center justify-center rounded-md bg-primary-500 px-8 py-3 text-base font-medium text-white transition-colors hover:bg-primary-600"
             >
               {t('joinUs.cta')}
@@ -0,0 +1,25 @@
+import { getTranslations } from 'next-intl/server';
+import { notFound } from 'next/navigation';
+import { getCapability } from '@/lib/capabilities/definitions';
+import { ogImageAlt, ogImageContentType, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+import type { Locale } from '@/lib/i18n/config';
+
+export const alt = ogImageAlt;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+interface ImageProps {
+  params: { locale: string; capability: string };
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale, capability: slug } = params;
+  const capability = getCapability(slug);
+  if (!capability) {
+    notFound();
+  }
+  const t = await getTranslations({ locale, namespace: `pages.${capability.messageKey}` });
+  const navT = await getTranslations({ locale, namespace: 'nav' });
+
+  return renderOgImage({ title: t('title'), section: navT('capabilities'), locale: locale as Locale });
+}
@@ -0,0 +1,286 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { capabilityIcons } from '@/components/content/capabilityIcons';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema, getServiceSchema } from '@/lib/seo/structured-data';
+import {
+  capabilities,
+  getCapability,
+  getCapabilityPath,
+  useCaseTypes,
+  type UseCaseType,
+} from '@/lib/capabilities/definitions';
+import { getContactPath } from '@/lib/contact/topics';
+import { getCapabilitySectors } from '@/lib/sectors/sectors';
+import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
+import { messageKey } from '@/lib/i18n/messages';
+import { cn } from '@/lib/utils';
+
+interface PageProps {
+  params: Promise<{ locale: string; capability: string }>;
+}
+
+const useCaseBadgeClass: Record<UseCaseType, string> = {
+  defense: 'bg-primary-50 text-primary-600',
+  civil: 'bg-accent-50 text-accent-600',
+};
+
+const comparisonClass: Record<UseCaseType, { box: string; title: string; list: string }> = {
+  defense: { box: 'border-primary-200 bg-primary-50', title: 'text-primary-900', list: 'text-primary-700' },
+  civil: { box: 'border-accent-200 bg-accent-50', title: 'text-accent-900', list: 'text-accent-700' },
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return capabilities.map(({ slug }) => ({ capability: slug }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, capability: slug } = await params;
+  const capability = getCapability(slug);
+  if (!capability) {
+    return {};
+  }
+  const t = await getTranslations({ locale, namespace: `pages.${capability.messageKey}` });
+
+  return generatePageMetadata({
+    title: t('meta.title'),
+    description: t('meta.description'),
+    locale: locale as Locale,
+    path: getCapabilityPath(capability.slug),
+  });
+}
+
+export default async function CapabilityPage({ params }: PageProps) {
+  const { locale, capability: slug } = await params;
+  setRequestLocale(locale);
+
+  const capability = getCapability(slug);
+  if (!capability) {
+    notFound();
+  }
+
+  const namespace = `pages.${capability.messageKey}` as const;
+  const t = await getTranslations({ locale, namespace });
+  const navT = await getTranslations({ locale, namespace: 'nav' });
+  const hubT = await getTranslations({ locale, namespace: 'pages.capabilities' });
+  const capT = await getTranslations({ locale, namespace: 'capabilities' });
+  const sectorsT = await getTranslations({ locale, namespace: 'pages.sectors.sectors' });
+  const path = getCapabilityPath(capability.slug);
+  const Icon = capabilityIcons[capability.icon];
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: navT('capabilities'), url: '/capabilities' },
+    { name: t('title'), url: path },
+  ], locale as Locale);
+
+  const pageSchema = getWebPageSchema({
+    title: t('meta.title'),
+    description: t('meta.description'),
+    locale: locale as Locale,
+    path,
+    breadcrumb: breadcrumbSchema,
+  });
+
+  const serviceSchema = getServiceSchema({
+    name: t('title'),
+    description: t('meta.description'),
+    serviceType: capT(`${capability.messageKey}.title`),
+    locale: locale as Locale,
+    path,
+    audiences: getCapabilitySectors(path).map((sector) => sectorsT(`${sector}.title`)),
+    offerPath: getContactPath(capability.contactTopic),
+  });
+
+  const technologies = capability.technologies.map(({ key, icon }) => ({
+    icon: capabilityIcons[icon],
+    title: t(messageKey(namespace, `technologies.items.${key}.title`)),
+    description: t(messageKey(namespace, `technologies.items.${key}.description`)),
+  }));
+
+  const useCases = (capability.useCases ?? []).map(({ key, type, icon }) => ({
+    type,
+    icon: icon ? capabilityIcons[icon] : undefined,
+    title: t(messageKey(namespace, `useCases.items.${key}.title`)),
+    description: t(messageKey(namespace, `useCases.items.${key}.description`)),
+  }));
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema, serviceSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: navT('capabilities'), href: '/capabilities' },
+          { label: t('title') },
+        ]}
+      />
+
+      <PageHeader
+        title={t('title')}
+        subtitle={t('subtitle')}
+        variant="gradient"
+      />
+
+      {/* Overview */}
+      <section className="py-16 md:py-24">
+        <Container>
+          <div className="grid gap-12 lg:grid-cols-2">
+            <div>
+              <h2 className="text-3xl font-bold text-neutral-900">{t('overview.title')}</h2>
+              <p className="mt-4 text-lg text-neutral-600">{t('overview.text1')}</p>
+              <p className="mt-4 text-neutral-600">{t('overview.text2')}</p>
+            </div>
+            <div className="rounded-xl bg-neutral-100 p-8 flex items-center justify-center">
+              <Icon className="h-32 w-32 text-primary-200" />
+            </div>
+          </div>
+        </Container>
+      </section>
+
+      {/* Technologies */}
+      {technologies.length > 0 && (
+        <section className="bg-neutral-50 py-16 md:py-24">
+          <Container>
+            <div className="mx-auto mb-12 max-w-3xl text-center">
+              <h2 className="text-3xl font-bold text-neutral-900">{t('technologies.title')}</h2>
+              <p className="mt-4 text-lg text-neutral-600">{t('technologies.subtitle')}</p>
+            </div>
+            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {technologies.map((tech) => (
+                <div
+                  key={tech.title}
+                  className="rounded-xl border border-neutral-200 bg-white p-6 shadow-sm"
+                >
+                  <div className="mb-4 inline-flex rounded-lg bg-primary-50 p-3 text-primary-500">
+                    <tech.icon className="h-6 w-6" />
+                  </div>
+                  <h3 className="mb-2 font-semibold text-neutral-900">{tech.title}</h3>
+                  <p className="text-sm text-neutral-600">{tech.description}</p>
+                </div>
+              ))}
+            </div>
+          </Container>
+        </section>
+      )}
+
+      {/* Defense / civil comparison */}
+      {capability.comparison && (
+        <section className="bg-neutral-50 py-16 md:py-24">
+          <Container>
+            <div className="mx-auto mb-12 max-w-3xl text-center">
+              <h2 className="text-3xl font-bold text-neutral-900">{t('comparison.title')}</h2>
+              <p className="mt-4 text-lg text-neutral-600">{t('comparison.text')}</p>
+            </div>
+            <div className="grid gap-8 md:grid-cols-2">
+              {useCaseTypes.map((type) => (
+                <div key={type} className={cn('rounded-xl border p-8', comparisonClass[type].box)}>
+                  <h3 className={cn('mb-4 text-xl font-semibold', comparisonClass[type].title)}>
+                    {t(`comparison.${type}.title`)}
+                  </h3>
+                  <ul className={cn('space-y-2', comparisonClass[type].list)}>
+                    {capability.comparison?.[type].map((item) => (
+                      <li key={item}>{t(messageKey(namespace, `comparison.${type}.items.${item}`))}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </Container>
+        </section>
+      )}
+
+      {/* Use Cases */}
+      {capability.useCases && (
+        <section className="py-16 md:py-24">
+          <Container>
+            <div className={cn('mx-auto max-w-3xl text-center', useCases.length > 0 && 'mb-12')}>
+              <h2 className="text-3xl font-bold text-neutral-900">{t('useCases.title')}</h2>
+              {t.has('useCases.subtitle') && (
+                <p className="mt-4 text-lg text-neutral-600">{t('useCases.subtitle')}</p>
+              )}
+            </div>
+            {useCases.length > 0 && (
+              <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3">
+                {useCases.map((useCase) => (
+                  <div
+                    key={useCase.title}
+                    className="rounded-xl border border-neutral-200 bg-white p-6 shadow-sm"
+                  >
+                    {useCase.icon && (
+                      <div className="mb-4 inline-flex rounded-lg bg-accent-50 p-3 text-accent-600">
+                        <useCase.icon className="h-6 w-6" />
+                      </div>
+                    )}
+                    <span className={cn('mb-4 block w-fit rounded-full px-3 py-1 text-xs font-medium', useCaseBadgeClass[useCase.type])}>
+                      {hubT(`useCaseTypes.${useCase.type}`)}
+                    </span>
+                    <h3 className="mb-2 font-semibold text-neutral-900">{useCase.title}</h3>
+                    <p className="text-sm text-neutral-600">{useCase.description}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Container>
+        </section>
+      )}
+
+      {/* Standards & Compliance */}
+      {capability.standards && (
+        <section className="py-16 md:py-24">
+          <Container>
+            <div className="mx-auto max-w-3xl text-center">
+              <h2 className="text-3xl font-bold text-neutral-900">{t('standards.title')}</h2>
+              <p className="mt-4 text-lg text-neutral-600">{t('standards.text')}</p>
+              <div className="mt-8 flex flex-wrap justify-center gap-4">
+                {capability.standards.map((standard) => (
+                  <span
+                    key={standard}
+                    className="rounded-full bg-primary-50 px-4 py-2 text-sm font-medium text-primary-600"
+                  >
+                    {standard}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </Container>
+        </section>
+      )}
+
+      {/* CTA */}
+      <section className="bg-primary-500 py-16">
+        <Container>
+          <div className="mx-auto max-w-3xl text-center">
+            <h2 className="text-3xl font-bold text-white">{t('cta.title')}</h2>
+            <p className="mt-4 text-lg text-white/80">{t('cta.text')}</p>
+            <a
+              href={getLocalizedHref(getContactPath(capability.contactTopic), locale as Locale)}
+              className="mt-8 inline-flex items-center justify-center rounded-md bg-white px-8 py-3 text-base font-medium text-primary-500 transition-colors hover:bg-neutral-100"
+            >
+              {t('cta.button')}
+            </a>
+            <div className="mt-6 flex flex-wrap justify-center gap-4">
+              {capability.related.map((link) => (
+                <a
+                  key={link.path}
+                  href={getLocalizedHref(link.path, locale as Locale)}
+                  className="text-sm font-medium text-white/80 underline-offset-4 transition-colors hover:text-white hover:underline"
+                >
+                  {navT(link.label)}
+                </a>
+              ))}
+            </div>
+          </div>
+        </Container>
+      </section>
+    </>
+  );
+}
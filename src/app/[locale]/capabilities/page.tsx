@@ -5,8 +5,11 @@ import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { CapabilityCard } from '@/components/content/CapabilityCard';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema, getItemListSchema } from '@/lib/seo/structured-data';
+import { capabilities, getCapabilityPath } from '@/lib/capabilities/definitions';
 import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
 
 interface PageProps {
   params: Promise<{ locale: string }>;
@@ -30,49 +33,36 @@ export default async function CapabilitiesPage({ params }: PageProps) {
   const t = await getTranslations({ locale, namespace: 'pages.capabilities' });
   const capT = await getTranslations({ locale, namespace: 'capabilities' });
 
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/capabilities' },
+  ], locale as Locale);
+
   const pageSchema = getWebPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/capabilities',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: t('title'), url: '/capabilities' },
-  ], locale as Locale);
+  const capabilityCards = capabilities.map((capability) => ({
+    iconName: capability.icon,
+    title: capT(`${capability.messageKey}.title`),
+    description: capT(`${capability.messageKey}.description`),
+    href: getCapabilityPath(capability.slug),
+  }));
 
-  const capabilities = [
-    {
-      iconName: 'Shield',
-      title: capT('defense.title'),
-      description: capT('defense.description'),
-      href: '/capabilities/defense',
-    },
-    {
-      iconName: 'Lock',
-      title: capT('cybersecurity.title'),
-      description: capT('cybersecurity.description'),
-      href: '/capabilities/cybersecurity',
-    },
-    {
-      iconName: 'HeartPulse',
-      title: capT('biosecurity.title'),
-      description: capT('biosecurity.description'),
-      href: '/capabilities/biosecurity',
-    },
-    {
-      iconName: 'Layers',
-      title: capT('dualUse.title'),
-      description: capT('dualUse.description'),
-      href: '/capabilities/dual-use',
-    },
-  ];
+  const itemListSchema = getItemListSchema({
+    name: t('title'),
+    items: capabilityCards.map((capability) => ({ name: capability.title, url: capability.href })),
+    locale: locale as Locale,
+    path: '/capabilities',
+  });
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema, itemListSchema)} />
 
       <Breadcrumbs
         items={[{ label: t('title') }]}
@@ -88,7 +78,7 @@ export default async function CapabilitiesPage({ params }: PageProps) {
       <section className="py-16 md:py-24">
         <Container>
           <div className="grid gap-8 md:grid-cols-2 card-grid">
-            {capabilities.map((capability, index) => (
+            {capabilityCards.map((capability, index) => (
               <CapabilityCard
                 key={capability.title}
                 {...capability}
@@ -139,7 +129,7 @@ export default async function CapabilitiesPage({ params }: PageProps) {
             <h2 className="text-3xl font-bold text-white">{t('cta.title')}</h2>
             <p className="mt-4 text-lg text-white/80">{t('cta.text')}</p>
             <a
-              href={`/${locale}/contact`}
+              href={getLocalizedHref('/contact', locale as Locale)}
               className="mt-8 inline-flex items-center justify-center rounded-md bg-white px-8 py-3 text-base font-medium text-primary-500 transition-colors hover:bg-neutral-100"
             >
               {t('cta.button')}
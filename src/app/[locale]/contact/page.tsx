@@ -6,11 +6,14 @@ import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { ContactForm } from '@/components/forms/ContactForm';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getContactPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import { defaultTopic, isInquiryTopic } from '@/lib/contact/topics';
 import type { Locale } from '@/lib/i18n/config';
 
 interface PageProps {
   params: Promise<{ locale: string }>;
+  searchParams: Promise<{ topic?: string }>;
 }
 
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
@@ -25,23 +28,26 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
   });
 }
 
-export default async function ContactPage({ params }: PageProps) {
+export default async function ContactPage({ params, searchParams }: PageProps) {
   const { locale } = await params;
+  // CTAs link to /contact?topic=...; read on the server so the form is in the HTML
+  const { topic } = await searchParams;
   setRequestLocale(locale);
   const t = await getTranslations({ locale, namespace: 'pages.contact' });
 
-  const pageSchema = getWebPageSchema({
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/contact' },
+  ], locale as Locale);
+
+  const pageSchema = getContactPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/contact',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: t('title'), url: '/contact' },
-  ], locale as Locale);
-
   const contactInfo = [
     {
       icon: MapPin,
@@ -67,8 +73,7 @@ export default async function ContactPage({ params }: PageProps) {
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
 
       <Breadcrumbs
         items={[{ label: t('title') }]}
@@ -136,7 +141,7 @@ export default async function ContactPage({ params }: PageProps) {
             <div className="lg:col-span-2">
               <div className="rounded-xl border border-neutral-200 bg-white p-8 shadow-sm">
                 <h2 className="mb-6 text-2xl font-bold text-neutral-900">{t('form.title')}</h2>
-                <ContactForm />
+                <ContactForm topic={isInquiryTopic(topic) ? topic : defaultTopic} />
               </div>
             </div>
           </div>
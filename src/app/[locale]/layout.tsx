@@ -1,10 +1,15 @@
 import { Inter, Outfit } from 'next/font/google';
 import { notFound } from 'next/navigation';
 import { NextIntlClientProvider } from 'next-intl';
-import { getMessages, setRequestLocale } from 'next-intl/server';
+import { getMessages, getTranslations, setRequestLocale } from 'next-intl/server';
 import { locales, type Locale } from '@/lib/i18n/config';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
+import { LanguageHint, type LanguageHintMessages } from '@/components/layout/LanguageHint';
+import { ConsentProvider } from '@/components/consent/ConsentProvider';
+import { Analytics } from '@/components/analytics/Analytics';
+import { getCtaDestinations } from '@/lib/analytics/registry';
+import { getNavigation } from '@/lib/routes/registry';
 import '@/app/globals.css';
 
 // Body text font - Inter (Google Fonts)
@@ -53,14 +58,23 @@ export default async function LocaleLayout({ children, params }: LocaleLayoutPro
 
   setRequestLocale(locale);
   const messages = await getMessages();
+  const navigation = getNavigation();
+  const languageHints = Object.fromEntries(await Promise.all(locales.map(async (hintLocale) => {
+    const t = await getTranslations({ locale: hintLocale, namespace: 'languageHint' });
+    return [hintLocale, { text: t('text'), action: t('action'), dismiss: t('dismiss') }];
+  }))) as Record<Locale, LanguageHintMessages>;
 
   return (
     <html lang={locale} className={`${inter.variable} ${outfit.variable}`}>
       <body className="flex min-h-screen flex-col antialiased">
         <NextIntlClientProvider messages={messages}>
-          <Header />
-          <main className="flex-1">{children}</main>
-          <Footer />
+          <ConsentProvider>
+            <Header navigation={navigation} />
+            <LanguageHint messages={languageHints} />
+            <main className="flex-1">{children}</main>
+            <Footer navigation={navigation} />
+            <Analytics ctaDestinations={getCtaDestinations()} />
+          </ConsentProvider>
         </NextIntlClientProvider>
       </body>
     </html>
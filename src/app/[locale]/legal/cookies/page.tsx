@@ -4,7 +4,8 @@ import { Container } from '@/components/ui/container';
 import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
 import type { Locale } from '@/lib/i18n/config';
 
 interface PageProps {
@@ -28,18 +29,19 @@ export default async function CookiesPage({ params }: PageProps) {
   setRequestLocale(locale);
   const t = await getTranslations({ locale, namespace: 'pages.cookies' });
 
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/legal/cookies' },
+  ], locale as Locale);
+
   const pageSchema = getWebPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/legal/cookies',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: t('title'), url: '/legal/cookies' },
-  ], locale as Locale);
-
   const sections = [
     { id: 'what-are-cookies', title: t('sections.whatAreCookies.title'), content: t('sections.whatAreCookies.content') },
     { id: 'how-we-use', title: t('sections.howWeUse.title'), content: t('sections.howWeUse.content') },
@@ -51,8 +53,7 @@ export default async function CookiesPage({ params }: PageProps) {
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
 
       <Breadcrumbs
         items={[{ label: t('title') }]}
@@ -4,7 +4,8 @@ import { Container } from '@/components/ui/container';
 import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
 import type { Locale } from '@/lib/i18n/config';
 
 interface PageProps {
@@ -28,18 +29,19 @@ export default async function TermsPage({ params }: PageProps) {
   setRequestLocale(locale);
   const t = await getTranslations({ locale, namespace: 'pages.terms' });
 
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/legal/terms' },
+  ], locale as Locale);
+
   const pageSchema = getWebPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/legal/terms',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: t('title'), url: '/legal/terms' },
-  ], locale as Locale);
-
   const sections = [
     { id: 'acceptance', title: t('sections.acceptance.title'), content: t('sections.acceptance.content') },
     { id: 'use', title: t('sections.use.title'), content: t('sections.use.content') },
@@ -54,8 +56,7 @@ export default async function TermsPage({ params }: PageProps) {
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
 
       <Breadcrumbs
         items={[{ label: t('title') }]}
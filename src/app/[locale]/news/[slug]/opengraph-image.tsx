@@ -0,0 +1,30 @@
+import { getTranslations } from 'next-intl/server';
+import { notFound } from 'next/navigation';
+import { getArticle } from '@/lib/content';
+import { ogImageAlt, ogImageContentType, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+import type { Locale } from '@/lib/i18n/config';
+
+export const alt = ogImageAlt;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+interface ImageProps {
+  params: { locale: string; slug: string };
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale, slug } = params;
+  const article = await getArticle(locale as Locale, slug);
+  if (!article) {
+    notFound();
+  }
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+
+  // The featured image, when the article has one, becomes the card background
+  return renderOgImage({
+    title: article.title,
+    section: t(`categories.${article.category}`),
+    locale: locale as Locale,
+    image: article.image,
+  });
+}
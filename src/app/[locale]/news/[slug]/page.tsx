@@ -0,0 +1,213 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, ArrowRight, Calendar, User } from 'lucide-react';
+import { Container } from '@/components/ui/container';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { ArticleBody } from '@/components/content/ArticleBody';
+import { ArticleCard } from '@/components/content/ArticleCard';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getNewsArticleSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import {
+  getAdjacentArticles,
+  getArticle,
+  getArticles,
+  getRelatedArticles,
+} from '@/lib/content';
+import { getFeedAlternates } from '@/lib/content/feeds';
+import { Link } from '@/lib/i18n/navigation';
+import { locales, type Locale } from '@/lib/i18n/config';
+import { formatDate } from '@/lib/utils';
+
+interface PageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+export async function generateStaticParams() {
+  const params = await Promise.all(
+    locales.map(async (locale) => {
+      const articles = await getArticles(locale);
+      return articles.map((article) => ({ locale, slug: article.slug }));
+    })
+  );
+  return params.flat();
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const article = await getArticle(locale as Locale, slug);
+
+  if (!article) {
+    return {};
+  }
+
+  return generatePageMetadata({
+    title: article.title,
+    description: article.excerpt,
+    locale: locale as Locale,
+    path: `/news/${slug}`,
+    alternateTypes: getFeedAlternates(locale as Locale),
+  });
+}
+
+export default async function NewsArticlePage({ params }: PageProps) {
+  const { locale, slug } = await params;
+  setRequestLocale(locale);
+
+  const article = await getArticle(locale as Locale, slug);
+  if (!article) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const articles = await getArticles(locale as Locale);
+  const related = getRelatedArticles(articles, article);
+  const { previous, next } = getAdjacentArticles(articles, slug);
+
+  const articleSchema = getNewsArticleSchema({
+    headline: article.title,
+    description: article.excerpt,
+    locale: locale as Locale,
+    path: `/news/${slug}`,
+    datePublished: article.publishedAt,
+    dateModified: article.updatedAt,
+    author: article.author,
+    image: article.image,
+  });
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/news' },
+    { name: article.title, url: `/news/${slug}` },
+  ], locale as Locale);
+
+  const pageSchema = getWebPageSchema({
+    title: article.title,
+    description: article.excerpt,
+    locale: locale as Locale,
+    path: `/news/${slug}`,
+    breadcrumb: breadcrumbSchema,
+    mainEntity: articleSchema,
+  });
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, articleSchema, breadcrumbSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: t('title'), href: '/news' },
+          { label: article.title },
+        ]}
+      />
+
+      <article className="py-16 md:py-24">
+        <Container className="max-w-3xl">
+          {/* Article header */}
+          <header className="mb-10">
+            <span className="rounded-full bg-primary-50 px-3 py-1 text-xs font-medium text-primary-600">
+              {t(`categories.${article.category}`)}
+            </span>
+            <h1 className="mt-4 text-3xl font-bold tracking-tight text-neutral-900 md:text-4xl">
+              {article.title}
+            </h1>
+            <p className="mt-4 text-xl text-neutral-600">{article.excerpt}</p>
+            <div className="mt-6 flex flex-wrap items-center gap-6 text-sm text-neutral-500">
+              {article.author && (
+                <span className="flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  {t('article.by', { author: article.author })}
+                </span>
+              )}
+              <time dateTime={article.publishedAt} className="flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                {formatDate(article.publishedAt, locale)}
+              </time>
+            </div>
+          </header>
+
+          {article.image && (
+            <img
+              src={article.image}
+              alt=""
+              className="mb-10 aspect-video w-full rounded-xl object-cover"
+            />
+          )}
+
+          <ArticleBody body={article.body} />
+
+          {/* Previous / next */}
+          <nav
+            aria-label={t('article.navigation')}
+            className="mt-16 grid gap-4 border-t border-neutral-200 pt-8 sm:grid-cols-2"
+          >
+            {previous ? (
+              <Link
+                href={`/news/${previous.slug}`}
+                rel="prev"
+                className="group rounded-xl border border-neutral-200 p-4 transition-colors hover:border-primary-200"
+              >
+                <span className="flex items-center gap-1 text-xs font-medium uppercase tracking-wider text-neutral-500">
+                  <ArrowLeft className="h-3 w-3" />
+                  {t('article.previous')}
+                </span>
+                <span className="mt-1 block font-semibold text-neutral-900 group-hover:text-primary-500">
+                  {previous.title}
+                </span>
+              </Link>
+            ) : (
+              <span />
+            )}
+            {next && (
+              <Link
+                href={`/news/${next.slug}`}
+                rel="next"
+                className="group rounded-xl border border-neutral-200 p-4 text-right transition-colors hover:border-primary-200"
+              >
+                <span className="flex items-center justify-end gap-1 text-xs font-medium uppercase tracking-wider text-neutral-500">
+                  {t('article.next')}
+                  <ArrowRight className="h-3 w-3" />
+                </span>
+                <span className="mt-1 block font-semibold text-neutral-900 group-hover:text-primary-500">
+                  {next.title}
+                </span>
+              </Link>
+            )}
+          </nav>
+
+          <Link
+            href="/news"
+            className="mt-8 inline-flex items-center text-sm font-medium text-primary-500 hover:text-primary-600"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            {t('article.back')}
+          </Link>
+        </Container>
+      </article>
+
+      {/* Related articles */}
+      {related.length > 0 && (
+        <section className="bg-neutral-50 py-16 md:py-24">
+          <Container>
+            <h2 className="mb-8 text-2xl font-bold text-neutral-900">{t('article.related')}</h2>
+            <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3 card-grid">
+              {related.map((item) => (
+                <ArticleCard
+                  key={item.slug}
+                  slug={item.slug}
+                  title={item.title}
+                  excerpt={item.excerpt}
+                  image={item.image}
+                  categoryLabel={t(`categories.${item.category}`)}
+                  dateLabel={formatDate(item.publishedAt, locale)}
+                  readMoreLabel={t('readMore')}
+                />
+              ))}
+            </div>
+          </Container>
+        </section>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import { getTranslations } from 'next-intl/server';
+import { formatMonth } from '@/lib/utils';
+import { ogImageAlt, ogImageContentType, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+import type { Locale } from '@/lib/i18n/config';
+
+export const alt = ogImageAlt;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+interface ImageProps {
+  params: { locale: string; year: string; month: string };
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale, year, month } = params;
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const navT = await getTranslations({ locale, namespace: 'nav' });
+  const period = formatMonth(Number(year), Number(month), locale);
+
+  return renderOgImage({ title: t('archive.heading', { period }), section: navT('news'), locale: locale as Locale });
+}
@@ -0,0 +1,92 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { NewsIndex } from '@/components/content/NewsIndex';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import { getArchive, getArticles, getNewsListing, getNewsPath } from '@/lib/content';
+import type { Locale } from '@/lib/i18n/config';
+import { formatMonth } from '@/lib/utils';
+
+interface PageProps {
+  params: Promise<{ locale: string; year: string; month: string }>;
+}
+
+export const dynamicParams = false;
+
+// Only layout params reach this function, so [year] is generated here too
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  const archive = getArchive(await getArticles(params.locale as Locale));
+  return archive.flatMap(({ year, months }) =>
+    months.map(({ month }) => ({ year: String(year), month: String(month).padStart(2, '0') }))
+  );
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, year, month } = await params;
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const period = formatMonth(Number(year), Number(month), locale);
+
+  return generatePageMetadata({
+    title: t('archive.metaTitle', { period }),
+    description: t('archive.description', { period }),
+    locale: locale as Locale,
+    path: getNewsPath({ year: Number(year), month: Number(month) }),
+  });
+}
+
+export default async function NewsMonthArchivePage({ params }: PageProps) {
+  const { locale, year, month } = await params;
+  setRequestLocale(locale);
+
+  const filter = { year: Number(year), month: Number(month) };
+  const articles = await getArticles(locale as Locale);
+  const listing = getNewsListing(articles, filter);
+  if (!/^\d{4}$/.test(year) || !/^\d{2}$/.test(month) || !listing || listing.items.length === 0) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const period = formatMonth(filter.year, filter.month, locale);
+  const path = getNewsPath(filter);
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/news' },
+    { name: year, url: getNewsPath({ year: filter.year }) },
+    { name: period, url: path },
+  ], locale as Locale);
+
+  const pageSchema = getWebPageSchema({
+    title: t('archive.metaTitle', { period }),
+    description: t('archive.description', { period }),
+    locale: locale as Locale,
+    path,
+    breadcrumb: breadcrumbSchema,
+  });
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: t('title'), href: '/news' },
+          { label: year, href: getNewsPath({ year: filter.year }) },
+          { label: period },
+        ]}
+      />
+
+      <PageHeader
+        title={t('archive.heading', { period })}
+        subtitle={t('archive.description', { period })}
+        variant="gradient"
+      />
+
+      <NewsIndex locale={locale as Locale} listing={listing} archive={getArchive(articles)} filter={filter} />
+    </>
+  );
+}
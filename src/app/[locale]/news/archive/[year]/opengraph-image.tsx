@@ -0,0 +1,19 @@
+import { getTranslations } from 'next-intl/server';
+import { ogImageAlt, ogImageContentType, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+import type { Locale } from '@/lib/i18n/config';
+
+export const alt = ogImageAlt;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+interface ImageProps {
+  params: { locale: string; year: string };
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale, year } = params;
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const navT = await getTranslations({ locale, namespace: 'nav' });
+
+  return renderOgImage({ title: t('archive.heading', { period: year }), section: navT('news'), locale: locale as Locale });
+}
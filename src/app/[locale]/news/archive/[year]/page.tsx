@@ -0,0 +1,84 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { NewsIndex } from '@/components/content/NewsIndex';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import { getArchive, getArticles, getNewsListing, getNewsPath } from '@/lib/content';
+import type { Locale } from '@/lib/i18n/config';
+
+interface PageProps {
+  params: Promise<{ locale: string; year: string }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  const archive = getArchive(await getArticles(params.locale as Locale));
+  return archive.map(({ year }) => ({ year: String(year) }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, year } = await params;
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+
+  return generatePageMetadata({
+    title: t('archive.metaTitle', { period: year }),
+    description: t('archive.description', { period: year }),
+    locale: locale as Locale,
+    path: getNewsPath({ year: Number(year) }),
+  });
+}
+
+export default async function NewsYearArchivePage({ params }: PageProps) {
+  const { locale, year } = await params;
+  setRequestLocale(locale);
+
+  const filter = { year: Number(year) };
+  const articles = await getArticles(locale as Locale);
+  const listing = getNewsListing(articles, filter);
+  if (!/^\d{4}$/.test(year) || !listing || listing.items.length === 0) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const path = getNewsPath(filter);
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/news' },
+    { name: year, url: path },
+  ], locale as Locale);
+
+  const pageSchema = getWebPageSchema({
+    title: t('archive.metaTitle', { period: year }),
+    description: t('archive.description', { period: year }),
+    locale: locale as Locale,
+    path,
+    breadcrumb: breadcrumbSchema,
+  });
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: t('title'), href: '/news' },
+          { label: year },
+        ]}
+      />
+
+      <PageHeader
+        title={t('archive.heading', { period: year })}
+        subtitle={t('archive.description', { period: year })}
+        variant="gradient"
+      />
+
+      <NewsIndex locale={locale as Locale} listing={listing} archive={getArchive(articles)} filter={filter} />
+    </>
+  );
+}
@@ -0,0 +1,15 @@
+import { newsFeedResponse } from '@/lib/content/feeds';
+import { locales, type Locale } from '@/lib/i18n/config';
+
+// Atom feed of the locale's news articles, rendered at build time
+export const dynamic = 'force-static';
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  return newsFeedResponse(locale as Locale, 'atom');
+}
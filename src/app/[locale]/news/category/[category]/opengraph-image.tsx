@@ -0,0 +1,24 @@
+import { getTranslations } from 'next-intl/server';
+import { notFound } from 'next/navigation';
+import { articleCategories, type ArticleCategory } from '@/lib/content';
+import { ogImageAlt, ogImageContentType, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+import type { Locale } from '@/lib/i18n/config';
+
+export const alt = ogImageAlt;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+interface ImageProps {
+  params: { locale: string; category: string };
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale, category } = params;
+  if (!articleCategories.includes(category as ArticleCategory)) {
+    notFound();
+  }
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const navT = await getTranslations({ locale, namespace: 'nav' });
+
+  return renderOgImage({ title: t(`categories.${category as ArticleCategory}`), section: navT('news'), locale: locale as Locale });
+}
@@ -0,0 +1,98 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { NewsIndex } from '@/components/content/NewsIndex';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import {
+  articleCategories,
+  getArchive,
+  getArticles,
+  getNewsListing,
+  getNewsPath,
+  type ArticleCategory,
+} from '@/lib/content';
+import { getFeedAlternates } from '@/lib/content/feeds';
+import type { Locale } from '@/lib/i18n/config';
+
+interface PageProps {
+  params: Promise<{ locale: string; category: string }>;
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return articleCategories.map((category) => ({ category }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, category } = await params;
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const label = t(`categories.${category as ArticleCategory}`);
+
+  return generatePageMetadata({
+    title: t('category.title', { category: label }),
+    description: t('category.description', { category: label }),
+    locale: locale as Locale,
+    path: getNewsPath({ category: category as ArticleCategory }),
+    alternateTypes: getFeedAlternates(locale as Locale),
+  });
+}
+
+export default async function NewsCategoryPage({ params }: PageProps) {
+  const { locale, category } = await params;
+  setRequestLocale(locale);
+
+  if (!(articleCategories as readonly string[]).includes(category)) {
+    notFound();
+  }
+  const filter = { category: category as ArticleCategory };
+
+  const articles = await getArticles(locale as Locale);
+  const listing = getNewsListing(articles, filter);
+  if (!listing) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const label = t(`categories.${filter.category}`);
+  const path = getNewsPath(filter);
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/news' },
+    { name: label, url: path },
+  ], locale as Locale);
+
+  const pageSchema = getWebPageSchema({
+    title: t('category.title', { category: label }),
+    description: t('category.description', { category: label }),
+    locale: locale as Locale,
+    path,
+    breadcrumb: breadcrumbSchema,
+  });
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: t('title'), href: '/news' },
+          { label },
+        ]}
+      />
+
+      <PageHeader
+        title={label}
+        subtitle={t('category.description', { category: label })}
+        variant="gradient"
+      />
+
+      <NewsIndex locale={locale as Locale} listing={listing} archive={getArchive(articles)} filter={filter} />
+    </>
+  );
+}
@@ -0,0 +1,98 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { NewsIndex } from '@/components/content/NewsIndex';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import {
+  articleCategories,
+  getArchive,
+  getArticles,
+  getNewsListing,
+  getNewsPath,
+  type ArticleCategory,
+} from '@/lib/content';
+import { getFeedAlternates } from '@/lib/content/feeds';
+import type { Locale } from '@/lib/i18n/config';
+
+interface PageProps {
+  params: Promise<{ locale: string; category: string; page: string }>;
+}
+
+// Page 1 lives at /news/category/[category]; only later pages are generated here
+export const dynamicParams = false;
+
+// Only layout params reach this function, so [category] is generated here too
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  const articles = await getArticles(params.locale as Locale);
+  return articleCategories.flatMap((category) => {
+    const totalPages = getNewsListing(articles, { category })?.totalPages ?? 1;
+    return Array.from({ length: totalPages - 1 }, (_, index) => ({ category, page: String(index + 2) }));
+  });
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, category, page } = await params;
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const label = t(`categories.${category as ArticleCategory}`);
+
+  return generatePageMetadata({
+    title: `${t('category.title', { category: label })} – ${t('pagination.page', { page })}`,
+    description: t('category.description', { category: label }),
+    locale: locale as Locale,
+    path: getNewsPath({ category: category as ArticleCategory }, Number(page)),
+    alternateTypes: getFeedAlternates(locale as Locale),
+  });
+}
+
+export default async function NewsCategoryPaginatedPage({ params }: PageProps) {
+  const { locale, category, page } = await params;
+  setRequestLocale(locale);
+
+  if (!(articleCategories as readonly string[]).includes(category)) {
+    notFound();
+  }
+  const filter = { category: category as ArticleCategory };
+
+  const articles = await getArticles(locale as Locale);
+  const listing = getNewsListing(articles, filter, Number(page));
+  if (!listing) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const label = t(`categories.${filter.category}`);
+  const pageLabel = t('pagination.page', { page });
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/news' },
+    { name: label, url: getNewsPath(filter) },
+    { name: pageLabel, url: getNewsPath(filter, listing.page) },
+  ], locale as Locale);
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, breadcrumbSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: t('title'), href: '/news' },
+          { label, href: getNewsPath(filter) },
+          { label: pageLabel },
+        ]}
+      />
+
+      <PageHeader
+        title={label}
+        subtitle={pageLabel}
+        variant="gradient"
+      />
+
+      <NewsIndex locale={locale as Locale} listing={listing} archive={getArchive(articles)} filter={filter} />
+    </>
+  );
+}
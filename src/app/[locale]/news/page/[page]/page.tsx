@@ -0,0 +1,79 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { NewsIndex } from '@/components/content/NewsIndex';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import { getArchive, getArticles, getNewsListing, getNewsPath } from '@/lib/content';
+import { getFeedAlternates } from '@/lib/content/feeds';
+import type { Locale } from '@/lib/i18n/config';
+
+interface PageProps {
+  params: Promise<{ locale: string; page: string }>;
+}
+
+// Page 1 lives at /news; only later pages are generated here
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  const listing = getNewsListing(await getArticles(params.locale as Locale));
+  const totalPages = listing?.totalPages ?? 1;
+  return Array.from({ length: totalPages - 1 }, (_, index) => ({ page: String(index + 2) }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, page } = await params;
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+
+  return generatePageMetadata({
+    title: `${t('meta.title')} – ${t('pagination.page', { page })}`,
+    description: t('meta.description'),
+    locale: locale as Locale,
+    path: getNewsPath({}, Number(page)),
+    alternateTypes: getFeedAlternates(locale as Locale),
+  });
+}
+
+export default async function NewsPaginatedPage({ params }: PageProps) {
+  const { locale, page } = await params;
+  setRequestLocale(locale);
+
+  const articles = await getArticles(locale as Locale);
+  const listing = getNewsListing(articles, {}, Number(page));
+  if (!listing) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const pageLabel = t('pagination.page', { page });
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/news' },
+    { name: pageLabel, url: getNewsPath({}, listing.page) },
+  ], locale as Locale);
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, breadcrumbSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: t('title'), href: '/news' },
+          { label: pageLabel },
+        ]}
+      />
+
+      <PageHeader
+        title={t('title')}
+        subtitle={pageLabel}
+        variant="gradient"
+      />
+
+      <NewsIndex locale={locale as Locale} listing={listing} archive={getArchive(articles)} />
+    </>
+  );
+}
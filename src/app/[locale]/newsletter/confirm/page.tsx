@@ -0,0 +1,46 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { Container } from '@/components/ui/container';
+import { NewsletterConfirmForm } from '@/components/forms/NewsletterConfirmForm';
+import { NewsletterStatus } from '@/components/forms/NewsletterStatus';
+import { verifyNewsletterToken } from '@/lib/newsletter/token';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: 'newsletter.confirm' });
+
+  // Token landing pages must stay out of search results
+  return { title: t('meta.title'), robots: { index: false, follow: false } };
+}
+
+// Opening the link only checks the token; the subscription is stored by the form's POST
+export default async function NewsletterConfirmPage({ params, searchParams }: PageProps) {
+  const { locale } = await params;
+  const { token } = await searchParams;
+  setRequestLocale(locale);
+  const t = await getTranslations({ locale, namespace: 'newsletter' });
+
+  const verification = verifyNewsletterToken(token, 'confirm');
+
+  return (
+    <section className="py-24 md:py-32">
+      <Container className="max-w-2xl text-center">
+        {verification.ok ? (
+          <NewsletterConfirmForm token={token!} email={verification.payload.email} />
+        ) : (
+          <NewsletterStatus
+            tone="error"
+            title={t(`confirm.${verification.reason}.title`)}
+            text={t(`confirm.${verification.reason}.text`)}
+            backLabel={t('back')}
+          />
+        )}
+      </Container>
+    </section>
+  );
+}
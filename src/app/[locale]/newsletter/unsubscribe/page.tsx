@@ -0,0 +1,45 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { Container } from '@/components/ui/container';
+import { NewsletterStatus } from '@/components/forms/NewsletterStatus';
+import { NewsletterUnsubscribeForm } from '@/components/forms/NewsletterUnsubscribeForm';
+import { verifyNewsletterToken } from '@/lib/newsletter/token';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: 'newsletter.unsubscribe' });
+
+  return { title: t('meta.title'), robots: { index: false, follow: false } };
+}
+
+// Opening the link only checks the token; the form's POST unsubscribes
+export default async function NewsletterUnsubscribePage({ params, searchParams }: PageProps) {
+  const { locale } = await params;
+  const { token } = await searchParams;
+  setRequestLocale(locale);
+  const t = await getTranslations({ locale, namespace: 'newsletter' });
+
+  const verification = verifyNewsletterToken(token, 'unsubscribe');
+
+  return (
+    <section className="py-24 md:py-32">
+      <Container className="max-w-2xl text-center">
+        {verification.ok ? (
+          <NewsletterUnsubscribeForm token={token!} email={verification.payload.email} />
+        ) : (
+          <NewsletterStatus
+            tone="error"
+            title={t('unsubscribe.invalidToken.title')}
+            text={t('unsubscribe.invalidToken.text')}
+            backLabel={t('back')}
+          />
+        )}
+      </Container>
+    </section>
+  );
+}
@@ -0,0 +1,22 @@
+import { useTranslations } from 'next-intl';
+import { Container } from '@/components/ui/container';
+import { Button } from '@/components/ui/button';
+import { Link } from '@/lib/i18n/navigation';
+
+// Rendered for notFound() calls inside the [locale] segment (e.g. unknown article slugs)
+export default function LocaleNotFound() {
+  const t = useTranslations('notFound');
+
+  return (
+    <section className="py-24 md:py-32">
+      <Container className="max-w-2xl text-center">
+        <p className="text-sm font-semibold uppercase tracking-wider text-accent-500">404</p>
+        <h1 className="mt-4 text-3xl font-bold tracking-tight text-neutral-900 md:text-4xl">{t('title')}</h1>
+        <p className="mt-4 text-lg text-neutral-600">{t('text')}</p>
+        <Button asChild size="lg" className="mt-8">
+          <Link href="/">{t('back')}</Link>
+        </Button>
+      </Container>
+    </section>
+  );
+}
@@ -5,7 +5,8 @@ import { CapabilitiesSection } from '@/components/sections/CapabilitiesSection';
 import { AboutSection } from '@/components/sections/AboutSection';
 import { CTASection } from '@/components/sections/CTASection';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getOrganizationSchema, getWebSiteSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph } from '@/lib/seo/structured-data';
 import type { Locale } from '@/lib/i18n/config';
 
 interface PageProps {
@@ -28,13 +29,10 @@ export default async function HomePage({ params }: PageProps) {
   const { locale } = await params;
   setRequestLocale(locale);
 
-  const organizationSchema = getOrganizationSchema();
-  const websiteSchema = getWebSiteSchema(locale as Locale);
-
   return (
     <>
-      <JsonLd data={organizationSchema} />
-      <JsonLd data={websiteSchema} />
+      {/* The organization and website nodes every graph starts with */}
+      <JsonLd data={getJsonLdGraph(locale as Locale)} />
       <HeroSection />
       <CapabilitiesSection />
       <AboutSection />
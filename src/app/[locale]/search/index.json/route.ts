@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { buildSearchIndex } from '@/lib/search/build';
+import { locales, type Locale } from '@/lib/i18n/config';
+
+// Per-locale search index, generated at build time and fetched by the search UI
+export const dynamic = 'force-static';
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return locales.map((locale) => ({ locale }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+  return NextResponse.json(await buildSearchIndex(locale as Locale));
+}
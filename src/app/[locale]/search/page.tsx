@@ -0,0 +1,56 @@
+import { Suspense } from 'react';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { SearchResults } from '@/components/content/SearchResults';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import type { Locale } from '@/lib/i18n/config';
+
+interface PageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: 'search' });
+
+  return {
+    ...generatePageMetadata({
+      title: t('meta.title'),
+      description: t('meta.description'),
+      locale: locale as Locale,
+      path: '/search',
+    }),
+    // Result pages are thin duplicates of the pages they list
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function SearchPage({ params }: PageProps) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const t = await getTranslations({ locale, namespace: 'search' });
+
+  return (
+    <>
+      <Breadcrumbs items={[{ label: t('title') }]} />
+
+      <PageHeader
+        title={t('title')}
+        subtitle={t('subtitle')}
+        variant="gradient"
+      />
+
+      <section className="py-16 md:py-24">
+        <Container className="max-w-3xl">
+          {/* Reads ?q= on the client so the page itself stays static */}
+          <Suspense>
+            <SearchResults />
+          </Suspense>
+        </Container>
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+import { getTranslations } from 'next-intl/server';
+import { notFound } from 'next/navigation';
+import { isSector } from '@/lib/sectors/sectors';
+import { ogImageAlt, ogImageContentType, ogImageSize, renderOgImage } from '@/lib/seo/og-image';
+import type { Locale } from '@/lib/i18n/config';
+
+export const alt = ogImageAlt;
+export const size = ogImageSize;
+export const contentType = ogImageContentType;
+
+interface ImageProps {
+  params: { locale: string; sector: string };
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale, sector } = params;
+  if (!isSector(sector)) {
+    notFound();
+  }
+  const t = await getTranslations({ locale, namespace: `pages.sectors.sectors.${sector}` });
+  const navT = await getTranslations({ locale, namespace: 'nav' });
+
+  return renderOgImage({ title: t('title'), section: navT('sectors'), locale: locale as Locale });
+}
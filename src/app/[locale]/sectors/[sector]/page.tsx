@@ -0,0 +1,175 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, CheckCircle, Factory, GraduationCap, Landmark, type LucideIcon } from 'lucide-react';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/content/PageHeader';
+import { Breadcrumbs } from '@/components/content/Breadcrumbs';
+import { CapabilityCard } from '@/components/content/CapabilityCard';
+import { JsonLd } from '@/components/seo/JsonLd';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import { capabilities, getCapabilityPath } from '@/lib/capabilities/definitions';
+import { getSectorLinks, getSectorPath, isSector, sectors, type Sector } from '@/lib/sectors/sectors';
+import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
+
+interface PageProps {
+  params: Promise<{ locale: string; sector: string }>;
+}
+
+const sectorIcons: Record<Sector, LucideIcon> = {
+  institutional: Landmark,
+  industrial: Factory,
+  academic: GraduationCap,
+};
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return sectors.map((sector) => ({ sector }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, sector } = await params;
+  if (!isSector(sector)) {
+    return {};
+  }
+  const t = await getTranslations({ locale, namespace: `pages.sectors.sectors.${sector}` });
+
+  return generatePageMetadata({
+    title: t('meta.title'),
+    description: t('meta.description'),
+    locale: locale as Locale,
+    path: getSectorPath(sector),
+  });
+}
+
+export default async function SectorPage({ params }: PageProps) {
+  const { locale, sector } = await params;
+  setRequestLocale(locale);
+
+  if (!isSector(sector)) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale, namespace: 'pages.sectors' });
+  const sectorT = await getTranslations({ locale, namespace: `pages.sectors.sectors.${sector}` });
+  const capT = await getTranslations({ locale, namespace: 'capabilities' });
+  const { relatedCapabilities, ctaHref } = getSectorLinks(sector);
+  const Icon = sectorIcons[sector];
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/sectors' },
+    { name: sectorT('title'), url: getSectorPath(sector) },
+  ], locale as Locale);
+
+  const pageSchema = getWebPageSchema({
+    title: sectorT('meta.title'),
+    description: sectorT('meta.description'),
+    locale: locale as Locale,
+    path: getSectorPath(sector),
+    breadcrumb: breadcrumbSchema,
+  });
+
+  const services = [sectorT('service1'), sectorT('service2'), sectorT('service3')];
+
+  const capabilityCards = relatedCapabilities.flatMap((href) => {
+    const capability = capabilities.find(({ slug }) => getCapabilityPath(slug) === href);
+    return capability
+      ? [{
+        href,
+        iconName: capability.icon,
+        title: capT(`${capability.messageKey}.title`),
+        description: capT(`${capability.messageKey}.description`),
+      }]
+      : [];
+  });
+
+  return (
+    <>
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
+
+      <Breadcrumbs
+        items={[
+          { label: t('title'), href: '/sectors' },
+          { label: sectorT('title') },
+        ]}
+      />
+
+      <PageHeader
+        title={sectorT('title')}
+        subtitle={sectorT('description')}
+        variant="gradient"
+      />
+
+      {/* Services */}
+      <section className="py-16 md:py-24">
+        <Container>
+          <div className="grid gap-12 lg:grid-cols-2">
+            <div>
+              <h2 className="text-3xl font-bold text-neutral-900">{t('spoke.servicesTitle')}</h2>
+              <ul className="mt-6 space-y-4">
+                {services.map((service) => (
+                  <li key={service} className="flex items-start gap-3">
+                    <CheckCircle className="mt-0.5 h-5 w-5 flex-shrink-0 text-primary-500" />
+                    <span className="text-lg text-neutral-600">{service}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="rounded-xl bg-neutral-100 p-8 flex items-center justify-center">
+              <Icon className="h-32 w-32 text-primary-200" />
+            </div>
+          </div>
+        </Container>
+      </section>
+
+      {/* Related capabilities */}
+      {capabilityCards.length > 0 && (
+        <section className="bg-neutral-50 py-16 md:py-24">
+          <Container>
+            <div className="mx-auto mb-12 max-w-3xl text-center">
+              <h2 className="text-3xl font-bold text-neutral-900">{t('spoke.relatedTitle')}</h2>
+            </div>
+            <div className="grid gap-8 md:grid-cols-2 card-grid">
+              {capabilityCards.map((capability, index) => (
+                <CapabilityCard
+                  key={capability.href}
+                  {...capability}
+                  index={index}
+                />
+              ))}
+            </div>
+          </Container>
+        </section>
+      )}
+
+      {/* CTA */}
+      <section className="bg-primary-500 py-16">
+        <Container>
+          <div className="mx-auto max-w-3xl text-center">
+            <h2 className="text-3xl font-bold text-white">{sectorT('cta.title')}</h2>
+            <p className="mt-4 text-lg text-white/80">{sectorT('cta.text')}</p>
+            <a
+              href={getLocalizedHref(ctaHref, locale as Locale)}
+              className="mt-8 inline-flex items-center justify-center rounded-md bg-white px-8 py-3 text-base font-medium text-primary-500 transition-colors hover:bg-neutral-100"
+            >
+              {sectorT('cta.button')}
+            </a>
+            <div className="mt-6">
+              <a
+                href={getLocalizedHref('/sectors', locale as Locale)}
+                className="inline-flex items-center gap-2 text-sm font-medium text-white/80 transition-colors hover:text-white"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                {t('spoke.back')}
+              </a>
+            </div>
+          </div>
+        </Container>
+      </section>
+    </>
+  );
+}
@@ -1,17 +1,31 @@
 import { getTranslations, setRequestLocale } from 'next-intl/server';
 import type { Metadata } from 'next';
-import { Building, Landmark, GraduationCap, Factory, Globe, Users } from 'lucide-react';
+import { ArrowRight, Building, Landmark, GraduationCap, Factory, Globe, type LucideIcon } from 'lucide-react';
 import { Container } from '@/components/ui/container';
 import { PageHeader } from '@/components/content/PageHeader';
 import { Breadcrumbs } from '@/components/content/Breadcrumbs';
 import { JsonLd } from '@/components/seo/JsonLd';
-import { generatePageMetadata, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/metadata';
+import { generatePageMetadata } from '@/lib/seo/metadata';
+import { getJsonLdGraph, getWebPageSchema, getBreadcrumbSchema } from '@/lib/seo/structured-data';
+import { getContactPath } from '@/lib/contact/topics';
+import { getSectorPath, isSector, sectors, type Sector } from '@/lib/sectors/sectors';
 import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
 
 interface PageProps {
   params: Promise<{ locale: string }>;
 }
 
+// Shown on the hub without a spoke page until added to `sectors` and the registries
+const hubOnlySectors = ['public'] as const;
+
+const sectorIcons: Record<Sector | (typeof hubOnlySectors)[number], LucideIcon> = {
+  institutional: Landmark,
+  industrial: Factory,
+  academic: GraduationCap,
+  public: Building,
+};
+
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
   const { locale } = await params;
   const t = await getTranslations({ locale, namespace: 'pages.sectors' });
@@ -28,66 +42,36 @@ export default async function SectorsPage({ params }: PageProps) {
   const { locale } = await params;
   setRequestLocale(locale);
   const t = await getTranslations({ locale, namespace: 'pages.sectors' });
+  const commonT = await getTranslations({ locale, namespace: 'common' });
+
+  const breadcrumbSchema = getBreadcrumbSchema([
+    { name: 'Home', url: '' },
+    { name: t('title'), url: '/sectors' },
+  ], locale as Locale);
 
   const pageSchema = getWebPageSchema({
     title: t('meta.title'),
     description: t('meta.description'),
     locale: locale as Locale,
     path: '/sectors',
+    breadcrumb: breadcrumbSchema,
   });
 
-  const breadcrumbSchema = getBreadcrumbSchema([
-    { name: 'Home', url: '' },
-    { name: t('title'), url: '/sectors' },
-  ], locale as Locale);
-
-  const sectors = [
-    {
-      icon: Landmark,
-      title: t('sectors.institutional.title'),
-      description: t('sectors.institutional.description'),
-      services: [
-        t('sectors.institutional.service1'),
-        t('sectors.institutional.service2'),
-        t('sectors.institutional.service3'),
-      ],
-    },
-    {
-      icon: Factory,
-      title: t('sectors.industrial.title'),
-      description: t('sectors.industrial.description'),
-      services: [
-        t('sectors.industrial.service1'),
-        t('sectors.industrial.service2'),
-        t('sectors.industrial.service3'),
-      ],
-    },
-    {
-      icon: GraduationCap,
-      title: t('sectors.academic.title'),
-      description: t('sectors.academic.description'),
-      services: [
-        t('sectors.academic.service1'),
-        t('sectors.academic.service2'),
-        t('sectors.academic.service3'),
-      ],
-    },
-    {
-      icon: Building,
-      title: t('sectors.public.title'),
-      description: t('sectors.public.description'),
-      services: [
-        t('sectors.public.service1'),
-        t('sectors.public.service2'),
-        t('sectors.public.service3'),
-      ],
-    },
-  ];
+  const sectorCards = [...sectors, ...hubOnlySectors].map((sector) => ({
+    icon: sectorIcons[sector],
+    href: isSector(sector) ? getSectorPath(sector) : undefined,
+    title: t(`sectors.${sector}.title`),
+    description: t(`sectors.${sector}.description`),
+    services: [
+      t(`sectors.${sector}.service1`),
+      t(`sectors.${sector}.service2`),
+      t(`sectors.${sector}.service3`),
+    ],
+  }));
 
   return (
     <>
-      <JsonLd data={pageSchema} />
-      <JsonLd data={breadcrumbSchema} />
+      <JsonLd data={getJsonLdGraph(locale as Locale, pageSchema, breadcrumbSchema)} />
 
       <Breadcrumbs
         items={[{ label: t('title') }]}
@@ -103,7 +87,7 @@ export default async function SectorsPage({ params }: PageProps) {
       <section className="py-16 md:py-24">
         <Container>
           <div className="space-y-12">
-            {sectors.map((sector, index) => (
+            {sectorCards.map((sector, index) => (
               <div
                 key={sector.title}
                 className={`grid gap-8 lg:grid-cols-2 ${index % 2 === 1 ? 'lg:flex-row-reverse' : ''}`}
@@ -122,6 +106,15 @@ export default async function SectorsPage({ params }: PageProps) {
                       </li>
                     ))}
                   </ul>
+                  {sector.href && (
+                    <a
+                      href={getLocalizedHref(sector.href, locale as Locale)}
+                      className="mt-6 inline-flex items-center text-sm font-medium text-primary-500 transition-colors hover:text-primary-600"
+                    >
+                      {commonT('learnMore')}
+                      <ArrowRight className="ml-1 h-4 w-4" />
+                    </a>
+                  )}
                 </div>
                 <div className={`rounded-xl bg-neutral-100 p-8 flex items-center justify-center ${index % 2 === 1 ? 'lg:order-1' : ''}`}>
                   <sector.icon className="h-32 w-32 text-primary-200" />
@@ -150,7 +143,7 @@ export default async function SectorsPage({ params }: PageProps) {
             <h2 className="text-3xl font-bold text-white">{t('cta.title')}</h2>
             <p className="mt-4 text-lg text-white/80">{t('cta.text')}</p>
             <a
-              href={`/${locale}/contact`}
+              href={getLocalizedHref(getContactPath('partnership'), locale as Locale)}
               className="mt-8 inline-flex items-center justify-center rounded-md bg-white px-8 py-3 text-base font-medium text-primary-500 transition-colors hover:bg-neutral-100"
             >
               {t('cta.button')}
@@ -0,0 +1,62 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getRecipients } from '@/lib/contact/routing';
+import {
+  contactRequestSchema,
+  getFieldErrors,
+  pickTopicFields,
+  type ContactResponse,
+} from '@/lib/contact/schema';
+import { getContactTransport } from '@/lib/contact/transport';
+import { defaultLocale } from '@/lib/i18n/config';
+import { createFormGuard, rejectionResponse } from '@/lib/spam/guard';
+
+const guard = createFormGuard({
+  form: 'contact',
+  rateLimit: { limit: 5, windowMs: 10 * 60 * 1000 },
+});
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ContactResponse>({ ok: false, error: 'invalidRequest' }, { status: 400 });
+  }
+
+  const result = contactRequestSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json<ContactResponse>(
+      { ok: false, error: 'validation', fieldErrors: getFieldErrors(result.error) },
+      { status: 422 }
+    );
+  }
+
+  const { locale = defaultLocale, website, formToken, ...fields } = result.data;
+  const submission = pickTopicFields(fields);
+
+  const verdict = await guard.check(request, {
+    website,
+    formToken,
+    content: { text: `${submission.subject}\n${submission.message}`, email: submission.email },
+  });
+  if (!verdict.ok) {
+    return rejectionResponse(verdict);
+  }
+  const transport = getContactTransport();
+
+  try {
+    await transport.send({
+      id: randomUUID(),
+      receivedAt: new Date().toISOString(),
+      locale,
+      recipients: getRecipients(submission.topic),
+      submission,
+    });
+  } catch (error) {
+    console.error(`[contact] delivery via ${transport.name} failed:`, error);
+    return NextResponse.json<ContactResponse>({ ok: false, error: 'delivery' }, { status: 502 });
+  }
+
+  return NextResponse.json<ContactResponse>({ ok: true });
+}
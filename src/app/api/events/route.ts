@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { CONSENT_COOKIE, hasConsent, parseConsent } from '@/lib/consent/consent';
+import { eventBatchSchema, type EventsResponse, type StoredEvent } from '@/lib/analytics/events';
+import { requestOptsOut } from '@/lib/analytics/privacy';
+import { getCtaDestinations } from '@/lib/analytics/registry';
+import { getEventStore } from '@/lib/analytics/store';
+import { getClientIp } from '@/lib/spam/guard';
+import { createRateLimiter } from '@/lib/spam/rate-limit';
+
+// Generous for real browsing (one event per page view or CTA click)
+const limiter = createRateLimiter({ limit: 60, windowMs: 60 * 1000 });
+
+function readCookie(request: Request, name: string): string | undefined {
+  const entry = request.headers.get('cookie')
+    ?.split(/;\s*/)
+    .find((cookie) => cookie.startsWith(`${name}=`));
+  return entry?.slice(name.length + 1);
+}
+
+/**
+ * First-party event collector. The client only sends events with analytics
+ * consent; the same rules are enforced here so a stale or tampered client
+ * cannot record anything. Opted-out requests are acknowledged but dropped.
+ */
+export async function POST(request: Request) {
+  const consent = parseConsent(readCookie(request, CONSENT_COOKIE));
+  if (requestOptsOut(request.headers) || !hasConsent(consent, 'analytics')) {
+    return NextResponse.json<EventsResponse>({ ok: true, accepted: 0 }, { status: 202 });
+  }
+
+  const rate = await limiter.check(getClientIp(request));
+  if (!rate.allowed) {
+    return NextResponse.json<EventsResponse>(
+      { ok: false, error: 'rateLimited' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(rate.retryAfterMs / 1000)) } }
+    );
+  }
+
+  let body: unknown;
+  try {
+    // sendBeacon may not set a JSON content type, so parse the raw text
+    body = JSON.parse(await request.text());
+  } catch {
+    return NextResponse.json<EventsResponse>({ ok: false, error: 'invalidRequest' }, { status: 400 });
+  }
+
+  const result = eventBatchSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json<EventsResponse>({ ok: false, error: 'invalidRequest' }, { status: 400 });
+  }
+
+  // CTA clicks are only meaningful for destinations the registry knows about
+  const destinations = new Set(getCtaDestinations());
+  const at = new Date().toISOString();
+  const events: StoredEvent[] = result.data.events
+    .filter((event) => event.type !== 'cta_click' || destinations.has(event.destination))
+    .map((event) => ({ ...event, at }));
+
+  if (events.length > 0) {
+    const store = getEventStore();
+    try {
+      await store.append(events);
+    } catch (error) {
+      console.error(`[analytics] appending to ${store.name} store failed:`, error);
+      return NextResponse.json<EventsResponse>({ ok: false, error: 'storage' }, { status: 500 });
+    }
+  }
+
+  return NextResponse.json<EventsResponse>({ ok: true, accepted: events.length }, { status: 202 });
+}
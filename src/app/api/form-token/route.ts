@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { issueFormToken } from '@/lib/spam/token';
+
+// Tokens carry their issue time, so they must never be cached or prerendered
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  return NextResponse.json(
+    { token: issueFormToken() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getTranslations } from 'next-intl/server';
+import { defaultLocale } from '@/lib/i18n/config';
+import { getNewsletterMailer } from '@/lib/newsletter/mailer';
+import {
+  getFieldErrors,
+  newsletterRequestSchema,
+  type NewsletterResponse,
+} from '@/lib/newsletter/schema';
+import { getConfirmUrl, getListUnsubscribeHeaders } from '@/lib/newsletter/subscription';
+import { issueNewsletterToken } from '@/lib/newsletter/token';
+import { createFormGuard, rejectionResponse } from '@/lib/spam/guard';
+
+const guard = createFormGuard({
+  form: 'newsletter',
+  rateLimit: { limit: 3, windowMs: 10 * 60 * 1000 },
+  // A single email field is quick to fill in
+  minSubmitMs: 1_500,
+});
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<NewsletterResponse>({ ok: false, error: 'invalidRequest' }, { status: 400 });
+  }
+
+  const result = newsletterRequestSchema.safeParse(body);
+  if (!result.success) {
+    return NextResponse.json<NewsletterResponse>(
+      { ok: false, error: 'validation', fieldErrors: getFieldErrors(result.error) },
+      { status: 422 }
+    );
+  }
+
+  const { locale = defaultLocale, website, formToken, email } = result.data;
+
+  const verdict = await guard.check(request, { website, formToken, content: { text: '', email } });
+  if (!verdict.ok) {
+    return rejectionResponse(verdict);
+  }
+
+  const confirmUrl = getConfirmUrl(issueNewsletterToken('confirm', { email, locale }), locale);
+  const t = await getTranslations({ locale, namespace: 'newsletter.email' });
+  const mailer = getNewsletterMailer();
+
+  try {
+    await mailer.sendConfirmation({
+      to: email,
+      locale,
+      subject: t('subject'),
+      text: t('text', { url: confirmUrl }),
+      confirmUrl,
+      headers: getListUnsubscribeHeaders(email, locale),
+    });
+  } catch (error) {
+    console.error(`[newsletter] confirmation via ${mailer.name} failed:`, error);
+    return NextResponse.json<NewsletterResponse>({ ok: false, error: 'delivery' }, { status: 502 });
+  }
+
+  return NextResponse.json<NewsletterResponse>({ ok: true });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { NewsletterResponse } from '@/lib/newsletter/schema';
+import { cancelSubscription } from '@/lib/newsletter/subscription';
+
+/**
+ * RFC 8058 one-click unsubscribe, the target of the List-Unsubscribe header
+ * (see getListUnsubscribeHeaders). Only a POST with the one-click body
+ * unsubscribes, so scanners following the URL with GET change nothing.
+ */
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json<NewsletterResponse>({ ok: false, error: 'invalidRequest' }, { status: 400 });
+  }
+  if (form.get('List-Unsubscribe') !== 'One-Click') {
+    return NextResponse.json<NewsletterResponse>({ ok: false, error: 'invalidRequest' }, { status: 400 });
+  }
+
+  const result = await cancelSubscription(new URL(request.url).searchParams.get('token') ?? undefined);
+  if (result.status === 'invalidToken') {
+    return NextResponse.json<NewsletterResponse>({ ok: false, error: 'invalidToken' }, { status: 400 });
+  }
+  if (result.status === 'failed') {
+    return NextResponse.json<NewsletterResponse>({ ok: false, error: 'delivery' }, { status: 502 });
+  }
+
+  return NextResponse.json<NewsletterResponse>({ ok: true });
+}
@@ -1,48 +1,20 @@
 import { MetadataRoute } from 'next';
-import { locales } from '@/lib/i18n/config';
+import { capabilities, getCapabilityPath } from '@/lib/capabilities/definitions';
+import { getArticles } from '@/lib/content';
+import { getRouteRegistry } from '@/lib/routes/registry';
+import { getSectorPath, sectors } from '@/lib/sectors/sectors';
+import { buildSitemap } from '@/lib/seo/sitemap';
 
-const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://dualys.eu';
-
-const routes = [
-  '',
-  '/about',
-  '/about/team',
-  '/about/partners',
-  '/capabilities',
-  '/capabilities/defense',
-  '/capabilities/cybersecurity',
-  '/capabilities/biosecurity',
-  '/capabilities/dual-use',
-  '/sectors',
-  '/news',
-  '/contact',
-];
-
-export default function sitemap(): MetadataRoute.Sitemap {
-  const sitemapEntries: MetadataRoute.Sitemap = [];
-
-  for (const route of routes) {
-    for (const locale of locales) {
-      const url = `${baseUrl}/${locale}${route}`;
-
-      // Create alternates for all languages
-      const alternates: Record<string, string> = {};
-      for (const altLocale of locales) {
-        alternates[altLocale] = `${baseUrl}/${altLocale}${route}`;
-      }
-      alternates['x-default'] = `${baseUrl}/en${route}`;
-
-      sitemapEntries.push({
-        url,
-        lastModified: new Date(),
-        changeFrequency: route === '' ? 'weekly' : 'monthly',
-        priority: route === '' ? 1 : route.includes('/capabilities') ? 0.9 : 0.8,
-        alternates: {
-          languages: alternates,
-        },
-      });
-    }
-  }
-
-  return sitemapEntries;
+// Routes, priorities and change frequencies come from route-registry.yaml
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  return buildSitemap(getRouteRegistry().routes, {
+    resolvers: {
+      '/capabilities/[capability]': async () => capabilities.map(({ slug }) => ({ path: getCapabilityPath(slug) })),
+      '/sectors/[sector]': async () => sectors.map((sector) => ({ path: getSectorPath(sector) })),
+      '/news/[slug]': async (locale) => (await getArticles(locale)).map((article) => ({
+        path: `/news/${article.slug}`,
+        lastModified: new Date(article.updatedAt ?? article.publishedAt),
+      })),
+    },
+  });
 }
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useLocale } from 'next-intl';
+import { useConsent } from '@/hooks/useConsent';
+import { sendEvent, setTrackingLocale, stripLocale } from '@/lib/analytics/track';
+import type { Locale } from '@/lib/i18n/config';
+import { usePathname } from '@/lib/i18n/client-navigation';
+
+interface AnalyticsProps {
+  // Destinations from cta-registry.yaml, read on the server
+  ctaDestinations: string[];
+}
+
+function externalReferrer(): string | undefined {
+  try {
+    const { hostname } = new URL(document.referrer);
+    return hostname !== window.location.hostname ? hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Automatic page-view and CTA-click events. Renders nothing and stays
+ * idle until the visitor grants analytics consent.
+ */
+export function Analytics({ ctaDestinations }: AnalyticsProps) {
+  const locale = useLocale() as Locale;
+  const pathname = usePathname();
+  const { ready, hasConsent } = useConsent();
+  const allowed = ready && hasConsent('analytics');
+  // The referrer only describes how the visit started
+  const landed = useRef(false);
+
+  useEffect(() => {
+    setTrackingLocale(locale);
+  }, [locale]);
+
+  useEffect(() => {
+    if (!allowed) {
+      return;
+    }
+    sendEvent({ type: 'pageview', path: pathname, referrer: landed.current ? undefined : externalReferrer() });
+    landed.current = true;
+  }, [allowed, pathname]);
+
+  useEffect(() => {
+    if (!allowed) {
+      return;
+    }
+    const destinations = new Set(ctaDestinations);
+
+    // Only links in page content count; header and footer navigation are not CTAs
+    function handleClick(event: MouseEvent) {
+      const anchor = (event.target as Element | null)?.closest?.('main a[href]') as HTMLAnchorElement | null;
+      if (!anchor) {
+        return;
+      }
+      const url = new URL(anchor.href, window.location.href);
+      const destination = stripLocale(url.pathname);
+      if (url.origin !== window.location.origin || !destinations.has(destination)) {
+        return;
+      }
+      sendEvent({
+        type: 'cta_click',
+        path: stripLocale(window.location.pathname),
+        destination,
+        topic: url.searchParams.get('topic') ?? undefined,
+      });
+    }
+
+    document.addEventListener('click', handleClick, true);
+    return () => document.removeEventListener('click', handleClick, true);
+  }, [allowed, ctaDestinations]);
+
+  return null;
+}
@@ -0,0 +1 @@
+export { Analytics } from './Analytics';
@@ -0,0 +1,72 @@
+'use client';
+
+import { createContext, useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  createConsent,
+  hasConsent as hasCategoryConsent,
+  readConsentCookie,
+  writeConsentCookie,
+  type ConsentCategory,
+  type ConsentChoices,
+  type ConsentState,
+} from '@/lib/consent/consent';
+import { CookieBanner } from './CookieBanner';
+import { CookiePreferences } from './CookiePreferences';
+
+export const CONSENT_CHANGE_EVENT = 'dualys:consent-change';
+
+export interface ConsentContextValue {
+  // Undefined until the visitor decides (or after a policy version bump)
+  consent: ConsentState | undefined;
+  // False until the cookie has been read on the client
+  ready: boolean;
+  hasConsent: (category: ConsentCategory) => boolean;
+  save: (choices: ConsentChoices) => void;
+  acceptAll: () => void;
+  rejectAll: () => void;
+  openPreferences: () => void;
+}
+
+export const ConsentContext = createContext<ConsentContextValue | null>(null);
+
+/**
+ * Holds the visitor's cookie consent and renders the banner until a
+ * choice is stored, plus the preferences dialog (reopened from the footer).
+ */
+export function ConsentProvider({ children }: { children: ReactNode }) {
+  const [consent, setConsent] = useState<ConsentState>();
+  const [ready, setReady] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  useEffect(() => {
+    setConsent(readConsentCookie());
+    setReady(true);
+  }, []);
+
+  const save = useCallback((choices: ConsentChoices) => {
+    const next = createConsent(choices);
+    writeConsentCookie(next);
+    setConsent(next);
+    setPreferencesOpen(false);
+    // Lets non-React code (e.g. trackers) react without a reload
+    window.dispatchEvent(new CustomEvent(CONSENT_CHANGE_EVENT, { detail: next }));
+  }, []);
+
+  const value = useMemo<ConsentContextValue>(() => ({
+    consent,
+    ready,
+    hasConsent: (category) => hasCategoryConsent(consent, category),
+    save,
+    acceptAll: () => save({ analytics: true, marketing: true }),
+    rejectAll: () => save({ analytics: false, marketing: false }),
+    openPreferences: () => setPreferencesOpen(true),
+  }), [consent, ready, save]);
+
+  return (
+    <ConsentContext.Provider value={value}>
+      {children}
+      {ready && !consent && !preferencesOpen && <CookieBanner />}
+      <CookiePreferences open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </ConsentContext.Provider>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Container } from '@/components/ui/container';
+import { useConsent } from '@/hooks/useConsent';
+import { Link } from '@/lib/i18n/navigation';
+
+/**
+ * First-visit banner. Accept and reject are equally prominent so
+ * refusing is as easy as consenting.
+ */
+export function CookieBanner() {
+  const t = useTranslations('consent');
+  const { acceptAll, rejectAll, openPreferences } = useConsent();
+
+  return (
+    <section
+      role="region"
+      aria-labelledby="cookie-banner-title"
+      className="fixed inset-x-0 bottom-0 z-40 border-t border-neutral-200 bg-white shadow-2xl"
+    >
+      <Container className="flex flex-col gap-4 py-5 md:flex-row md:items-center md:justify-between">
+        <div className="max-w-2xl">
+          <h2 id="cookie-banner-title" className="text-base font-semibold text-neutral-900">
+            {t('banner.title')}
+          </h2>
+          <p className="mt-1 text-sm text-neutral-600">
+            {t('banner.text')}{' '}
+            <Link href="/legal/cookies" className="font-medium text-primary-500 underline underline-offset-4 hover:text-primary-600">
+              {t('banner.policy')}
+            </Link>
+          </p>
+        </div>
+        <div className="flex flex-shrink-0 flex-wrap gap-3">
+          <Button variant="ghost" onClick={openPreferences}>
+            {t('customize')}
+          </Button>
+          <Button variant="outline" onClick={rejectAll}>
+            {t('rejectAll')}
+          </Button>
+          <Button onClick={acceptAll}>
+            {t('acceptAll')}
+          </Button>
+        </div>
+      </Container>
+    </section>
+  );
+}
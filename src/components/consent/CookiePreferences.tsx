@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useTranslations } from 'next-intl';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useConsent } from '@/hooks/useConsent';
+import { consentCategories, type ConsentChoices } from '@/lib/consent/consent';
+
+interface CookiePreferencesProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Per-category consent dialog. Necessary cookies are listed but cannot be
+ * switched off; optional categories start from the stored choice (off if none).
+ */
+export function CookiePreferences({ open, onOpenChange }: CookiePreferencesProps) {
+  const t = useTranslations('consent');
+  const { consent, save, acceptAll, rejectAll } = useConsent();
+  const [choices, setChoices] = useState<ConsentChoices>({ analytics: false, marketing: false });
+
+  useEffect(() => {
+    if (open) {
+      setChoices({ analytics: consent?.analytics ?? false, marketing: consent?.marketing ?? false });
+    }
+  }, [open, consent]);
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-neutral-900/50 backdrop-blur-sm" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 max-h-[90vh] w-[calc(100%-2rem)] max-w-lg -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xl bg-white p-6 shadow-2xl">
+          <div className="flex items-start justify-between gap-4">
+            <Dialog.Title className="text-lg font-semibold text-neutral-900">
+              {t('preferences.title')}
+            </Dialog.Title>
+            <Dialog.Close className="rounded-md p-1 text-neutral-400 hover:text-neutral-900">
+              <X className="h-5 w-5" />
+              <span className="sr-only">{t('preferences.close')}</span>
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="mt-2 text-sm text-neutral-600">
+            {t('preferences.description')}
+          </Dialog.Description>
+
+          <ul className="mt-6 divide-y divide-neutral-200 border-y border-neutral-200">
+            {consentCategories.map((category) => {
+              const id = `cookie-category-${category}`;
+              const locked = category === 'necessary';
+              return (
+                <li key={category} className="flex items-start justify-between gap-4 py-4">
+                  <div>
+                    <label htmlFor={id} className="font-medium text-neutral-900">
+                      {t(`categories.${category}.title`)}
+                    </label>
+                    <p className="mt-1 text-sm text-neutral-600">{t(`categories.${category}.description`)}</p>
+                    {locked && <p className="mt-1 text-xs font-medium text-neutral-500">{t('alwaysActive')}</p>}
+                  </div>
+                  <input
+                    id={id}
+                    type="checkbox"
+                    checked={locked || choices[category]}
+                    disabled={locked}
+                    onChange={(event) => {
+                      if (!locked) {
+                        setChoices((current) => ({ ...current, [category]: event.target.checked }));
+                      }
+                    }}
+                    className="mt-1 h-5 w-5 flex-shrink-0 rounded border-neutral-300 text-primary-500 focus:ring-primary-500 disabled:opacity-60"
+                  />
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="mt-6 flex flex-wrap justify-end gap-3">
+            <Button variant="outline" onClick={rejectAll}>
+              {t('rejectAll')}
+            </Button>
+            <Button variant="outline" onClick={acceptAll}>
+              {t('acceptAll')}
+            </Button>
+            <Button onClick={() => save(choices)}>
+              {t('preferences.save')}
+            </Button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
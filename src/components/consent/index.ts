@@ -0,0 +1,3 @@
+export { ConsentProvider } from './ConsentProvider';
+export { CookieBanner } from './CookieBanner';
+export { CookiePreferences } from './CookiePreferences';
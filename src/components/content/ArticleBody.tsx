@@ -0,0 +1,94 @@
+import type { ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { documentToReactComponents, type Options } from '@contentful/rich-text-react-renderer';
+import { BLOCKS, INLINES } from '@contentful/rich-text-types';
+import type { ArticleBody as ArticleBodyContent } from '@/lib/content';
+import { cn } from '@/lib/utils';
+
+interface ArticleBodyProps {
+  body: ArticleBodyContent;
+  className?: string;
+}
+
+// Shared typography so Markdown and Contentful articles look identical
+const styles = {
+  h2: 'mt-10 mb-4 text-2xl font-bold text-neutral-900',
+  h3: 'mt-8 mb-3 text-xl font-semibold text-neutral-900',
+  p: 'mb-5 leading-relaxed text-neutral-700',
+  ul: 'mb-5 list-disc space-y-2 pl-6 text-neutral-700',
+  ol: 'mb-5 list-decimal space-y-2 pl-6 text-neutral-700',
+  blockquote: 'my-6 border-l-4 border-accent-500 pl-4 italic text-neutral-600',
+  a: 'font-medium text-primary-500 underline underline-offset-4 hover:text-primary-600',
+  hr: 'my-10 border-neutral-200',
+};
+
+function ExternalAwareLink({ href, children }: { href?: string; children: ReactNode }) {
+  const external = href?.startsWith('http');
+  return (
+    <a
+      href={href}
+      className={styles.a}
+      {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+    >
+      {children}
+    </a>
+  );
+}
+
+const markdownComponents: Components = {
+  // Article titles are the page h1, so Markdown headings start one level lower
+  h1: ({ children }) => <h2 className={styles.h2}>{children}</h2>,
+  h2: ({ children }) => <h2 className={styles.h2}>{children}</h2>,
+  h3: ({ children }) => <h3 className={styles.h3}>{children}</h3>,
+  p: ({ children }) => <p className={styles.p}>{children}</p>,
+  ul: ({ children }) => <ul className={styles.ul}>{children}</ul>,
+  ol: ({ children }) => <ol className={styles.ol}>{children}</ol>,
+  blockquote: ({ children }) => <blockquote className={styles.blockquote}>{children}</blockquote>,
+  a: ({ href, children }) => <ExternalAwareLink href={href}>{children}</ExternalAwareLink>,
+  hr: () => <hr className={styles.hr} />,
+};
+
+const richTextOptions: Options = {
+  renderNode: {
+    [BLOCKS.HEADING_1]: (_node, children) => <h2 className={styles.h2}>{children}</h2>,
+    [BLOCKS.HEADING_2]: (_node, children) => <h2 className={styles.h2}>{children}</h2>,
+    [BLOCKS.HEADING_3]: (_node, children) => <h3 className={styles.h3}>{children}</h3>,
+    [BLOCKS.PARAGRAPH]: (_node, children) => <p className={styles.p}>{children}</p>,
+    [BLOCKS.UL_LIST]: (_node, children) => <ul className={styles.ul}>{children}</ul>,
+    [BLOCKS.OL_LIST]: (_node, children) => <ol className={styles.ol}>{children}</ol>,
+    [BLOCKS.QUOTE]: (_node, children) => <blockquote className={styles.blockquote}>{children}</blockquote>,
+    [BLOCKS.HR]: () => <hr className={styles.hr} />,
+    [BLOCKS.EMBEDDED_ASSET]: (node) => {
+      const file = node.data.target?.fields?.file;
+      if (!file?.url) {
+        return null;
+      }
+      return (
+        <img
+          src={`https:${file.url}`}
+          alt={node.data.target.fields.description ?? ''}
+          className="my-8 w-full rounded-xl"
+        />
+      );
+    },
+    [INLINES.HYPERLINK]: (node, children) => (
+      <ExternalAwareLink href={node.data.uri}>{children}</ExternalAwareLink>
+    ),
+  },
+};
+
+/**
+ * Renders an article body from either content source:
+ * Markdown from the local content directory or Contentful rich text.
+ */
+export function ArticleBody({ body, className }: ArticleBodyProps) {
+  return (
+    <div className={cn('text-lg', className)}>
+      {body.format === 'markdown' ? (
+        <ReactMarkdown components={markdownComponents}>{body.source}</ReactMarkdown>
+      ) : (
+        documentToReactComponents(body.document, richTextOptions)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Calendar, ArrowRight } from 'lucide-react';
+import { Link } from '@/lib/i18n/navigation';
+import { cn } from '@/lib/utils';
+
+interface ArticleCardProps {
+  slug: string;
+  title: string;
+  excerpt: string;
+  image?: string;
+  // Already localized by the calling page
+  categoryLabel: string;
+  dateLabel: string;
+  readMoreLabel: string;
+  // Wide two-column layout for the featured slot, with a badge
+  variant?: 'default' | 'featured';
+  featuredLabel?: string;
+  className?: string;
+}
+
+export function ArticleCard({
+  slug,
+  title,
+  excerpt,
+  image,
+  categoryLabel,
+  dateLabel,
+  readMoreLabel,
+  variant = 'default',
+  featuredLabel,
+  className,
+}: ArticleCardProps) {
+  const featured = variant === 'featured';
+
+  return (
+    <article
+      className={cn(
+        'group rounded-xl border border-neutral-200 bg-white shadow-sm transition-all hover:border-primary-200 hover:shadow-md card-equal',
+        className
+      )}
+    >
+      <Link href={`/news/${slug}`} className={cn('flex h-full flex-col', featured && 'lg:grid lg:grid-cols-2')}>
+        <div
+          className={cn(
+            'aspect-video w-full overflow-hidden rounded-t-xl bg-neutral-100 flex items-center justify-center',
+            featured && 'lg:aspect-auto lg:h-full lg:rounded-l-xl lg:rounded-tr-none'
+          )}
+        >
+          {image ? (
+            <img src={image} alt="" className="h-full w-full object-cover" />
+          ) : (
+            <span className="text-4xl font-bold text-neutral-200">News</span>
+          )}
+        </div>
+        <div className={cn('p-6', featured && 'lg:flex lg:flex-col lg:justify-center lg:p-10')}>
+          <div className="mb-3 flex items-center gap-3">
+            {featured && featuredLabel && (
+              <span className="rounded-full bg-accent-500 px-3 py-1 text-xs font-medium text-white">
+                {featuredLabel}
+              </span>
+            )}
+            <span className="rounded-full bg-primary-50 px-3 py-1 text-xs font-medium text-primary-600">
+              {categoryLabel}
+            </span>
+            <span className="flex items-center gap-1 text-xs text-neutral-500">
+              <Calendar className="h-3 w-3" />
+              {dateLabel}
+            </span>
+          </div>
+          <h2
+            className={cn(
+              'mb-2 font-semibold text-neutral-900 group-hover:text-primary-500',
+              featured ? 'text-2xl md:text-3xl' : 'text-lg'
+            )}
+          >
+            {title}
+          </h2>
+          <p className={cn('mb-4 text-neutral-600', featured ? 'text-base line-clamp-3' : 'text-sm line-clamp-2')}>
+            {excerpt}
+          </p>
+          <span className="inline-flex items-center text-sm font-medium text-primary-500 transition-colors group-hover:text-primary-600">
+            {readMoreLabel}
+            <ArrowRight className="ml-1 h-4 w-4 transition-transform group-hover:translate-x-1" />
+          </span>
+        </div>
+      </Link>
+    </article>
+  );
+}
@@ -1,17 +1,14 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { ArrowRight, Shield, Lock, HeartPulse, Layers, Target, Globe, Lightbulb, Handshake, type LucideIcon } from 'lucide-react';
+import { ArrowRight, Shield, Globe, Lightbulb, Handshake, type LucideIcon } from 'lucide-react';
 import { Link } from '@/lib/i18n/navigation';
 import { cn } from '@/lib/utils';
+import { capabilityIcons } from './capabilityIcons';
 
 // Map of icon names to components
 const iconMap: Record<string, LucideIcon> = {
-  Shield,
-  Lock,
-  HeartPulse,
-  Layers,
-  Target,
+  ...capabilityIcons,
   Globe,
   Lightbulb,
   Handshake,
@@ -0,0 +1,145 @@
+import { getTranslations } from 'next-intl/server';
+import { Container } from '@/components/ui/container';
+import { ArticleCard } from './ArticleCard';
+import { Pagination } from './Pagination';
+import {
+  articleCategories,
+  getNewsPath,
+  type ArchiveYear,
+  type NewsFilter,
+  type NewsListing,
+} from '@/lib/content';
+import { Link } from '@/lib/i18n/navigation';
+import type { Locale } from '@/lib/i18n/config';
+import { cn, formatDate, formatMonth } from '@/lib/utils';
+
+interface NewsIndexProps {
+  locale: Locale;
+  listing: NewsListing;
+  archive: ArchiveYear[];
+  filter?: NewsFilter;
+}
+
+/**
+ * Body of every news listing route (index, category, archive):
+ * category chips, featured slot, article grid, pagination and archive.
+ */
+export async function NewsIndex({ locale, listing, archive, filter = {} }: NewsIndexProps) {
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+
+  const chipClass = 'rounded-full border px-4 py-2 text-sm font-medium transition-colors';
+  const chips = [
+    { label: t('filter.all'), href: getNewsPath(), active: !filter.category && !filter.year },
+    ...articleCategories.map((category) => ({
+      label: t(`categories.${category}`),
+      href: getNewsPath({ category }),
+      active: filter.category === category,
+    })),
+  ];
+
+  return (
+    <section className="py-16 md:py-24">
+      <Container>
+        {/* Category filter */}
+        <nav aria-label={t('filter.label')} className="mb-12 flex flex-wrap gap-3">
+          {chips.map((chip) => (
+            <Link
+              key={chip.href}
+              href={chip.href}
+              aria-current={chip.active ? 'page' : undefined}
+              className={cn(
+                chipClass,
+                chip.active
+                  ? 'border-primary-500 bg-primary-500 text-white'
+                  : 'border-neutral-200 text-neutral-600 hover:border-primary-200 hover:text-primary-500'
+              )}
+            >
+              {chip.label}
+            </Link>
+          ))}
+        </nav>
+
+        {/* Featured slot */}
+        {listing.featured && (
+          <ArticleCard
+            variant="featured"
+            featuredLabel={t('featured')}
+            slug={listing.featured.slug}
+            title={listing.featured.title}
+            excerpt={listing.featured.excerpt}
+            image={listing.featured.image}
+            categoryLabel={t(`categories.${listing.featured.category}`)}
+            dateLabel={formatDate(listing.featured.publishedAt, locale)}
+            readMoreLabel={t('readMore')}
+            className="mb-12"
+          />
+        )}
+
+        {listing.items.length === 0 && !listing.featured && (
+          <p className="text-center text-neutral-600">{t('empty')}</p>
+        )}
+        <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3 card-grid">
+          {listing.items.map((article) => (
+            <ArticleCard
+              key={article.slug}
+              slug={article.slug}
+              title={article.title}
+              excerpt={article.excerpt}
+              image={article.image}
+              categoryLabel={t(`categories.${article.category}`)}
+              dateLabel={formatDate(article.publishedAt, locale)}
+              readMoreLabel={t('readMore')}
+            />
+          ))}
+        </div>
+
+        <Pagination
+          page={listing.page}
+          totalPages={listing.totalPages}
+          locale={locale}
+          getHref={(page) => getNewsPath(filter, page)}
+          labels={{
+            navigation: t('pagination.label'),
+            previous: t('pagination.previous'),
+            next: t('pagination.next'),
+            page: (page) => t('pagination.page', { page }),
+          }}
+          className="mt-12"
+        />
+
+        {/* Year / month archive */}
+        {archive.length > 0 && (
+          <nav aria-label={t('archive.title')} className="mt-16 border-t border-neutral-200 pt-10">
+            <h2 className="mb-6 text-lg font-semibold text-neutral-900">{t('archive.title')}</h2>
+            <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+              {archive.map(({ year, count, months }) => (
+                <li key={year}>
+                  <Link
+                    href={getNewsPath({ year })}
+                    aria-current={filter.year === year && !filter.month ? 'page' : undefined}
+                    className="font-semibold text-neutral-900 hover:text-primary-500"
+                  >
+                    {year} <span className="text-sm font-normal text-neutral-500">({count})</span>
+                  </Link>
+                  <ul className="mt-2 space-y-1">
+                    {months.map(({ month, count: monthCount }) => (
+                      <li key={month}>
+                        <Link
+                          href={getNewsPath({ year, month })}
+                          aria-current={filter.year === year && filter.month === month ? 'page' : undefined}
+                          className="text-sm text-neutral-600 hover:text-primary-500"
+                        >
+                          {formatMonth(year, month, locale)} ({monthCount})
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+      </Container>
+    </section>
+  );
+}
@@ -0,0 +1,75 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { Locale } from '@/lib/i18n/config';
+import { Link } from '@/lib/i18n/navigation';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
+import { cn } from '@/lib/utils';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  locale: string;
+  // Locale-relative path of a given page, e.g. (2) => '/news/page/2'
+  getHref: (page: number) => string;
+  // Already localized by the calling page
+  labels: { navigation: string; previous: string; next: string; page: (page: number) => string };
+  className?: string;
+}
+
+/**
+ * Server-rendered page links. Also emits <link rel="prev|next">,
+ * which React hoists into the document head for crawlers.
+ */
+export function Pagination({ page, totalPages, locale, getHref, labels, className }: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const pages = Array.from({ length: totalPages }, (_, index) => index + 1);
+  const linkClass = 'flex h-10 min-w-10 items-center justify-center rounded-lg border px-3 text-sm font-medium transition-colors';
+
+  return (
+    <>
+      {page > 1 && <link rel="prev" href={getLocalizedHref(getHref(page - 1), locale as Locale)} />}
+      {page < totalPages && <link rel="next" href={getLocalizedHref(getHref(page + 1), locale as Locale)} />}
+
+      <nav aria-label={labels.navigation} className={cn('flex items-center justify-center gap-2', className)}>
+        {page > 1 && (
+          <Link
+            href={getHref(page - 1)}
+            rel="prev"
+            className={cn(linkClass, 'border-neutral-200 text-neutral-600 hover:border-primary-200 hover:text-primary-500')}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">{labels.previous}</span>
+          </Link>
+        )}
+        {pages.map((number) => (
+          <Link
+            key={number}
+            href={getHref(number)}
+            aria-label={labels.page(number)}
+            aria-current={number === page ? 'page' : undefined}
+            className={cn(
+              linkClass,
+              number === page
+                ? 'border-primary-500 bg-primary-500 text-white'
+                : 'border-neutral-200 text-neutral-600 hover:border-primary-200 hover:text-primary-500'
+            )}
+          >
+            {number}
+          </Link>
+        ))}
+        {page < totalPages && (
+          <Link
+            href={getHref(page + 1)}
+            rel="next"
+            className={cn(linkClass, 'border-neutral-200 text-neutral-600 hover:border-primary-200 hover:text-primary-500')}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">{labels.next}</span>
+          </Link>
+        )}
+      </nav>
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { FileText, Newspaper } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { Link } from '@/lib/i18n/navigation';
+import type { SearchResult } from '@/lib/search/search';
+import { cn } from '@/lib/utils';
+
+interface SearchResultListProps {
+  results: SearchResult[];
+  // Called when a result is followed, e.g. to close the search dialog
+  onNavigate?: () => void;
+  compact?: boolean;
+  className?: string;
+}
+
+export function SearchResultList({ results, onNavigate, compact = false, className }: SearchResultListProps) {
+  const t = useTranslations('search');
+
+  return (
+    <ul className={cn('divide-y divide-neutral-200', className)}>
+      {results.map(({ document, snippet }) => {
+        const Icon = document.type === 'article' ? Newspaper : FileText;
+        return (
+          <li key={document.id}>
+            <Link
+              href={document.path}
+              onClick={onNavigate}
+              className={cn('group flex gap-4 transition-colors hover:bg-neutral-50', compact ? 'p-3' : 'px-4 py-5')}
+            >
+              <Icon className="mt-1 h-5 w-5 flex-shrink-0 text-neutral-400" aria-hidden="true" />
+              <div className="min-w-0">
+                <span className="text-xs font-medium uppercase tracking-wider text-neutral-500">
+                  {t(`types.${document.type}`)}
+                </span>
+                <h3 className="font-semibold text-neutral-900 group-hover:text-primary-500">{document.title}</h3>
+                {snippet.length > 0 && (
+                  <p className={cn('mt-1 text-sm text-neutral-600', compact && 'line-clamp-2')}>
+                    {snippet.map((part, index) =>
+                      part.match ? (
+                        <mark key={index} className="rounded bg-accent-500/15 px-0.5 text-neutral-900">
+                          {part.text}
+                        </mark>
+                      ) : (
+                        <span key={index}>{part.text}</span>
+                      )
+                    )}
+                  </p>
+                )}
+              </div>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useSearchIndex } from '@/hooks/useSearchIndex';
+import type { Locale } from '@/lib/i18n/config';
+import { useRouter } from '@/lib/i18n/client-navigation';
+import { search } from '@/lib/search/search';
+import { SearchResultList } from './SearchResultList';
+
+/**
+ * Full search page body. The query lives in `?q=` so result pages are
+ * shareable and match the WebSite SearchAction in the structured data.
+ */
+export function SearchResults() {
+  const t = useTranslations('search');
+  const locale = useLocale() as Locale;
+  const router = useRouter();
+  const query = useSearchParams().get('q') ?? '';
+  const [input, setInput] = useState(query);
+  const { documents, status } = useSearchIndex(locale);
+
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const results = useMemo(
+    () => (documents ? search(documents, query, locale) : []),
+    [documents, query, locale]
+  );
+
+  const onSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const q = input.trim();
+    router.replace(q ? `/search?q=${encodeURIComponent(q)}` : '/search');
+  };
+
+  return (
+    <div>
+      <form role="search" onSubmit={onSubmit} className="flex gap-3">
+        <label htmlFor="search-query" className="sr-only">
+          {t('label')}
+        </label>
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-neutral-400" />
+          <input
+            id="search-query"
+            type="search"
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder={t('placeholder')}
+            autoFocus
+            className="w-full rounded-lg border border-neutral-200 py-3 pl-12 pr-4 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+        </div>
+        <Button type="submit" size="lg">
+          {t('submit')}
+        </Button>
+      </form>
+
+      <div className="mt-8" aria-live="polite">
+        {status === 'error' && <p className="text-destructive">{t('error')}</p>}
+        {status === 'loading' && query && <p className="text-neutral-500">{t('loading')}</p>}
+        {status === 'ready' && !query && <p className="text-neutral-500">{t('hint')}</p>}
+        {status === 'ready' && query && (
+          <>
+            <p className="mb-4 text-sm text-neutral-500">
+              {results.length > 0 ? t('count', { count: results.length, query }) : t('empty', { query })}
+            </p>
+            {results.length > 0 && (
+              <SearchResultList results={results} className="rounded-xl border border-neutral-200" />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
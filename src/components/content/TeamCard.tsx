@@ -27,6 +27,7 @@ export function TeamCard({
 }: TeamCardProps) {
   return (
     <motion.div
+      data-testid="team-card"
       initial={{ opacity: 0, y: 20 }}
       whileInView={{ opacity: 1, y: 0 }}
       viewport={{ once: true }}
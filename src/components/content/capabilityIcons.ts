@@ -0,0 +1,52 @@
+import {
+  Activity,
+  AlertTriangle,
+  Building2,
+  Cpu,
+  Eye,
+  Flame,
+  FlaskConical,
+  HeartPulse,
+  Key,
+  Layers,
+  Lock,
+  Microscope,
+  Mountain,
+  Network,
+  Plane,
+  Radio,
+  Server,
+  Shield,
+  ShieldCheck,
+  Syringe,
+  Target,
+  Waves,
+  type LucideIcon,
+} from 'lucide-react';
+import type { CapabilityIconKey } from '@/lib/capabilities/definitions';
+
+// Lucide component for every icon key a capability definition may use
+export const capabilityIcons: Record<CapabilityIconKey, LucideIcon> = {
+  Activity,
+  AlertTriangle,
+  Building2,
+  Cpu,
+  Eye,
+  Flame,
+  FlaskConical,
+  HeartPulse,
+  Key,
+  Layers,
+  Lock,
+  Microscope,
+  Mountain,
+  Network,
+  Plane,
+  Radio,
+  Server,
+  Shield,
+  ShieldCheck,
+  Syringe,
+  Target,
+  Waves,
+};
@@ -2,3 +2,9 @@ export { PageHeader } from './PageHeader';
 export { Breadcrumbs } from './Breadcrumbs';
 export { CapabilityCard } from './CapabilityCard';
 export { TeamCard } from './TeamCard';
+export { ArticleCard } from './ArticleCard';
+export { ArticleBody } from './ArticleBody';
+export { Pagination } from './Pagination';
+export { NewsIndex } from './NewsIndex';
+export { SearchResultList } from './SearchResultList';
+export { SearchResults } from './SearchResults';
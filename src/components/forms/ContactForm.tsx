@@ -1,49 +1,95 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { Send, CheckCircle, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useFormToken } from '@/hooks/useFormToken';
+import { track } from '@/lib/analytics/track';
+import {
+  contactSchema,
+  type ContactField,
+  type ContactFormData,
+  type ContactResponse,
+  type ContactSubmission,
+} from '@/lib/contact/schema';
+import {
+  defaultTopic,
+  inquiryTopics,
+  isInquiryTopic,
+  organizationTypes,
+  topicFields,
+  type InquiryTopic,
+} from '@/lib/contact/topics';
+import { messageKey } from '@/lib/i18n/messages';
 import { cn } from '@/lib/utils';
-
-const contactSchema = z.object({
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  email: z.string().email('Please enter a valid email address'),
-  organization: z.string().optional(),
-  subject: z.string().min(5, 'Subject must be at least 5 characters'),
-  message: z.string().min(20, 'Message must be at least 20 characters'),
-});
-
-type ContactFormData = z.infer<typeof contactSchema>;
+import { HoneypotField } from './HoneypotField';
 
 interface ContactFormProps {
+  // Preselected inquiry topic, e.g. from the page's `?topic=` query param
+  topic?: InquiryTopic;
   className?: string;
 }
 
-export function ContactForm({ className }: ContactFormProps) {
+export function ContactForm({ topic = defaultTopic, className }: ContactFormProps) {
   const t = useTranslations('contact.form');
+  const locale = useLocale();
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [errorCode, setErrorCode] = useState<'error' | 'rateLimited'>('error');
+  const { token, refresh: refreshToken } = useFormToken();
+  const honeypotRef = useRef<HTMLInputElement>(null);
 
   const {
     register,
     handleSubmit,
     reset,
+    setError,
+    watch,
     formState: { errors, isSubmitting },
-  } = useForm<ContactFormData>({
+  } = useForm<ContactFormData, unknown, ContactSubmission>({
     resolver: zodResolver(contactSchema),
+    defaultValues: { topic },
   });
 
-  const onSubmit = async (data: ContactFormData) => {
+  const selectedTopic = watch('topic') ?? topic;
+  const extraFields = topicFields[isInquiryTopic(selectedTopic) ? selectedTopic : defaultTopic];
+
+  const onSubmit = async (data: ContactSubmission) => {
     try {
-      // Simulate form submission - in production, this would call an API
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      console.log('Form submitted:', data);
-      setSubmitStatus('success');
-      reset();
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          locale,
+          website: honeypotRef.current?.value,
+          formToken: token,
+        }),
+      });
+      const result = (await response.json()) as ContactResponse;
+      // Tokens are single-use in spirit: fetch a new one for the next attempt
+      refreshToken();
+
+      if (result.ok) {
+        // Final step of the conversion funnels (see lib/analytics/funnel.ts)
+        track('contact_submitted', { topic: data.topic });
+        setSubmitStatus('success');
+        reset();
+        return;
+      }
+
+      // Map server-side validation errors back onto the form fields
+      if (result.fieldErrors) {
+        for (const [field, code] of Object.entries(result.fieldErrors)) {
+          setError(field as ContactField, { type: 'server', message: code });
+        }
+      }
+      setErrorCode(result.error === 'rateLimited' ? 'rateLimited' : 'error');
+      setSubmitStatus(result.error === 'validation' ? 'idle' : 'error');
     } catch {
+      setErrorCode('error');
       setSubmitStatus('error');
     }
   };
@@ -52,14 +98,14 @@ export function ContactForm({ className }: ContactFormProps) {
     return (
       <div className={cn('rounded-xl border border-success/30 bg-success/10 p-8 text-center', className)}>
         <CheckCircle className="mx-auto mb-4 h-12 w-12 text-success" />
-        <h3 className="mb-2 text-xl font-semibold text-neutral-900">Message Sent!</h3>
-        <p className="text-neutral-700">Thank you for contacting us. We will get back to you shortly.</p>
+        <h3 className="mb-2 text-xl font-semibold text-neutral-900">{t('success.title')}</h3>
+        <p className="text-neutral-700">{t('success.text')}</p>
         <Button
           variant="outline"
           className="mt-4"
           onClick={() => setSubmitStatus('idle')}
         >
-          Send Another Message
+          {t('success.again')}
         </Button>
       </div>
     );
@@ -73,10 +119,29 @@ export function ContactForm({ className }: ContactFormProps) {
       {submitStatus === 'error' && (
         <div className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-4 text-destructive">
           <AlertCircle className="h-5 w-5 flex-shrink-0" />
-          <p>Something went wrong. Please try again.</p>
+          <p>{t(errorCode)}</p>
         </div>
       )}
 
+      <HoneypotField ref={honeypotRef} />
+
+      <div>
+        <label htmlFor="topic" className="mb-2 block text-sm font-medium text-neutral-700">
+          {t('topic')} *
+        </label>
+        <select
+          {...register('topic')}
+          id="topic"
+          className="w-full rounded-lg border border-neutral-200 bg-white px-4 py-3 text-neutral-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        >
+          {inquiryTopics.map((value) => (
+            <option key={value} value={value}>
+              {t(`topics.${value}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
       <div className="grid gap-6 md:grid-cols-2">
         <div>
           <label htmlFor="name" className="mb-2 block text-sm font-medium text-neutral-700">
@@ -92,7 +157,7 @@ export function ContactForm({ className }: ContactFormProps) {
             )}
           />
           {errors.name && (
-            <p className="mt-1 text-sm text-destructive">{errors.name.message}</p>
+            <p className="mt-1 text-sm text-destructive">{t(messageKey('contact.form', `errors.${errors.name.message}`))}</p>
           )}
         </div>
 
@@ -110,7 +175,7 @@ export function ContactForm({ className }: ContactFormProps) {
             )}
           />
           {errors.email && (
-            <p className="mt-1 text-sm text-destructive">{errors.email.message}</p>
+            <p className="mt-1 text-sm text-destructive">{t(messageKey('contact.form', `errors.${errors.email.message}`))}</p>
           )}
         </div>
       </div>
@@ -127,6 +192,74 @@ export function ContactForm({ className }: ContactFormProps) {
         />
       </div>
 
+      {/* Topic-specific fields */}
+      {(extraFields.includes('organizationType') || extraFields.includes('programName')) && (
+        <div className="grid gap-6 md:grid-cols-2">
+          {extraFields.includes('organizationType') && (
+            <div>
+              <label htmlFor="organizationType" className="mb-2 block text-sm font-medium text-neutral-700">
+                {t('organizationType')} *
+              </label>
+              <select
+                {...register('organizationType', { setValueAs: (value) => value || undefined })}
+                id="organizationType"
+                defaultValue=""
+                className={cn(
+                  'w-full rounded-lg border bg-white px-4 py-3 text-neutral-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500',
+                  errors.organizationType ? 'border-destructive/50' : 'border-neutral-200'
+                )}
+              >
+                <option value="" disabled>
+                  {t('selectPlaceholder')}
+                </option>
+                {organizationTypes.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`organizationTypes.${value}`)}
+                  </option>
+                ))}
+              </select>
+              {errors.organizationType && (
+                <p className="mt-1 text-sm text-destructive">{t(messageKey('contact.form', `errors.${errors.organizationType.message}`))}</p>
+              )}
+            </div>
+          )}
+
+          {extraFields.includes('programName') && (
+            <div>
+              <label htmlFor="programName" className="mb-2 block text-sm font-medium text-neutral-700">
+                {t('programName')}
+              </label>
+              <input
+                {...register('programName')}
+                type="text"
+                id="programName"
+                className="w-full rounded-lg border border-neutral-200 px-4 py-3 text-neutral-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {extraFields.includes('mediaOutlet') && (
+        <div>
+          <label htmlFor="mediaOutlet" className="mb-2 block text-sm font-medium text-neutral-700">
+            {t('mediaOutlet')} *
+          </label>
+          <input
+            {...register('mediaOutlet')}
+            type="text"
+            id="mediaOutlet"
+            className={cn(
+              'w-full rounded-lg border px-4 py-3 text-neutral-900 transition-colors focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500',
+              errors.mediaOutlet ? 'border-destructive/50' : 'border-neutral-200'
+            )}
+          />
+          {errors.mediaOutlet && (
+            <p className="mt-1 text-sm text-destructive">{t(messageKey('contact.form', `errors.${errors.mediaOutlet.message}`))}</p>
+          )}
+        </div>
+      )}
+
       <div>
         <label htmlFor="subject" className="mb-2 block text-sm font-medium text-neutral-700">
           {t('subject')} *
@@ -141,7 +274,7 @@ export function ContactForm({ className }: ContactFormProps) {
           )}
         />
         {errors.subject && (
-          <p className="mt-1 text-sm text-destructive">{errors.subject.message}</p>
+          <p className="mt-1 text-sm text-destructive">{t(messageKey('contact.form', `errors.${errors.subject.message}`))}</p>
         )}
       </div>
 
@@ -159,7 +292,7 @@ export function ContactForm({ className }: ContactFormProps) {
           )}
         />
         {errors.message && (
-          <p className="mt-1 text-sm text-destructive">{errors.message.message}</p>
+          <p className="mt-1 text-sm text-destructive">{t(messageKey('contact.form', `errors.${errors.message.message}`))}</p>
         )}
       </div>
 
@@ -170,7 +303,7 @@ export function ContactForm({ className }: ContactFormProps) {
         className="w-full md:w-auto"
       >
         {isSubmitting ? (
-          'Sending...'
+          t('sending')
         ) : (
           <>
             {t('submit')}
@@ -0,0 +1,24 @@
+import { forwardRef } from 'react';
+import { HONEYPOT_FIELD } from '@/lib/spam/fields';
+
+/**
+ * Visually hidden trap field. Real visitors never see or reach it
+ * (off-screen, skipped by tab order and assistive tech); bots that fill
+ * every input give themselves away.
+ */
+export const HoneypotField = forwardRef<HTMLInputElement>(function HoneypotField(_props, ref) {
+  return (
+    <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+      <label htmlFor={HONEYPOT_FIELD}>Leave this field empty</label>
+      <input
+        ref={ref}
+        type="text"
+        id={HONEYPOT_FIELD}
+        name={HONEYPOT_FIELD}
+        tabIndex={-1}
+        autoComplete="off"
+        defaultValue=""
+      />
+    </div>
+  );
+});
@@ -0,0 +1,50 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { confirmSubscriptionAction } from '@/lib/newsletter/actions';
+import { NewsletterStatus } from './NewsletterStatus';
+
+interface NewsletterConfirmFormProps {
+  token: string;
+  email: string;
+}
+
+/**
+ * Second step of the double opt-in. The subscription is stored when the
+ * button is pressed, never on opening the link; works without JavaScript.
+ */
+export function NewsletterConfirmForm({ token, email }: NewsletterConfirmFormProps) {
+  const t = useTranslations('newsletter');
+  const [result, formAction, pending] = useActionState(confirmSubscriptionAction, undefined);
+
+  if (!result) {
+    return (
+      <NewsletterStatus tone="prompt" title={t('confirm.prompt.title')} text={t('confirm.prompt.text', { email })} backLabel={t('back')}>
+        <form action={formAction}>
+          <input type="hidden" name="token" value={token} />
+          <Button type="submit" size="lg" className="mt-8" disabled={pending}>
+            {pending ? t('confirm.prompt.pending') : t('confirm.prompt.button')}
+          </Button>
+        </form>
+      </NewsletterStatus>
+    );
+  }
+
+  if (result.status !== 'confirmed') {
+    return (
+      <NewsletterStatus tone="error" title={t(`confirm.${result.status}.title`)} text={t(`confirm.${result.status}.text`)} backLabel={t('back')} />
+    );
+  }
+
+  return (
+    <NewsletterStatus tone="success" title={t('confirm.confirmed.title')} text={t('confirm.confirmed.text', { email: result.email })} backLabel={t('back')}>
+      <p className="mt-6 text-sm">
+        <a href={result.unsubscribeUrl} className="text-neutral-500 underline underline-offset-4 hover:text-primary-500">
+          {t('confirm.confirmed.unsubscribe')}
+        </a>
+      </p>
+    </NewsletterStatus>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useLocale, useTranslations } from 'next-intl';
+import { AlertCircle, MailCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useFormToken } from '@/hooks/useFormToken';
+import { Link } from '@/lib/i18n/navigation';
+import { messageKey } from '@/lib/i18n/messages';
+import {
+  newsletterSchema,
+  type NewsletterField,
+  type NewsletterFormData,
+  type NewsletterResponse,
+  type NewsletterSubmission,
+} from '@/lib/newsletter/schema';
+import { cn } from '@/lib/utils';
+import { HoneypotField } from './HoneypotField';
+
+interface NewsletterFormProps {
+  className?: string;
+}
+
+/**
+ * Newsletter sign-up with GDPR consent. Submitting only sends the double
+ * opt-in email; the address is stored once the link in it is opened.
+ */
+export function NewsletterForm({ className }: NewsletterFormProps) {
+  const t = useTranslations('newsletter');
+  const locale = useLocale();
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [errorCode, setErrorCode] = useState<'error' | 'rateLimited'>('error');
+  const { token, refresh: refreshToken } = useFormToken();
+  const honeypotRef = useRef<HTMLInputElement>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<NewsletterFormData, unknown, NewsletterSubmission>({
+    resolver: zodResolver(newsletterSchema),
+  });
+
+  const onSubmit = async (data: NewsletterSubmission) => {
+    try {
+      const response = await fetch('/api/newsletter', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          locale,
+          website: honeypotRef.current?.value,
+          formToken: token,
+        }),
+      });
+      const result = (await response.json()) as NewsletterResponse;
+      refreshToken();
+
+      if (result.ok) {
+        setSubmitStatus('success');
+        reset();
+        return;
+      }
+
+      if (result.fieldErrors) {
+        for (const [field, code] of Object.entries(result.fieldErrors)) {
+          setError(field as NewsletterField, { type: 'server', message: code });
+        }
+      }
+      setErrorCode(result.error === 'rateLimited' ? 'rateLimited' : 'error');
+      setSubmitStatus(result.error === 'validation' ? 'idle' : 'error');
+    } catch {
+      setErrorCode('error');
+      setSubmitStatus('error');
+    }
+  };
+
+  if (submitStatus === 'success') {
+    return (
+      <div role="status" className={cn('rounded-xl border border-success/30 bg-success/10 p-6 text-center', className)}>
+        <MailCheck className="mx-auto mb-3 h-10 w-10 text-success" />
+        <h3 className="mb-1 text-lg font-semibold text-neutral-900">{t('success.title')}</h3>
+        <p className="text-neutral-700">{t('success.text')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} noValidate className={cn('space-y-4 text-left', className)}>
+      {submitStatus === 'error' && (
+        <div role="alert" className="flex items-center gap-3 rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <p>{t(errorCode)}</p>
+        </div>
+      )}
+
+      <HoneypotField ref={honeypotRef} />
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <div className="flex-1">
+          <label htmlFor="newsletter-email" className="sr-only">
+            {t('emailLabel')}
+          </label>
+          <input
+            {...register('email')}
+            type="email"
+            id="newsletter-email"
+            autoComplete="email"
+            placeholder={t('placeholder')}
+            aria-invalid={errors.email ? true : undefined}
+            className={cn(
+              'w-full rounded-lg border px-4 py-3 text-neutral-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500',
+              errors.email ? 'border-destructive/50' : 'border-neutral-200'
+            )}
+          />
+          {errors.email && (
+            <p className="mt-1 text-sm text-destructive">{t(messageKey('newsletter', `errors.${errors.email.message}`))}</p>
+          )}
+        </div>
+        <Button type="submit" size="lg" disabled={isSubmitting}>
+          {isSubmitting ? t('subscribing') : t('button')}
+        </Button>
+      </div>
+
+      <div>
+        <label className="flex items-start gap-3 text-sm text-neutral-600">
+          <input
+            {...register('consent')}
+            type="checkbox"
+            aria-invalid={errors.consent ? true : undefined}
+            className="mt-0.5 h-4 w-4 flex-shrink-0 rounded border-neutral-300 text-primary-500 focus:ring-primary-500"
+          />
+          <span>
+            {t.rich('consent', {
+              link: (chunks) => (
+                <Link href="/legal/privacy" className="font-medium text-primary-500 underline underline-offset-4 hover:text-primary-600">
+                  {chunks}
+                </Link>
+              ),
+            })}
+          </span>
+        </label>
+        {errors.consent && (
+          <p className="mt-1 text-sm text-destructive">{t(messageKey('newsletter', `errors.${errors.consent.message}`))}</p>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,32 @@
+import { AlertCircle, CheckCircle, MailQuestion } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Link } from '@/lib/i18n/navigation';
+
+interface NewsletterStatusProps {
+  tone: 'success' | 'error' | 'prompt';
+  title: string;
+  text: string;
+  backLabel: string;
+  children?: React.ReactNode;
+}
+
+const icons = {
+  success: <CheckCircle className="mx-auto mb-6 h-14 w-14 text-success" />,
+  error: <AlertCircle className="mx-auto mb-6 h-14 w-14 text-destructive" />,
+  prompt: <MailQuestion className="mx-auto mb-6 h-14 w-14 text-primary-500" />,
+};
+
+// Outcome (or pending question) of a newsletter confirm / unsubscribe link
+export function NewsletterStatus({ tone, title, text, backLabel, children }: NewsletterStatusProps) {
+  return (
+    <>
+      {icons[tone]}
+      <h1 className="text-3xl font-bold tracking-tight text-neutral-900">{title}</h1>
+      <p className="mt-4 text-lg text-neutral-600">{text}</p>
+      {children}
+      <Button asChild size="lg" variant={tone === 'prompt' ? 'outline' : 'default'} className="mt-8">
+        <Link href="/news">{backLabel}</Link>
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { cancelSubscriptionAction } from '@/lib/newsletter/actions';
+import { NewsletterStatus } from './NewsletterStatus';
+
+interface NewsletterUnsubscribeFormProps {
+  token: string;
+  email: string;
+}
+
+/**
+ * Unsubscribe button for the signed link in our emails. Mail clients use
+ * the RFC 8058 one-click POST to /api/newsletter/unsubscribe instead.
+ */
+export function NewsletterUnsubscribeForm({ token, email }: NewsletterUnsubscribeFormProps) {
+  const t = useTranslations('newsletter');
+  const [result, formAction, pending] = useActionState(cancelSubscriptionAction, undefined);
+
+  if (!result) {
+    return (
+      <NewsletterStatus tone="prompt" title={t('unsubscribe.prompt.title')} text={t('unsubscribe.prompt.text', { email })} backLabel={t('back')}>
+        <form action={formAction}>
+          <input type="hidden" name="token" value={token} />
+          <Button type="submit" size="lg" className="mt-8" disabled={pending}>
+            {pending ? t('unsubscribe.prompt.pending') : t('unsubscribe.prompt.button')}
+          </Button>
+        </form>
+      </NewsletterStatus>
+    );
+  }
+
+  if (result.status !== 'unsubscribed') {
+    return (
+      <NewsletterStatus tone="error" title={t(`unsubscribe.${result.status}.title`)} text={t(`unsubscribe.${result.status}.text`)} backLabel={t('back')} />
+    );
+  }
+
+  return (
+    <NewsletterStatus tone="success" title={t('unsubscribe.unsubscribed.title')} text={t('unsubscribe.unsubscribed.text', { email: result.email })} backLabel={t('back')} />
+  );
+}
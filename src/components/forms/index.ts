@@ -1 +1,6 @@
 export { ContactForm } from './ContactForm';
+export { HoneypotField } from './HoneypotField';
+export { NewsletterConfirmForm } from './NewsletterConfirmForm';
+export { NewsletterForm } from './NewsletterForm';
+export { NewsletterStatus } from './NewsletterStatus';
+export { NewsletterUnsubscribeForm } from './NewsletterUnsubscribeForm';
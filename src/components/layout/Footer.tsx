@@ -2,27 +2,25 @@
 
 import { useTranslations } from 'next-intl';
 import { Link } from '@/lib/i18n/navigation';
+import { messageKey } from '@/lib/i18n/messages';
 import { Container } from '@/components/ui/container';
+import { useConsent } from '@/hooks/useConsent';
+import type { Navigation } from '@/lib/routes/registry';
 import { Linkedin, Twitter, Shield, Award, CheckCircle } from 'lucide-react';
 
-export function Footer() {
+interface FooterProps {
+  // From route-registry.yaml (see getNavigation)
+  navigation: Navigation;
+}
+
+export function Footer({ navigation }: FooterProps) {
   const t = useTranslations('footer');
   const tNav = useTranslations('nav');
+  const { openPreferences } = useConsent();
   const currentYear = new Date().getFullYear();
 
-  const quickLinks = [
-    { name: tNav('about'), href: '/about' },
-    { name: tNav('capabilities'), href: '/capabilities' },
-    { name: tNav('sectors'), href: '/sectors' },
-    { name: tNav('news'), href: '/news' },
-    { name: tNav('contact'), href: '/contact' },
-  ];
-
-  const legalLinks = [
-    { name: t('privacy'), href: '/legal/privacy' },
-    { name: t('terms'), href: '/legal/terms' },
-    { name: t('cookies'), href: '/legal/cookies' },
-  ];
+  const quickLinks = navigation.footer.map((item) => ({ name: tNav(messageKey('nav', item.label)), href: item.href }));
+  const legalLinks = navigation.footer_legal.map((item) => ({ name: t(messageKey('footer', item.label)), href: item.href }));
 
   return (
     <footer className="border-t border-neutral-200 bg-neutral-50">
@@ -89,6 +87,15 @@ export function Footer() {
                   </Link>
                 </li>
               ))}
+              <li>
+                <button
+                  type="button"
+                  onClick={openPreferences}
+                  className="text-sm text-neutral-600 transition-colors hover:text-accent-500"
+                >
+                  {t('cookieSettings')}
+                </button>
+              </li>
             </ul>
           </div>
         </div>
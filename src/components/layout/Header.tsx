@@ -4,13 +4,22 @@ import { useState, useEffect } from 'react';
 import Image from 'next/image';
 import { useTranslations } from 'next-intl';
 import { Menu, X } from 'lucide-react';
-import { Link, usePathname } from '@/lib/i18n/navigation';
+import { usePathname } from '@/lib/i18n/client-navigation';
+import { Link } from '@/lib/i18n/navigation';
+import { messageKey } from '@/lib/i18n/messages';
+import type { Navigation } from '@/lib/routes/registry';
 import { Container } from '@/components/ui/container';
 import { Button } from '@/components/ui/button';
 import { LanguageSwitcher } from './LanguageSwitcher';
+import { SearchDialog } from './SearchDialog';
 import { cn } from '@/lib/utils';
 
-export function Header() {
+interface HeaderProps {
+  // From route-registry.yaml (see getNavigation)
+  navigation: Navigation;
+}
+
+export function Header({ navigation: routes }: HeaderProps) {
   const t = useTranslations('nav');
   const pathname = usePathname();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -27,13 +36,8 @@ export function Header() {
     };
   }, [mobileMenuOpen]);
 
-  const navigation = [
-    { name: t('home'), href: '/' },
-    { name: t('about'), href: '/about' },
-    { name: t('capabilities'), href: '/capabilities' },
-    { name: t('sectors'), href: '/sectors' },
-    { name: t('news'), href: '/news' },
-  ];
+  const navigation = routes.header.map((item) => ({ name: t(messageKey('nav', item.label)), href: item.href }));
+  const [cta] = routes.header_cta;
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-neutral-200 bg-white/95 backdrop-blur supports-[backdrop-filter]:bg-white/80">
@@ -69,31 +73,38 @@ export function Header() {
             ))}
           </div>
 
-          {/* Desktop Actions */}
-          <div className="hidden md:flex md:items-center md:gap-x-4">
-            <LanguageSwitcher />
-            <Button asChild size="sm" variant="accent">
-              <Link href="/contact">{t('contact')}</Link>
-            </Button>
-          </div>
+          <div className="flex items-center gap-x-2 md:gap-x-4">
+            {/* Search (Ctrl/⌘+K) */}
+            <SearchDialog />
 
-          {/* Mobile menu button */}
-          <div className="flex md:hidden">
-            <button
-              type="button"
-              className="inline-flex items-center justify-center rounded-md p-2.5 text-neutral-600 hover:text-primary-900 min-h-[44px] min-w-[44px]"
-              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-              aria-expanded={mobileMenuOpen}
-              aria-controls="mobile-menu"
-              aria-label={mobileMenuOpen ? 'Close menu' : 'Open menu'}
-            >
-              <span className="sr-only">Toggle menu</span>
-              {mobileMenuOpen ? (
-                <X className="h-6 w-6" aria-hidden="true" />
-              ) : (
-                <Menu className="h-6 w-6" aria-hidden="true" />
+            {/* Desktop Actions */}
+            <div className="hidden md:flex md:items-center md:gap-x-4">
+              <LanguageSwitcher />
+              {cta && (
+                <Button asChild size="sm" variant="accent">
+                  <Link href={cta.href}>{t(messageKey('nav', cta.label))}</Link>
+                </Button>
               )}
-            </button>
+            </div>
+
+            {/* Mobile menu button */}
+            <div className="flex md:hidden">
+              <button
+                type="button"
+                className="inline-flex items-center justify-center rounded-md p-2.5 text-neutral-600 hover:text-primary-900 min-h-[44px] min-w-[44px]"
+                onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+                aria-expanded={mobileMenuOpen}
+                aria-controls="mobile-menu"
+                aria-label={mobileMenuOpen ? 'Close menu' : 'Open menu'}
+              >
+                <span className="sr-only">Toggle menu</span>
+                {mobileMenuOpen ? (
+                  <X className="h-6 w-6" aria-hidden="true" />
+                ) : (
+                  <Menu className="h-6 w-6" aria-hidden="true" />
+                )}
+              </button>
+            </div>
           </div>
         </nav>
 
@@ -124,14 +135,16 @@ export function Header() {
             {/* Mobile actions - stacked vertically for better touch UX */}
             <div className="mt-4 space-y-3 px-3 border-t border-neutral-200 pt-4">
               <div className="flex items-center justify-between">
-                <span className="text-sm text-neutral-500">{t('language') || 'Language'}</span>
+                <span className="text-sm text-neutral-500">{t('language')}</span>
                 <LanguageSwitcher />
               </div>
-              <Button asChild variant="accent" className="w-full min-h-[48px]">
-                <Link href="/contact" onClick={() => setMobileMenuOpen(false)}>
-                  {t('contact')}
-                </Link>
-              </Button>
+              {cta && (
+                <Button asChild variant="accent" className="w-full min-h-[48px]">
+                  <Link href={cta.href} onClick={() => setMobileMenuOpen(false)}>
+                    {t(messageKey('nav', cta.label))}
+                  </Link>
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLocale } from 'next-intl';
+import { X } from 'lucide-react';
+import { Container } from '@/components/ui/container';
+import type { Locale } from '@/lib/i18n/config';
+import { usePathname, useRouter } from '@/lib/i18n/client-navigation';
+import { negotiateLocale, readLocalePreference, writeLocalePreference } from '@/lib/i18n/preference';
+
+export interface LanguageHintMessages {
+  text: string;
+  action: string;
+  dismiss: string;
+}
+
+interface LanguageHintProps {
+  // Every locale's strings, since the hint speaks the suggested language
+  messages: Record<Locale, LanguageHintMessages>;
+}
+
+/**
+ * Offers the page in the browser's language when it differs from the one
+ * shown. Hidden once the visitor has picked a language; dismissing counts
+ * as picking the current one.
+ */
+export function LanguageHint({ messages }: LanguageHintProps) {
+  const locale = useLocale() as Locale;
+  const pathname = usePathname();
+  const router = useRouter();
+  const [suggested, setSuggested] = useState<Locale>();
+
+  useEffect(() => {
+    const preferred = negotiateLocale(navigator.languages);
+    setSuggested(!readLocalePreference() && preferred && preferred !== locale ? preferred : undefined);
+  }, [locale]);
+
+  if (!suggested) {
+    return null;
+  }
+
+  const t = messages[suggested];
+
+  function choose(target: Locale) {
+    writeLocalePreference(target);
+    setSuggested(undefined);
+    if (target !== locale) {
+      router.replace(pathname, { locale: target });
+    }
+  }
+
+  return (
+    <div lang={suggested} role="region" aria-label={t.text} className="border-b border-primary-100 bg-primary-50">
+      <Container className="flex items-center justify-between gap-4 py-2 text-sm text-neutral-700">
+        <p>
+          {t.text}{' '}
+          <button
+            type="button"
+            onClick={() => choose(suggested)}
+            className="font-medium text-primary-500 underline underline-offset-4 hover:text-primary-600"
+          >
+            {t.action}
+          </button>
+        </p>
+        <button
+          type="button"
+          onClick={() => choose(locale)}
+          aria-label={t.dismiss}
+          className="flex min-h-[44px] min-w-[44px] items-center justify-center rounded-md text-neutral-500 hover:bg-primary-100 hover:text-neutral-900"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </Container>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 'use client';
 
 import { useLocale } from 'next-intl';
-import { usePathname, useRouter } from '@/lib/i18n/navigation';
-import { locales, localeNames, type Locale } from '@/lib/i18n/config';
+import { usePathname, useRouter } from '@/lib/i18n/client-navigation';
+import { localeDefinitions, locales, type Locale } from '@/lib/i18n/config';
+import { writeLocalePreference } from '@/lib/i18n/preference';
 import { cn } from '@/lib/utils';
 import { ChevronDown } from 'lucide-react';
 import { useState, useRef, useEffect } from 'react';
@@ -30,6 +31,7 @@ export function LanguageSwitcher() {
   }, []);
 
   const handleLanguageChange = (newLocale: Locale) => {
+    writeLocalePreference(newLocale);
     router.replace(pathname, { locale: newLocale });
     setIsOpen(false);
   };
@@ -68,7 +70,7 @@ export function LanguageSwitcher() {
                 )}
                 role="menuitem"
               >
-                {localeNames[loc]}
+                {localeDefinitions[loc].nativeName}
               </button>
             ))}
           </div>
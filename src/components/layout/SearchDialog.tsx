@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { useLocale, useTranslations } from 'next-intl';
+import { ArrowRight, Search, X } from 'lucide-react';
+import { SearchResultList } from '@/components/content/SearchResultList';
+import { useSearchIndex } from '@/hooks/useSearchIndex';
+import type { Locale } from '@/lib/i18n/config';
+import { useRouter } from '@/lib/i18n/client-navigation';
+import { Link } from '@/lib/i18n/navigation';
+import { search } from '@/lib/search/search';
+import { cn } from '@/lib/utils';
+
+const PREVIEW_RESULTS = 5;
+
+function isTypingTarget(target: EventTarget | null) {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+}
+
+/**
+ * Header search: a trigger button plus a quick-results dialog, opened with
+ * Ctrl/⌘+K or "/". Enter goes to the full /search page.
+ */
+export function SearchDialog({ className }: { className?: string }) {
+  const t = useTranslations('search');
+  const locale = useLocale() as Locale;
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [shortcut, setShortcut] = useState('Ctrl K');
+  // The index is only fetched once the dialog has been opened
+  const { documents } = useSearchIndex(locale, open);
+
+  useEffect(() => {
+    if (/Mac|iPhone|iPad/.test(navigator.userAgent)) {
+      setShortcut('⌘K');
+    }
+
+    function handleKeyDown(event: KeyboardEvent) {
+      const modifierK = event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey);
+      const slash = event.key === '/' && !isTypingTarget(event.target);
+      if (modifierK || slash) {
+        event.preventDefault();
+        setOpen(true);
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const results = useMemo(
+    () => (documents ? search(documents, query, locale, PREVIEW_RESULTS) : []),
+    [documents, query, locale]
+  );
+
+  const searchHref = `/search?q=${encodeURIComponent(query.trim())}`;
+
+  const onSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (query.trim()) {
+      setOpen(false);
+      router.push(searchHref);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={setOpen}>
+      <Dialog.Trigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'flex items-center gap-2 rounded-md px-3 py-2.5 text-sm text-neutral-600 transition-colors hover:bg-neutral-100 hover:text-primary-900 min-h-[44px] min-w-[44px]',
+            className
+          )}
+        >
+          <Search className="h-5 w-5" aria-hidden="true" />
+          <span className="sr-only">{t('trigger')}</span>
+          <kbd className="hidden rounded border border-neutral-200 px-1.5 font-sans text-xs text-neutral-500 lg:inline">
+            {shortcut}
+          </kbd>
+        </button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-50 bg-neutral-900/50 backdrop-blur-sm" />
+        <Dialog.Content
+          aria-describedby={undefined}
+          className="fixed left-1/2 top-20 z-50 w-[calc(100%-2rem)] max-w-xl -translate-x-1/2 overflow-hidden rounded-xl bg-white shadow-2xl"
+        >
+          <Dialog.Title className="sr-only">{t('title')}</Dialog.Title>
+          <form role="search" onSubmit={onSubmit} className="flex items-center gap-3 border-b border-neutral-200 px-4">
+            <Search className="h-5 w-5 flex-shrink-0 text-neutral-400" aria-hidden="true" />
+            <label htmlFor="search-dialog-query" className="sr-only">
+              {t('label')}
+            </label>
+            <input
+              id="search-dialog-query"
+              type="search"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder={t('placeholder')}
+              autoComplete="off"
+              className="h-14 flex-1 bg-transparent text-neutral-900 outline-none placeholder:text-neutral-400"
+            />
+            <Dialog.Close className="rounded-md p-1 text-neutral-400 hover:text-neutral-900">
+              <X className="h-5 w-5" />
+              <span className="sr-only">{t('close')}</span>
+            </Dialog.Close>
+          </form>
+
+          {query.trim() && (
+            <div className="max-h-[60vh] overflow-y-auto" aria-live="polite">
+              {results.length > 0 ? (
+                <SearchResultList results={results} onNavigate={() => setOpen(false)} compact />
+              ) : (
+                <p className="p-4 text-sm text-neutral-500">{documents ? t('empty', { query }) : t('loading')}</p>
+              )}
+              <Link
+                href={searchHref}
+                onClick={() => setOpen(false)}
+                className="flex items-center justify-between border-t border-neutral-200 bg-neutral-50 px-4 py-3 text-sm font-medium text-primary-500 hover:text-primary-600"
+              >
+                {t('viewAll')}
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -1,3 +1,5 @@
 export { Header } from './Header';
 export { Footer } from './Footer';
+export { LanguageHint } from './LanguageHint';
 export { LanguageSwitcher } from './LanguageSwitcher';
+export { SearchDialog } from './SearchDialog';
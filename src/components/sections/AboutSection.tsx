@@ -10,7 +10,7 @@ const values = [
   { key: 'autonomy', icon: Eye },
   { key: 'innovation', icon: Sparkles },
   { key: 'collaboration', icon: Users },
-];
+] as const;
 
 export function AboutSection() {
   const t = useTranslations('about');
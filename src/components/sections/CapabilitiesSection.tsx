@@ -32,7 +32,7 @@ const capabilities = [
     href: '/capabilities/dual-use',
     color: 'bg-accent-100 text-accent-700',
   },
-];
+] as const;
 
 export function CapabilitiesSection() {
   const t = useTranslations('capabilities');
@@ -1,22 +1,21 @@
 /**
  * JSON-LD structured data component for SEO.
  * The dangerouslySetInnerHTML is intentionally used here as the data
- * is constructed server-side from trusted sources (not user input).
+ * is constructed server-side by the typed builders in
+ * src/lib/seo/structured-data.ts and serialized with "<" escaped.
  * This is the standard Next.js pattern for embedding JSON-LD.
  */
+import { serializeJsonLd, type JsonLdGraph } from '@/lib/seo/structured-data';
 
 interface JsonLdProps {
-  data: Record<string, unknown>;
+  data: JsonLdGraph;
 }
 
 export function JsonLd({ data }: JsonLdProps) {
-  // Data is constructed from trusted internal sources, not user input
-  const jsonString = JSON.stringify(data);
-
   return (
     <script
       type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: jsonString }}
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
     />
   );
 }
@@ -0,0 +1,134 @@
+/**
+ * Open Graph card rendered by next/og (see src/lib/seo/og-image.tsx).
+ * Satori only understands inline styles and flexbox, so the brand colors
+ * and the AccentDot motif are restated here instead of using Tailwind.
+ */
+
+const colors = {
+  black: '#000000',
+  white: '#ffffff',
+  accent: '#4F61E7', // accent-500
+  muted: '#a3a3a3', // neutral-400
+};
+
+interface OgImageProps {
+  title: string;
+  // Section label above the title, e.g. "Capabilities"
+  section?: string;
+  locale: string;
+  // Data URL or absolute URL of a background photo, e.g. an article's featured image
+  background?: string;
+  // Host shown in the footer
+  host: string;
+}
+
+// `lift` raises the dot from the bottom of the line box to the text baseline
+function OgAccentDot({ size, lift = 0 }: { size: number; lift?: number }) {
+  return (
+    <div
+      style={{
+        width: size,
+        height: size,
+        marginLeft: size / 2,
+        marginBottom: lift,
+        borderRadius: size,
+        backgroundColor: colors.accent,
+        flexShrink: 0,
+      }}
+    />
+  );
+}
+
+export function OgImage({ title, section, locale, background, host }: OgImageProps) {
+  const fontSize = title.length > 70 ? 56 : title.length > 40 ? 64 : 76;
+  const wordSpacing = Math.round(fontSize * 0.25);
+  const words = title.split(/\s+/);
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        position: 'relative',
+        backgroundColor: colors.black,
+        color: colors.white,
+        fontFamily: 'Inter',
+      }}
+    >
+      {background && (
+        <img
+          src={background}
+          alt=""
+          width={1200}
+          height={630}
+          style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', objectFit: 'cover' }}
+        />
+      )}
+      <div
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '64px 72px',
+          // Keeps the title readable over a photo (Satori rejects undefined styles)
+          ...(background
+            ? { backgroundImage: 'linear-gradient(to top, rgba(0,0,0,0.92) 35%, rgba(0,0,0,0.35))' }
+            : {}),
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'flex-end', fontFamily: 'Outfit', fontWeight: 700, fontSize: 40 }}>
+          Dualys
+          <OgAccentDot size={12} lift={10} />
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          {section && (
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                marginBottom: 24,
+                fontSize: 26,
+                fontWeight: 400,
+                letterSpacing: 2,
+                color: colors.accent,
+              }}
+            >
+              {/* Satori's textTransform rejects some locales (e.g. de), so uppercase here */}
+              {section.toLocaleUpperCase(locale)}
+            </div>
+          )}
+          <div
+            style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              alignItems: 'flex-end',
+              fontFamily: 'Outfit',
+              fontWeight: 600,
+              fontSize,
+              lineHeight: 1.1,
+              maxWidth: 1000,
+            }}
+          >
+            {/* Word by word so the dot wraps with the last word instead of on its own */}
+            {words.slice(0, -1).map((word, index) => (
+              <span key={index} style={{ marginRight: wordSpacing }}>{word}</span>
+            ))}
+            <div style={{ display: 'flex', alignItems: 'flex-end' }}>
+              {words.at(-1)}
+              <OgAccentDot size={Math.round(fontSize / 5)} lift={Math.round(fontSize / 5)} />
+            </div>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', fontSize: 24, color: colors.muted }}>{host}</div>
+      </div>
+    </div>
+  );
+}
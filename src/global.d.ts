@@ -0,0 +1,9 @@
+import type en from './messages/en.json';
+
+// en.json is the source locale: useTranslations/getTranslations keys are
+// checked against it, so a typo or removed key fails `tsc --noEmit`
+type Messages = typeof en;
+
+declare global {
+  interface IntlMessages extends Messages {}
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useContext } from 'react';
+import { ConsentContext, type ConsentContextValue } from '@/components/consent/ConsentProvider';
+
+/**
+ * The visitor's cookie consent and actions to change it.
+ * Must be used below `ConsentProvider` (mounted in the locale layout).
+ */
+export function useConsent(): ConsentContextValue {
+  const context = useContext(ConsentContext);
+  if (!context) {
+    throw new Error('useConsent must be used within a ConsentProvider');
+  }
+  return context;
+}
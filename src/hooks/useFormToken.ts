@@ -0,0 +1,28 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Fetch a time-to-submit token from /api/form-token when the form mounts.
+ * Call `refresh` after a submission so the next one gets a fresh token.
+ */
+export function useFormToken() {
+  const [token, setToken] = useState<string>();
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/form-token', { cache: 'no-store' });
+      const data = (await response.json()) as { token: string };
+      setToken(data.token);
+    } catch {
+      // The server rejects tokenless submissions; the form shows its error state
+      setToken(undefined);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { token, refresh };
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
+import type { SearchDocument } from '@/lib/search/documents';
+
+// One request per locale and page load, shared by the header dialog and the search page
+const cache = new Map<string, Promise<SearchDocument[]>>();
+
+function loadIndex(locale: string): Promise<SearchDocument[]> {
+  let request = cache.get(locale);
+  if (!request) {
+    request = fetch(getLocalizedHref('/search/index.json', locale as Locale)).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Search index responded ${response.status}`);
+      }
+      return response.json() as Promise<SearchDocument[]>;
+    });
+    // Allow a retry after a failed request
+    request.catch(() => cache.delete(locale));
+    cache.set(locale, request);
+  }
+  return request;
+}
+
+/**
+ * Fetch the locale's static search index. Pass `enabled: false` to defer
+ * loading until it is needed (e.g. until the search dialog opens).
+ */
+export function useSearchIndex(locale: string, enabled = true) {
+  const [documents, setDocuments] = useState<SearchDocument[]>();
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let active = true;
+    setStatus('loading');
+    loadIndex(locale).then(
+      (index) => {
+        if (active) {
+          setDocuments(index);
+          setStatus('ready');
+        }
+      },
+      () => {
+        if (active) {
+          setStatus('error');
+        }
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, [locale, enabled]);
+
+  return { documents, status };
+}
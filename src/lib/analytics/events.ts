@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { locales } from '@/lib/i18n/config';
+
+export const analyticsEventTypes = ['pageview', 'cta_click', 'event'] as const;
+export type AnalyticsEventType = (typeof analyticsEventTypes)[number];
+
+export const deviceClasses = ['mobile', 'desktop'] as const;
+export type DeviceClass = (typeof deviceClasses)[number];
+
+// Fields shared by every event. Paths are locale-less ("/contact", not "/en/contact").
+const baseEvent = {
+  path: z.string().startsWith('/').max(300),
+  locale: z.enum(locales),
+  // Random per-tab id kept in sessionStorage; no cookie, nothing cross-site
+  sessionId: z.string().regex(/^[a-z0-9]{8,32}$/),
+  device: z.enum(deviceClasses),
+};
+
+export const analyticsEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('pageview'),
+    ...baseEvent,
+    // Host name of an external referrer only, never the full URL
+    referrer: z.string().max(253).optional(),
+  }),
+  z.object({
+    type: z.literal('cta_click'),
+    ...baseEvent,
+    // A destination listed in cta-registry.yaml
+    destination: z.string().startsWith('/').max(300),
+    topic: z.string().max(50).optional(),
+  }),
+  z.object({
+    type: z.literal('event'),
+    ...baseEvent,
+    name: z.string().regex(/^[a-z][a-z0-9_]{0,49}$/),
+    props: z.record(z.string(), z.union([z.string().max(100), z.number(), z.boolean()])).optional(),
+  }),
+]);
+
+export type AnalyticsEvent = z.infer<typeof analyticsEventSchema>;
+
+export const MAX_EVENTS_PER_BATCH = 20;
+
+export const eventBatchSchema = z.object({
+  events: z.array(analyticsEventSchema).min(1).max(MAX_EVENTS_PER_BATCH),
+});
+
+export type EventBatch = z.infer<typeof eventBatchSchema>;
+
+// An event as persisted: the collector stamps the receive time
+export type StoredEvent = AnalyticsEvent & { at: string };
+
+export interface EventsResponse {
+  ok: boolean;
+  accepted?: number;
+  error?: 'invalidRequest' | 'rateLimited' | 'storage';
+}
@@ -0,0 +1,207 @@
+// Type-only imports: the report script loads this module outside Next.js
+import type { DeviceClass, StoredEvent } from './events';
+
+export type FunnelStep =
+  // Locale-less path; a trailing "/*" matches any sub-page
+  | { label: string; page: string }
+  | { label: string; event: string };
+
+export interface Funnel {
+  id: string;
+  name: string;
+  // Restrict to sessions that started on this device class
+  device?: DeviceClass;
+  steps: FunnelStep[];
+}
+
+const submitted: FunnelStep = { label: 'Contact form submitted', event: 'contact_submitted' };
+
+/**
+ * The user journeys covered by the e2e suite (e2e/journeys/*.spec.ts),
+ * each ending with a successful contact form submission.
+ */
+export const journeyFunnels: Funnel[] = [
+  {
+    id: 'primary-conversion',
+    name: 'Primary conversion',
+    steps: [
+      { label: 'Home', page: '/' },
+      { label: 'Capabilities', page: '/capabilities' },
+      { label: 'Contact', page: '/contact' },
+      submitted,
+    ],
+  },
+  {
+    id: 'capability-deep-dive',
+    name: 'Capability deep-dive',
+    steps: [
+      { label: 'Home', page: '/' },
+      { label: 'Capability detail', page: '/capabilities/*' },
+      { label: 'Contact', page: '/contact' },
+      submitted,
+    ],
+  },
+  {
+    id: 'institutional-inquiry',
+    name: 'Institutional inquiry',
+    steps: [
+      { label: 'Home', page: '/' },
+      { label: 'About', page: '/about' },
+      { label: 'Partners', page: '/about/partners' },
+      { label: 'Contact', page: '/contact' },
+      submitted,
+    ],
+  },
+  {
+    id: 'mobile-quick-contact',
+    name: 'Mobile quick contact',
+    device: 'mobile',
+    steps: [
+      { label: 'Home', page: '/' },
+      { label: 'Contact', page: '/contact' },
+      submitted,
+    ],
+  },
+];
+
+export interface FunnelStepResult {
+  label: string;
+  sessions: number;
+  // Share of sessions from the previous step, and from the first step (0-1)
+  stepRate: number;
+  overallRate: number;
+}
+
+export interface FunnelResult {
+  id: string;
+  name: string;
+  steps: FunnelStepResult[];
+}
+
+export interface CtaResult {
+  destination: string;
+  clicks: number;
+  sessions: number;
+}
+
+function matchesPage(pattern: string, path: string) {
+  if (pattern.endsWith('/*')) {
+    return path.startsWith(pattern.slice(0, -1));
+  }
+  return path === pattern;
+}
+
+function matchesStep(step: FunnelStep, event: StoredEvent) {
+  if ('page' in step) {
+    return event.type === 'pageview' && matchesPage(step.page, event.path);
+  }
+  return event.type === 'event' && event.name === step.event;
+}
+
+// Events grouped per session, oldest first
+export function groupSessions(events: StoredEvent[]): StoredEvent[][] {
+  const sessions = new Map<string, StoredEvent[]>();
+  for (const event of events) {
+    const session = sessions.get(event.sessionId) ?? [];
+    session.push(event);
+    sessions.set(event.sessionId, session);
+  }
+  return [...sessions.values()].map((session) => session.sort((a, b) => a.at.localeCompare(b.at)));
+}
+
+/**
+ * Count sessions reaching each step in order. Other events may occur
+ * between steps; a step only counts once the previous one was reached.
+ */
+export function computeFunnel(funnel: Funnel, events: StoredEvent[]): FunnelResult {
+  const reached = funnel.steps.map(() => 0);
+
+  for (const session of groupSessions(events)) {
+    if (funnel.device && session[0].device !== funnel.device) {
+      continue;
+    }
+    let step = 0;
+    for (const event of session) {
+      if (step < funnel.steps.length && matchesStep(funnel.steps[step], event)) {
+        reached[step] += 1;
+        step += 1;
+      }
+    }
+  }
+
+  const rate = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+  return {
+    id: funnel.id,
+    name: funnel.name,
+    steps: funnel.steps.map(({ label }, index) => ({
+      label,
+      sessions: reached[index],
+      stepRate: index === 0 ? rate(reached[0], reached[0]) : rate(reached[index], reached[index - 1]),
+      overallRate: rate(reached[index], reached[0]),
+    })),
+  };
+}
+
+// CTA clicks keyed by registry destination, most clicked first
+export function summarizeCtas(events: StoredEvent[]): CtaResult[] {
+  const byDestination = new Map<string, { clicks: number; sessions: Set<string> }>();
+  for (const event of events) {
+    if (event.type !== 'cta_click') {
+      continue;
+    }
+    const entry = byDestination.get(event.destination) ?? { clicks: 0, sessions: new Set() };
+    entry.clicks += 1;
+    entry.sessions.add(event.sessionId);
+    byDestination.set(event.destination, entry);
+  }
+  return [...byDestination]
+    .map(([destination, { clicks, sessions }]) => ({ destination, clicks, sessions: sessions.size }))
+    .sort((a, b) => b.clicks - a.clicks || a.destination.localeCompare(b.destination));
+}
+
+export function filterByDate(events: StoredEvent[], since?: Date, until?: Date): StoredEvent[] {
+  return events.filter((event) => {
+    const at = new Date(event.at);
+    return (!since || at >= since) && (!until || at < until);
+  });
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Plain-text report: one table per journey funnel, then CTA clicks.
+ */
+export function formatFunnelReport(events: StoredEvent[], funnels: Funnel[] = journeyFunnels): string {
+  const sessions = new Set(events.map((event) => event.sessionId)).size;
+  const lines = [
+    `Events: ${events.length}  Sessions: ${sessions}`,
+    'Columns: sessions, conversion from previous step, conversion from first step',
+    '',
+  ];
+
+  for (const funnel of funnels) {
+    const result = computeFunnel(funnel, events);
+    lines.push(`${result.name}${funnel.device ? ` (${funnel.device})` : ''}`);
+    const width = Math.max(...result.steps.map((step) => step.label.length));
+    result.steps.forEach((step, index) => {
+      lines.push(
+        `  ${index + 1}. ${step.label.padEnd(width)}  ${String(step.sessions).padStart(6)}  `
+        + `${percent(step.stepRate).padStart(6)}  ${percent(step.overallRate).padStart(6)}`
+      );
+    });
+    lines.push('');
+  }
+
+  const ctas = summarizeCtas(events);
+  lines.push('CTA clicks (destination, clicks, sessions)');
+  if (ctas.length === 0) {
+    lines.push('  none');
+  }
+  for (const cta of ctas) {
+    lines.push(`  ${cta.destination.padEnd(32)}  ${String(cta.clicks).padStart(6)}  ${String(cta.sessions).padStart(6)}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
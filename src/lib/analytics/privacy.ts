@@ -0,0 +1,16 @@
+/**
+ * Do-Not-Track and Global Privacy Control are honoured as an opt-out,
+ * whatever the visitor chose in the consent banner.
+ */
+export function requestOptsOut(headers: Headers): boolean {
+  return headers.get('dnt') === '1' || headers.get('sec-gpc') === '1';
+}
+
+export function browserOptsOut(): boolean {
+  if (typeof navigator === 'undefined') {
+    return true;
+  }
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  const win = window as Window & { doNotTrack?: string };
+  return nav.doNotTrack === '1' || win.doNotTrack === '1' || nav.globalPrivacyControl === true;
+}
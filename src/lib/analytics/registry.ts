@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+
+// Collect every `destination` value, however deeply nested
+function collectDestinations(node: unknown, into: Set<string>) {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectDestinations(child, into));
+  } else if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'destination' && typeof value === 'string') {
+        into.add(value);
+      } else {
+        collectDestinations(value, into);
+      }
+    }
+  }
+}
+
+export function parseCtaDestinations(source: string): string[] {
+  const destinations = new Set<string>();
+  collectDestinations(parse(source), destinations);
+  return [...destinations].sort();
+}
+
+let cached: string[] | undefined;
+
+/**
+ * CTA destinations from cta-registry.yaml. Clicks on links to these paths
+ * are tracked as `cta_click` events keyed by the destination.
+ */
+export function getCtaDestinations(file = path.join(process.cwd(), 'cta-registry.yaml')): string[] {
+  if (!cached) {
+    cached = parseCtaDestinations(readFileSync(file, 'utf8'));
+  }
+  return cached;
+}
@@ -0,0 +1,75 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import type { StoredEvent } from './events';
+
+/**
+ * Append-only event log. Events are never updated or deleted by the site;
+ * retention is handled by rotating the file.
+ */
+export interface EventStore {
+  readonly name: string;
+  append(events: StoredEvent[]): Promise<void>;
+  read(): Promise<StoredEvent[]>;
+}
+
+export function getEventsFile(env: Partial<NodeJS.ProcessEnv> = process.env): string {
+  return env.ANALYTICS_EVENTS_FILE || path.join(process.cwd(), '.data', 'events.jsonl');
+}
+
+/**
+ * One JSON event per line. Appends are serialized within the process so
+ * concurrent requests never interleave partial lines.
+ */
+export function createJsonlEventStore(file = getEventsFile()): EventStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    name: 'jsonl',
+
+    append(events) {
+      const next = queue.then(async () => {
+        await mkdir(path.dirname(file), { recursive: true });
+        await appendFile(file, events.map((event) => `${JSON.stringify(event)}\n`).join(''), 'utf8');
+      });
+      queue = next.catch(() => undefined);
+      return next;
+    },
+
+    async read() {
+      let source: string;
+      try {
+        source = await readFile(file, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+      // Skip a truncated last line (e.g. a crash mid-append) instead of failing the report
+      return source.split('\n').flatMap((line) => {
+        if (!line.trim()) {
+          return [];
+        }
+        try {
+          return [JSON.parse(line) as StoredEvent];
+        } catch {
+          return [];
+        }
+      });
+    },
+  };
+}
+
+let store: EventStore | undefined;
+
+export function getEventStore(): EventStore {
+  if (!store) {
+    store = createJsonlEventStore();
+  }
+  return store;
+}
+
+// Swap the active store (tests, custom integrations)
+export function setEventStore(next: EventStore | undefined) {
+  store = next;
+}
@@ -0,0 +1,90 @@
+import { hasConsent, readConsentCookie } from '@/lib/consent/consent';
+import { locales, type Locale } from '@/lib/i18n/config';
+import { getInternalPathname } from '@/lib/i18n/pathnames';
+import type { AnalyticsEvent, DeviceClass } from './events';
+import { browserOptsOut } from './privacy';
+
+const SESSION_KEY = 'dualys_analytics_session';
+const ENDPOINT = '/api/events';
+
+// Distributive Omit so each event variant keeps its own fields
+type EventInput = AnalyticsEvent extends infer E
+  ? E extends AnalyticsEvent ? Omit<E, 'sessionId' | 'device' | 'locale'> : never
+  : never;
+
+let memorySessionId: string | undefined;
+let currentLocale: Locale | undefined;
+
+function randomId() {
+  return Math.random().toString(36).slice(2, 12) + Date.now().toString(36);
+}
+
+function getSessionId(): string {
+  try {
+    let id = sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = randomId();
+      sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    // Storage disabled: fall back to a per-page-load id
+    memorySessionId ??= randomId();
+    return memorySessionId;
+  }
+}
+
+function getDevice(): DeviceClass {
+  return window.matchMedia?.('(max-width: 767px)').matches ? 'mobile' : 'desktop';
+}
+
+/**
+ * True when events may be sent: analytics consent is stored
+ * and the browser does not signal Do-Not-Track or GPC.
+ */
+export function isTrackingAllowed(): boolean {
+  return !browserOptsOut() && hasConsent(readConsentCookie(), 'analytics');
+}
+
+// Set by the Analytics component so track() callers need not pass the locale
+export function setTrackingLocale(locale: Locale) {
+  currentLocale = locale;
+}
+
+export function sendEvent(input: EventInput): boolean {
+  if (!currentLocale || !isTrackingAllowed()) {
+    return false;
+  }
+
+  const event = { ...input, locale: currentLocale, sessionId: getSessionId(), device: getDevice() };
+  const body = JSON.stringify({ events: [event] });
+
+  // sendBeacon survives navigations triggered by the very click being tracked
+  if (navigator.sendBeacon?.(ENDPOINT, new Blob([body], { type: 'application/json' }))) {
+    return true;
+  }
+  fetch(ENDPOINT, { method: 'POST', body, keepalive: true, headers: { 'Content-Type': 'application/json' } })
+    .catch(() => undefined);
+  return true;
+}
+
+/**
+ * Record a named custom event, e.g. `track('contact_submitted', { topic })`.
+ * A no-op without analytics consent or with Do-Not-Track enabled.
+ */
+export function track(name: string, props?: Record<string, string | number | boolean>, path = currentPath()): boolean {
+  return sendEvent({ type: 'event', name, props, path });
+}
+
+// Events are keyed by locale-less internal paths ("/ca/contacte" -> "/contact")
+export function stripLocale(pathname: string): string {
+  const [, first, ...rest] = pathname.split('/');
+  if ((locales as readonly string[]).includes(first)) {
+    return getInternalPathname(`/${rest.join('/')}`, first as Locale);
+  }
+  return pathname || '/';
+}
+
+function currentPath() {
+  return stripLocale(window.location.pathname);
+}
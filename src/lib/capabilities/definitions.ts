@@ -0,0 +1,159 @@
+import type { InquiryTopic } from '@/lib/contact/topics';
+import type { Messages, MessageKey } from '@/lib/i18n/messages';
+
+/**
+ * Icons a capability definition can reference. Keys map to lucide icons in
+ * src/components/content/capabilityIcons.ts so this module stays data-only.
+ */
+export const capabilityIconKeys = [
+  'Shield', 'Lock', 'HeartPulse', 'Layers',
+  'Plane', 'Radio', 'Target', 'Eye', 'Cpu',
+  'Server', 'Network', 'Key', 'AlertTriangle',
+  'Microscope', 'Activity', 'FlaskConical', 'Syringe', 'ShieldCheck',
+  'Flame', 'Mountain', 'Waves', 'Building2',
+] as const;
+
+export type CapabilityIconKey = (typeof capabilityIconKeys)[number];
+
+// Which side of dual use an application serves; drives the use-case badge
+export const useCaseTypes = ['defense', 'civil'] as const;
+
+export type UseCaseType = (typeof useCaseTypes)[number];
+
+export interface CapabilityItem {
+  // Message key under `technologies.items`
+  key: string;
+  icon: CapabilityIconKey;
+}
+
+export interface CapabilityUseCase {
+  // Message key under `useCases.items`
+  key: string;
+  type: UseCaseType;
+  icon?: CapabilityIconKey;
+}
+
+export interface CapabilityLink {
+  path: string;
+  label: MessageKey<'nav'>;
+}
+
+// Capability with hub card text in `capabilities` and a page in `pages`
+export type CapabilityMessageKey = Exclude<keyof Messages['capabilities'], 'title' | 'subtitle'>;
+
+/**
+ * Structure of a capability page. Copy lives in the `pages.<messageKey>`
+ * namespace (hub card text in `capabilities.<messageKey>`); optional
+ * sections are rendered only when their data is present.
+ */
+export interface CapabilityDefinition {
+  // URL segment under /capabilities
+  slug: string;
+  messageKey: CapabilityMessageKey;
+  icon: CapabilityIconKey;
+  technologies: CapabilityItem[];
+  // Side-by-side defense / civil application lists (`comparison.<type>.items`)
+  comparison?: Record<UseCaseType, string[]>;
+  // An empty list renders the section intro without cards
+  useCases?: CapabilityUseCase[];
+  // Badges in the standards section (names, not translated)
+  standards?: string[];
+  // Secondary CTAs, mirrored in cta-registry.yaml capability_to_sector
+  related: CapabilityLink[];
+  // Inquiry topic preselected by the primary CTA into the contact form
+  contactTopic: InquiryTopic;
+}
+
+export const capabilities: CapabilityDefinition[] = [
+  {
+    slug: 'defense',
+    messageKey: 'defense',
+    icon: 'Shield',
+    technologies: [
+      { key: 'uav', icon: 'Plane' },
+      { key: 'comms', icon: 'Radio' },
+      { key: 'sensors', icon: 'Target' },
+      { key: 'surveillance', icon: 'Eye' },
+      { key: 'autonomous', icon: 'Cpu' },
+      { key: 'protection', icon: 'Shield' },
+    ],
+    useCases: [
+      { key: 'borderSurveillance', type: 'defense' },
+      { key: 'searchRescue', type: 'civil' },
+      { key: 'maritimeSecurity', type: 'defense' },
+    ],
+    related: [
+      { path: '/capabilities/dual-use', label: 'dualUse' },
+      { path: '/sectors', label: 'sectors' },
+    ],
+    contactTopic: 'defense',
+  },
+  {
+    slug: 'cybersecurity',
+    messageKey: 'cybersecurity',
+    icon: 'Lock',
+    technologies: [
+      { key: 'protection', icon: 'Shield' },
+      { key: 'infrastructure', icon: 'Server' },
+      { key: 'network', icon: 'Network' },
+      { key: 'crypto', icon: 'Key' },
+      { key: 'threat', icon: 'AlertTriangle' },
+      { key: 'compliance', icon: 'Lock' },
+    ],
+    standards: ['ISO 27001', 'NIS2', 'GDPR', 'ENS', 'NIST'],
+    related: [
+      { path: '/capabilities/defense', label: 'defense' },
+      { path: '/about/partners', label: 'partners' },
+    ],
+    contactTopic: 'cybersecurity',
+  },
+  {
+    slug: 'biosecurity',
+    messageKey: 'biosecurity',
+    icon: 'HeartPulse',
+    technologies: [
+      { key: 'detection', icon: 'Microscope' },
+      { key: 'monitoring', icon: 'Activity' },
+      { key: 'response', icon: 'FlaskConical' },
+      { key: 'medical', icon: 'Syringe' },
+      { key: 'protection', icon: 'ShieldCheck' },
+      { key: 'health', icon: 'HeartPulse' },
+    ],
+    useCases: [],
+    related: [
+      { path: '/capabilities/dual-use', label: 'dualUse' },
+      { path: '/news', label: 'news' },
+    ],
+    contactTopic: 'biosecurity',
+  },
+  {
+    slug: 'dual-use',
+    messageKey: 'dualUse',
+    icon: 'Layers',
+    technologies: [],
+    comparison: {
+      defense: ['surveillance', 'comms', 'autonomous'],
+      civil: ['emergency', 'infrastructure', 'environment'],
+    },
+    useCases: [
+      { key: 'firefighting', type: 'civil', icon: 'Flame' },
+      { key: 'rescue', type: 'civil', icon: 'Mountain' },
+      { key: 'maritime', type: 'civil', icon: 'Waves' },
+      { key: 'infrastructure', type: 'civil', icon: 'Building2' },
+    ],
+    related: [
+      { path: '/capabilities/defense', label: 'defense' },
+      { path: '/capabilities/cybersecurity', label: 'cybersecurity' },
+      { path: '/capabilities/biosecurity', label: 'biosecurity' },
+    ],
+    contactTopic: 'dual-use',
+  },
+];
+
+export function getCapabilityPath(slug: string): string {
+  return `/capabilities/${slug}`;
+}
+
+export function getCapability(slug: string): CapabilityDefinition | undefined {
+  return capabilities.find((capability) => capability.slug === slug);
+}
@@ -0,0 +1,81 @@
+export const consentCategories = ['necessary', 'analytics', 'marketing'] as const;
+export type ConsentCategory = (typeof consentCategories)[number];
+export type OptionalConsentCategory = Exclude<ConsentCategory, 'necessary'>;
+
+export const optionalConsentCategories: readonly OptionalConsentCategory[] = ['analytics', 'marketing'];
+
+export const CONSENT_COOKIE = 'dualys_consent';
+
+// Bump when the cookie policy changes in a way that needs fresh consent;
+// stored choices with an older version are ignored and the banner returns.
+export const CONSENT_VERSION = 1;
+
+// Six months, after which visitors are asked again
+export const CONSENT_MAX_AGE_SECONDS = 180 * 24 * 60 * 60;
+
+export type ConsentChoices = Record<OptionalConsentCategory, boolean>;
+
+export interface ConsentState extends ConsentChoices {
+  version: number;
+  // ISO timestamp of the choice, kept as proof of consent
+  updatedAt: string;
+}
+
+export function createConsent(choices: ConsentChoices, now = new Date()): ConsentState {
+  return { version: CONSENT_VERSION, ...choices, updatedAt: now.toISOString() };
+}
+
+export function serializeConsent(state: ConsentState): string {
+  return encodeURIComponent(JSON.stringify(state));
+}
+
+/**
+ * Parse the consent cookie value. Missing, malformed and outdated
+ * (older policy version) values all read as "not decided yet".
+ */
+export function parseConsent(value: string | undefined): ConsentState | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(decodeURIComponent(value)) as Partial<ConsentState>;
+    if (
+      parsed.version !== CONSENT_VERSION
+      || typeof parsed.analytics !== 'boolean'
+      || typeof parsed.marketing !== 'boolean'
+      || typeof parsed.updatedAt !== 'string'
+    ) {
+      return undefined;
+    }
+    return {
+      version: parsed.version,
+      analytics: parsed.analytics,
+      marketing: parsed.marketing,
+      updatedAt: parsed.updatedAt,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+// Strictly necessary cookies never need consent; everything else is opt-in
+export function hasConsent(state: ConsentState | undefined, category: ConsentCategory): boolean {
+  return category === 'necessary' || state?.[category] === true;
+}
+
+// Client-side read of the consent cookie, for code outside React (e.g. trackers)
+export function readConsentCookie(): ConsentState | undefined {
+  if (typeof document === 'undefined') {
+    return undefined;
+  }
+  const entry = document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsent(entry?.slice(CONSENT_COOKIE.length + 1));
+}
+
+export function writeConsentCookie(state: ConsentState) {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${CONSENT_COOKIE}=${serializeConsent(state)}; Path=/; Max-Age=${CONSENT_MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+}
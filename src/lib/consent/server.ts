@@ -0,0 +1,15 @@
+import { cookies } from 'next/headers';
+import { CONSENT_COOKIE, hasConsent, parseConsent, type ConsentCategory, type ConsentState } from './consent';
+
+/**
+ * Consent of the current request's visitor, for server components and
+ * route handlers. Reading cookies opts the caller into dynamic rendering.
+ */
+export async function getConsent(): Promise<ConsentState | undefined> {
+  const store = await cookies();
+  return parseConsent(store.get(CONSENT_COOKIE)?.value);
+}
+
+export async function hasServerConsent(category: ConsentCategory): Promise<boolean> {
+  return hasConsent(await getConsent(), category);
+}
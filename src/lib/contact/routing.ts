@@ -0,0 +1,29 @@
+import type { InquiryTopic } from './topics';
+
+// Topics with a dedicated inbox; everything else goes to CONTACT_EMAIL
+const defaultRecipients: Partial<Record<InquiryTopic, string>> = {
+  press: 'press@dualys.eu',
+};
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Recipient list for a topic. Each topic can be routed with
+ * CONTACT_RECIPIENTS_<TOPIC> (e.g. CONTACT_RECIPIENTS_DUAL_USE="a@x.eu,b@x.eu"),
+ * falling back to the topic default and then to CONTACT_EMAIL.
+ */
+export function getRecipients(topic: InquiryTopic, env: Partial<NodeJS.ProcessEnv> = process.env): string[] {
+  const envKey = `CONTACT_RECIPIENTS_${topic.toUpperCase().replace(/-/g, '_')}`;
+  const configured = parseList(env[envKey]);
+  if (configured.length > 0) {
+    return configured;
+  }
+
+  const fallback = defaultRecipients[topic] ?? env.CONTACT_EMAIL ?? 'contact@dualys.eu';
+  return parseList(fallback);
+}
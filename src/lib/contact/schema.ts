@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { locales } from '@/lib/i18n/config';
+import type { MessageKey } from '@/lib/i18n/messages';
+import { formProtectionSchema } from '@/lib/spam/fields';
+import {
+  defaultTopic,
+  inquiryTopics,
+  organizationTypes,
+  requiredTopicFields,
+  topicFields,
+  type TopicField,
+} from './topics';
+
+/**
+ * Contact form fields shared by the client form and the /api/contact route.
+ * Error messages are translation keys under `contact.form.errors`, so both
+ * sides report the same codes and the form renders them in the active locale.
+ */
+const contactFields = z.object({
+  topic: z.enum(inquiryTopics, 'topicInvalid').default(defaultTopic),
+  name: z.string().trim().min(2, 'nameTooShort'),
+  email: z.string().trim().email('emailInvalid'),
+  organization: z.string().trim().optional(),
+  organizationType: z.enum(organizationTypes, 'organizationTypeRequired').optional(),
+  programName: z.string().trim().optional(),
+  mediaOutlet: z.string().trim().optional(),
+  subject: z.string().trim().min(5, 'subjectTooShort'),
+  message: z.string().trim().min(20, 'messageTooShort'),
+});
+
+const requiredFieldErrors: Record<TopicField, MessageKey<'contact.form.errors'>> = {
+  organizationType: 'organizationTypeRequired',
+  programName: 'programNameRequired',
+  mediaOutlet: 'mediaOutletRequired',
+};
+
+// Every code under contact.form.errors; zod's own messages (wrong types, unknown shapes) are English text
+const fieldErrorCodes: ReadonlySet<string> = new Set(Object.keys({
+  nameTooShort: true,
+  emailInvalid: true,
+  subjectTooShort: true,
+  messageTooShort: true,
+  topicInvalid: true,
+  organizationTypeRequired: true,
+  programNameRequired: true,
+  mediaOutletRequired: true,
+  invalid: true,
+} satisfies Record<MessageKey<'contact.form.errors'>, true>));
+
+function requireTopicFields(data: z.infer<typeof contactFields>, ctx: z.RefinementCtx) {
+  for (const field of requiredTopicFields[data.topic] ?? []) {
+    if (!data[field]) {
+      ctx.addIssue({ code: 'custom', path: [field], message: requiredFieldErrors[field] });
+    }
+  }
+}
+
+export const contactSchema = contactFields.superRefine(requireTopicFields);
+
+export type ContactFormData = z.input<typeof contactSchema>;
+export type ContactSubmission = z.output<typeof contactSchema>;
+export type ContactField = keyof ContactFormData;
+
+// Payload accepted by /api/contact: the form fields plus request context
+export const contactRequestSchema = contactFields
+  .extend({
+    locale: z.enum(locales).optional(),
+    ...formProtectionSchema.shape,
+  })
+  .superRefine(requireTopicFields);
+
+export type ContactRequest = z.infer<typeof contactRequestSchema>;
+
+export type ContactFieldErrors = Partial<Record<ContactField, string>>;
+
+export type ContactErrorCode =
+  | 'invalidRequest'
+  | 'validation'
+  | 'delivery'
+  | 'rateLimited'
+  | 'rejected';
+
+export type ContactResponse =
+  | { ok: true }
+  | { ok: false; error: ContactErrorCode; fieldErrors?: ContactFieldErrors };
+
+/**
+ * Drop extra fields that don't belong to the submission's topic,
+ * e.g. a program name left over after switching from defense to press.
+ */
+export function pickTopicFields(submission: ContactSubmission): ContactSubmission {
+  const allowed = new Set<string>(topicFields[submission.topic]);
+  const result = { ...submission };
+  for (const field of Object.keys(requiredFieldErrors) as TopicField[]) {
+    if (!allowed.has(field)) {
+      delete result[field];
+    }
+  }
+  return result;
+}
+
+/**
+ * Flatten zod issues into one error code per top-level field
+ * (first issue wins), matching react-hook-form's error shape. Issues
+ * without one of our codes, e.g. a number sent as the name, become `invalid`.
+ */
+export function getFieldErrors(error: z.ZodError): ContactFieldErrors {
+  const fieldErrors: ContactFieldErrors = {};
+  for (const issue of error.issues) {
+    const field = issue.path[0];
+    if (typeof field === 'string' && field in contactFields.shape && !(field in fieldErrors)) {
+      fieldErrors[field as ContactField] = fieldErrorCodes.has(issue.message) ? issue.message : 'invalid';
+    }
+  }
+  return fieldErrors;
+}
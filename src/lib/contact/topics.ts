@@ -0,0 +1,68 @@
+/**
+ * Inquiry topics for the contact form. The topic is prefilled from the
+ * `?topic=` query param set by CTAs and drives both the extra fields shown
+ * in the form and the recipient list on the server.
+ */
+export const inquiryTopics = [
+  'general',
+  'defense',
+  'cybersecurity',
+  'biosecurity',
+  'dual-use',
+  'partnership',
+  'press',
+  'careers',
+] as const;
+
+export type InquiryTopic = (typeof inquiryTopics)[number];
+
+export const defaultTopic: InquiryTopic = 'general';
+
+export const organizationTypes = [
+  'eu-institution',
+  'government',
+  'defense-industry',
+  'sme',
+  'academic',
+  'research-center',
+  'other',
+] as const;
+
+export type OrganizationType = (typeof organizationTypes)[number];
+
+export type TopicField = 'organizationType' | 'programName' | 'mediaOutlet';
+
+// Capability inquiries usually come from institutions running a program
+const institutionalFields: TopicField[] = ['organizationType', 'programName'];
+
+export const topicFields: Record<InquiryTopic, TopicField[]> = {
+  general: [],
+  defense: institutionalFields,
+  cybersecurity: institutionalFields,
+  biosecurity: institutionalFields,
+  'dual-use': institutionalFields,
+  partnership: ['organizationType'],
+  press: ['mediaOutlet'],
+  careers: [],
+};
+
+// Extra fields the visitor must fill in for a topic
+export const requiredTopicFields: Partial<Record<InquiryTopic, TopicField[]>> = {
+  defense: ['organizationType'],
+  cybersecurity: ['organizationType'],
+  biosecurity: ['organizationType'],
+  'dual-use': ['organizationType'],
+  partnership: ['organizationType'],
+  press: ['mediaOutlet'],
+};
+
+export function isInquiryTopic(value: unknown): value is InquiryTopic {
+  return typeof value === 'string' && (inquiryTopics as readonly string[]).includes(value);
+}
+
+/**
+ * Contact page path with the topic preselected, for CTA links.
+ */
+export function getContactPath(topic?: InquiryTopic): string {
+  return topic && topic !== defaultTopic ? `/contact?topic=${topic}` : '/contact';
+}
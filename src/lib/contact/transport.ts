@@ -0,0 +1,53 @@
+import type { Locale } from '@/lib/i18n/config';
+import type { ContactSubmission } from './schema';
+import { createOutboxTransport } from './transports/outbox';
+import { createSmtpTransport } from './transports/smtp';
+
+export interface ContactMessage {
+  id: string;
+  receivedAt: string;
+  locale: Locale;
+  // Resolved from the inquiry topic, see getRecipients
+  recipients: string[];
+  submission: ContactSubmission;
+}
+
+/**
+ * Delivery backend for validated contact submissions.
+ * Implementations throw when the message could not be handed off.
+ */
+export interface ContactTransport {
+  readonly name: string;
+  send(message: ContactMessage): Promise<void>;
+}
+
+export type ContactTransportName = 'smtp' | 'outbox';
+
+/**
+ * Resolve the transport from the environment.
+ * CONTACT_TRANSPORT wins; otherwise SMTP is used when SMTP_HOST is set,
+ * falling back to the file outbox for local development and tests.
+ */
+export function resolveTransportName(env: Partial<NodeJS.ProcessEnv> = process.env): ContactTransportName {
+  const configured = env.CONTACT_TRANSPORT;
+  if (configured === 'smtp' || configured === 'outbox') {
+    return configured;
+  }
+  return env.SMTP_HOST ? 'smtp' : 'outbox';
+}
+
+let transport: ContactTransport | undefined;
+
+export function getContactTransport(): ContactTransport {
+  if (!transport) {
+    transport = resolveTransportName() === 'smtp'
+      ? createSmtpTransport()
+      : createOutboxTransport();
+  }
+  return transport;
+}
+
+// Swap the active transport (tests, custom integrations)
+export function setContactTransport(next: ContactTransport | undefined) {
+  transport = next;
+}
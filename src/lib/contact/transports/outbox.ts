@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { ContactTransport } from '../transport';
+
+/**
+ * File-backed outbox: writes each submission as a JSON file.
+ * Used for local development and tests where no mail server is available.
+ */
+export function createOutboxTransport(
+  dir = process.env.CONTACT_OUTBOX_DIR || path.join(process.cwd(), '.outbox', 'contact')
+): ContactTransport {
+  return {
+    name: 'outbox',
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const fileName = `${message.receivedAt.replace(/[:.]/g, '-')}-${message.id}.json`;
+      await writeFile(path.join(dir, fileName), JSON.stringify(message, null, 2), 'utf8');
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import nodemailer from 'nodemailer';
+import type { ContactMessage, ContactTransport } from '../transport';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export function readSmtpConfig(env: NodeJS.ProcessEnv = process.env): SmtpConfig {
+  if (!env.SMTP_HOST) {
+    throw new Error('SMTP transport requires SMTP_HOST to be set');
+  }
+
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || 587,
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM || env.SMTP_USER || 'no-reply@dualys.eu',
+  };
+}
+
+function formatBody({ submission, locale, receivedAt }: ContactMessage): string {
+  return [
+    `Topic: ${submission.topic}`,
+    `Name: ${submission.name}`,
+    `Email: ${submission.email}`,
+    `Organization: ${submission.organization || '-'}`,
+    ...(submission.organizationType ? [`Organization type: ${submission.organizationType}`] : []),
+    ...(submission.programName ? [`Program: ${submission.programName}`] : []),
+    ...(submission.mediaOutlet ? [`Media outlet: ${submission.mediaOutlet}`] : []),
+    `Locale: ${locale}`,
+    `Received: ${receivedAt}`,
+    '',
+    submission.message,
+  ].join('\n');
+}
+
+export function createSmtpTransport(config: SmtpConfig = readSmtpConfig()): ContactTransport {
+  const mailer = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await mailer.sendMail({
+        from: config.from,
+        to: message.recipients,
+        replyTo: message.submission.email,
+        subject: `[dualys.eu/${message.submission.topic}] ${message.submission.subject}`,
+        text: formatBody(message),
+      });
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import type { Article, ArticleCategory } from './types';
+
+export const NEWS_PAGE_SIZE = 9;
+
+/**
+ * Articles sharing the category of `article`, topped up with the latest
+ * other articles when the category alone doesn't fill the list.
+ * Expects `articles` newest first, as returned by getArticles.
+ */
+export function getRelatedArticles(articles: Article[], article: Article, limit = 3): Article[] {
+  const others = articles.filter((candidate) => candidate.slug !== article.slug);
+  const sameCategory = others.filter((candidate) => candidate.category === article.category);
+  const rest = others.filter((candidate) => candidate.category !== article.category);
+
+  return [...sameCategory, ...rest].slice(0, limit);
+}
+
+/**
+ * Chronological neighbours of an article: `previous` is the next older
+ * article, `next` the next newer one.
+ */
+export function getAdjacentArticles(articles: Article[], slug: string) {
+  const index = articles.findIndex((article) => article.slug === slug);
+  if (index === -1) {
+    return { previous: undefined, next: undefined };
+  }
+
+  return {
+    previous: articles[index + 1] as Article | undefined,
+    next: index > 0 ? articles[index - 1] : undefined,
+  };
+}
+
+export interface NewsFilter {
+  category?: ArticleCategory;
+  year?: number;
+  // 1-12, only meaningful together with `year`
+  month?: number;
+}
+
+export function filterArticles(articles: Article[], { category, year, month }: NewsFilter): Article[] {
+  return articles.filter((article) => {
+    const published = new Date(article.publishedAt);
+    return (!category || article.category === category)
+      && (!year || published.getUTCFullYear() === year)
+      && (!month || published.getUTCMonth() + 1 === month);
+  });
+}
+
+/**
+ * The article shown in the featured slot: the newest pinned one,
+ * or simply the newest article when nothing is pinned.
+ */
+export function getFeaturedArticle(articles: Article[]): Article | undefined {
+  return articles.find((article) => article.featured) ?? articles[0];
+}
+
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  totalPages: number;
+}
+
+// Returns undefined for pages past the end; page 1 always exists (possibly empty)
+export function paginate<T>(items: T[], page: number, pageSize = NEWS_PAGE_SIZE): Paginated<T> | undefined {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  if (!Number.isInteger(page) || page < 1 || page > totalPages) {
+    return undefined;
+  }
+
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    totalPages,
+  };
+}
+
+export interface NewsListing extends Paginated<Article> {
+  featured?: Article;
+}
+
+/**
+ * One page of a news listing. The featured article leads the unfiltered
+ * index and is left out of its pages; archive views fit on a single page.
+ */
+export function getNewsListing(articles: Article[], filter: NewsFilter = {}, page = 1): NewsListing | undefined {
+  const filtered = filterArticles(articles, filter);
+  const featured = !filter.category && !filter.year ? getFeaturedArticle(filtered) : undefined;
+  const rest = filtered.filter((article) => article !== featured);
+  const pageSize = filter.year ? Math.max(rest.length, 1) : NEWS_PAGE_SIZE;
+
+  const paginated = paginate(rest, page, pageSize);
+  if (!paginated) {
+    return undefined;
+  }
+  return { ...paginated, featured: page === 1 ? featured : undefined };
+}
+
+export interface ArchiveYear {
+  year: number;
+  count: number;
+  months: { month: number; count: number }[];
+}
+
+// Years and months that have articles, newest first, with article counts
+export function getArchive(articles: Article[]): ArchiveYear[] {
+  const years = new Map<number, Map<number, number>>();
+  for (const article of articles) {
+    const published = new Date(article.publishedAt);
+    const year = published.getUTCFullYear();
+    const month = published.getUTCMonth() + 1;
+    const months = years.get(year) ?? new Map<number, number>();
+    months.set(month, (months.get(month) ?? 0) + 1);
+    years.set(year, months);
+  }
+
+  return [...years.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([year, months]) => ({
+      year,
+      count: [...months.values()].reduce((sum, count) => sum + count, 0),
+      months: [...months.entries()]
+        .sort(([a], [b]) => b - a)
+        .map(([month, count]) => ({ month, count })),
+    }));
+}
+
+/**
+ * Locale-relative path of a news listing, e.g. `/news/category/partnership/page/2`
+ * or `/news/archive/2026/01`. Archive views are not paginated.
+ */
+export function getNewsPath({ category, year, month }: NewsFilter = {}, page = 1): string {
+  if (year) {
+    return month
+      ? `/news/archive/${year}/${String(month).padStart(2, '0')}`
+      : `/news/archive/${year}`;
+  }
+
+  const base = category ? `/news/category/${category}` : '/news';
+  return page > 1 ? `${base}/page/${page}` : base;
+}
@@ -0,0 +1,191 @@
+import { getTranslations } from 'next-intl/server';
+import type { Locale } from '@/lib/i18n/config';
+import { baseUrl, getLocalizedUrl } from '@/lib/seo/metadata';
+import { getArticles } from './index';
+import type { Article } from './types';
+
+export const feedFormats = {
+  rss: { file: 'feed.xml', contentType: 'application/rss+xml' },
+  atom: { file: 'atom.xml', contentType: 'application/atom+xml' },
+  json: { file: 'feed.json', contentType: 'application/feed+json' },
+} as const;
+
+export type FeedFormat = keyof typeof feedFormats;
+
+export interface NewsFeed {
+  locale: Locale;
+  title: string;
+  description: string;
+  // Articles newest first, as returned by getArticles
+  articles: Article[];
+}
+
+function newsUrl(locale: Locale, path = '') {
+  return getLocalizedUrl(locale, `/news${path}`);
+}
+
+export function getFeedUrl(locale: Locale, format: FeedFormat) {
+  return newsUrl(locale, `/${feedFormats[format].file}`);
+}
+
+/**
+ * `<link rel="alternate">` entries so browsers and feed readers
+ * discover the feeds from any news page.
+ */
+export function getFeedAlternates(locale: Locale): Record<string, string> {
+  return Object.fromEntries(
+    (Object.keys(feedFormats) as FeedFormat[]).map((format) => [
+      feedFormats[format].contentType,
+      getFeedUrl(locale, format),
+    ])
+  );
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function absoluteImage(image: string) {
+  return image.startsWith('http') ? image : `${baseUrl}${image}`;
+}
+
+const imageTypes: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+};
+
+// Media RSS rather than <enclosure>, which requires the byte length
+function mediaContent(image: string) {
+  const extension = /\.(\w+)(?:[?#].*)?$/.exec(image)?.[1].toLowerCase() ?? '';
+  const type = imageTypes[extension];
+  return `<media:content url="${escapeXml(absoluteImage(image))}" medium="image"${type ? ` type="${type}"` : ''}/>`;
+}
+
+function lastUpdated({ articles }: NewsFeed) {
+  const [latest] = articles;
+  return new Date(latest ? latest.updatedAt ?? latest.publishedAt : 0);
+}
+
+export function buildRssFeed(feed: NewsFeed): string {
+  const items = feed.articles.map((article) => {
+    const url = newsUrl(feed.locale, `/${article.slug}`);
+    return [
+      '    <item>',
+      `      <title>${escapeXml(article.title)}</title>`,
+      `      <link>${url}</link>`,
+      `      <guid isPermaLink="true">${url}</guid>`,
+      `      <description>${escapeXml(article.excerpt)}</description>`,
+      `      <pubDate>${new Date(article.publishedAt).toUTCString()}</pubDate>`,
+      `      <category>${escapeXml(article.category)}</category>`,
+      ...(article.author ? [`      <dc:creator>${escapeXml(article.author)}</dc:creator>`] : []),
+      ...(article.image ? [`      ${mediaContent(article.image)}`] : []),
+      '    </item>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${newsUrl(feed.locale)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <language>${feed.locale}</language>`,
+    `    <lastBuildDate>${lastUpdated(feed).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${getFeedUrl(feed.locale, 'rss')}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function buildAtomFeed(feed: NewsFeed): string {
+  const entries = feed.articles.map((article) => {
+    const url = newsUrl(feed.locale, `/${article.slug}`);
+    return [
+      '  <entry>',
+      `    <id>${url}</id>`,
+      `    <title>${escapeXml(article.title)}</title>`,
+      `    <link href="${url}"/>`,
+      `    <published>${new Date(article.publishedAt).toISOString()}</published>`,
+      `    <updated>${new Date(article.updatedAt ?? article.publishedAt).toISOString()}</updated>`,
+      `    <summary>${escapeXml(article.excerpt)}</summary>`,
+      `    <category term="${escapeXml(article.category)}"/>`,
+      `    <author><name>${escapeXml(article.author ?? 'Dualys')}</name></author>`,
+      '  </entry>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.locale}">`,
+    `  <id>${newsUrl(feed.locale)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <updated>${lastUpdated(feed).toISOString()}</updated>`,
+    `  <link href="${newsUrl(feed.locale)}"/>`,
+    `  <link rel="self" href="${getFeedUrl(feed.locale, 'atom')}" type="application/atom+xml"/>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+// JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+export function buildJsonFeed(feed: NewsFeed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: newsUrl(feed.locale),
+    feed_url: getFeedUrl(feed.locale, 'json'),
+    language: feed.locale,
+    items: feed.articles.map((article) => ({
+      id: newsUrl(feed.locale, `/${article.slug}`),
+      url: newsUrl(feed.locale, `/${article.slug}`),
+      title: article.title,
+      summary: article.excerpt,
+      content_text: article.excerpt,
+      image: article.image ? absoluteImage(article.image) : undefined,
+      date_published: new Date(article.publishedAt).toISOString(),
+      date_modified: article.updatedAt ? new Date(article.updatedAt).toISOString() : undefined,
+      authors: [{ name: article.author ?? 'Dualys' }],
+      tags: [article.category],
+    })),
+  }, null, 2);
+}
+
+const builders: Record<FeedFormat, (feed: NewsFeed) => string> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed,
+};
+
+/**
+ * Route handler response for one of the per-locale news feeds,
+ * built from the same content source as the news pages.
+ */
+export async function newsFeedResponse(locale: Locale, format: FeedFormat): Promise<Response> {
+  const t = await getTranslations({ locale, namespace: 'pages.news' });
+  const feed: NewsFeed = {
+    locale,
+    title: t('meta.title'),
+    description: t('meta.description'),
+    articles: await getArticles(locale),
+  };
+
+  return new Response(builders[format](feed), {
+    headers: { 'Content-Type': `${feedFormats[format].contentType}; charset=utf-8` },
+  });
+}
@@ -0,0 +1,68 @@
+import type { Locale } from '@/lib/i18n/config';
+import { createContentfulProvider } from './providers/contentful';
+import { createFileSystemProvider } from './providers/filesystem';
+import type { ContentProvider } from './types';
+
+export * from './types';
+export {
+  NEWS_PAGE_SIZE,
+  filterArticles,
+  getAdjacentArticles,
+  getArchive,
+  getFeaturedArticle,
+  getNewsListing,
+  getNewsPath,
+  getRelatedArticles,
+  paginate,
+  type ArchiveYear,
+  type NewsFilter,
+  type NewsListing,
+  type Paginated,
+} from './articles';
+
+export type ContentProviderName = 'filesystem' | 'contentful';
+
+/**
+ * Resolve the content provider from the environment.
+ * CONTENT_PROVIDER wins; otherwise Contentful is used when a space is
+ * configured, falling back to the local `content/` directory.
+ */
+export function resolveProviderName(env: Partial<NodeJS.ProcessEnv> = process.env): ContentProviderName {
+  const configured = env.CONTENT_PROVIDER;
+  if (configured === 'filesystem' || configured === 'contentful') {
+    return configured;
+  }
+  return env.CONTENTFUL_SPACE_ID ? 'contentful' : 'filesystem';
+}
+
+let provider: ContentProvider | undefined;
+
+export function getContentProvider(): ContentProvider {
+  if (!provider) {
+    provider = resolveProviderName() === 'contentful'
+      ? createContentfulProvider()
+      : createFileSystemProvider();
+  }
+  return provider;
+}
+
+// Swap the active provider (tests, previews)
+export function setContentProvider(next: ContentProvider | undefined) {
+  provider = next;
+}
+
+export function getArticles(locale: Locale) {
+  return getContentProvider().getArticles(locale);
+}
+
+export function getArticle(locale: Locale, slug: string) {
+  return getContentProvider().getArticle(locale, slug);
+}
+
+export function getTeamMembers(locale: Locale) {
+  return getContentProvider().getTeamMembers(locale);
+}
+
+export function getPartners(locale: Locale) {
+  return getContentProvider().getPartners(locale);
+}
@@ -0,0 +1,167 @@
+import { createClient, type Asset, type EntryFieldTypes, type EntrySkeletonType } from 'contentful';
+import type { Document } from '@contentful/rich-text-types';
+import type { Locale } from '@/lib/i18n/config';
+import {
+  articleCategories,
+  partnerCategories,
+  type Article,
+  type ArticleCategory,
+  type ContentProvider,
+  type PartnerCategory,
+} from '../types';
+
+// Content models as configured in the Contentful space (see backlog TASK-001)
+type NewsArticleSkeleton = EntrySkeletonType<{
+  title: EntryFieldTypes.Symbol;
+  slug: EntryFieldTypes.Symbol;
+  excerpt: EntryFieldTypes.RichText;
+  body: EntryFieldTypes.RichText;
+  category: EntryFieldTypes.Symbol;
+  publishDate: EntryFieldTypes.Date;
+  author?: EntryFieldTypes.Symbol;
+  featuredImage?: EntryFieldTypes.AssetLink;
+  featured?: EntryFieldTypes.Boolean;
+}, 'newsArticle'>;
+
+type TeamMemberSkeleton = EntrySkeletonType<{
+  name: EntryFieldTypes.Symbol;
+  role: EntryFieldTypes.Symbol;
+  bio: EntryFieldTypes.Text;
+  photo?: EntryFieldTypes.AssetLink;
+  linkedIn?: EntryFieldTypes.Symbol;
+  email?: EntryFieldTypes.Symbol;
+  order: EntryFieldTypes.Integer;
+}, 'teamMember'>;
+
+type PartnerSkeleton = EntrySkeletonType<{
+  name: EntryFieldTypes.Symbol;
+  logo?: EntryFieldTypes.AssetLink;
+  category: EntryFieldTypes.Symbol;
+  website?: EntryFieldTypes.Symbol;
+  description?: EntryFieldTypes.Text;
+  order: EntryFieldTypes.Integer;
+}, 'partner'>;
+
+interface ContentfulConfig {
+  space: string;
+  accessToken: string;
+  environment: string;
+  host?: string;
+}
+
+function readContentfulConfig(env: NodeJS.ProcessEnv = process.env): ContentfulConfig {
+  if (!env.CONTENTFUL_SPACE_ID || !env.CONTENTFUL_ACCESS_TOKEN) {
+    throw new Error('Contentful provider requires CONTENTFUL_SPACE_ID and CONTENTFUL_ACCESS_TOKEN');
+  }
+
+  return {
+    space: env.CONTENTFUL_SPACE_ID,
+    accessToken: env.CONTENTFUL_ACCESS_TOKEN,
+    environment: env.CONTENTFUL_ENVIRONMENT || 'master',
+    // Preview API serves drafts, e.g. for a staging deployment
+    host: env.CONTENTFUL_PREVIEW === 'true' ? 'preview.contentful.com' : undefined,
+  };
+}
+
+// Flatten a rich text document (used for excerpts shown as plain text)
+function toPlainText(node: { nodeType: string; value?: string; content?: unknown[] } | undefined): string {
+  if (!node) {
+    return '';
+  }
+  if (node.nodeType === 'text') {
+    return node.value ?? '';
+  }
+  const children = (node.content ?? []) as Parameters<typeof toPlainText>[0][];
+  const separator = node.nodeType === 'document' ? '\n\n' : '';
+  return children.map(toPlainText).join(separator);
+}
+
+function assetUrl(asset: Asset<'WITHOUT_UNRESOLVABLE_LINKS'> | undefined): string | undefined {
+  const url = asset?.fields.file?.url;
+  return typeof url === 'string' ? `https:${url}` : undefined;
+}
+
+function asArticleCategory(value: string): ArticleCategory {
+  return (articleCategories as readonly string[]).includes(value) ? (value as ArticleCategory) : 'announcement';
+}
+
+/**
+ * Content provider backed by the Contentful Delivery API.
+ * The space's locale codes must match the site locales (en, fr, es, de, it, ca).
+ */
+export function createContentfulProvider(config: ContentfulConfig = readContentfulConfig()): ContentProvider {
+  const client = createClient(config).withoutUnresolvableLinks;
+
+  async function queryArticles(locale: Locale, slug?: string): Promise<Article[]> {
+    const { items } = await client.getEntries<NewsArticleSkeleton, Locale>({
+      content_type: 'newsArticle',
+      locale,
+      order: ['-fields.publishDate'],
+      ...(slug ? { 'fields.slug': slug, limit: 1 } : {}),
+    });
+
+    return items.map(({ fields, sys }) => ({
+      slug: fields.slug,
+      locale,
+      title: fields.title,
+      excerpt: toPlainText(fields.excerpt as Document),
+      category: asArticleCategory(fields.category),
+      publishedAt: fields.publishDate,
+      updatedAt: sys.updatedAt,
+      author: fields.author,
+      image: assetUrl(fields.featuredImage),
+      featured: fields.featured,
+      body: { format: 'richText', document: fields.body as Document },
+    }));
+  }
+
+  return {
+    name: 'contentful',
+
+    getArticles(locale) {
+      return queryArticles(locale);
+    },
+
+    async getArticle(locale, slug) {
+      const [article] = await queryArticles(locale, slug);
+      return article;
+    },
+
+    async getTeamMembers(locale) {
+      const { items } = await client.getEntries<TeamMemberSkeleton, Locale>({
+        content_type: 'teamMember',
+        locale,
+        order: ['fields.order'],
+      });
+
+      return items.map(({ fields, sys }) => ({
+        id: sys.id,
+        name: fields.name,
+        role: fields.role,
+        bio: fields.bio,
+        photo: assetUrl(fields.photo),
+        linkedin: fields.linkedIn,
+        email: fields.email,
+      }));
+    },
+
+    async getPartners(locale) {
+      const { items } = await client.getEntries<PartnerSkeleton, Locale>({
+        content_type: 'partner',
+        locale,
+        order: ['fields.order'],
+      });
+
+      return items
+        .filter(({ fields }) => (partnerCategories as readonly string[]).includes(fields.category))
+        .map(({ fields, sys }) => ({
+          id: sys.id,
+          name: fields.name,
+          category: fields.category as PartnerCategory,
+          description: fields.description,
+          logo: assetUrl(fields.logo),
+          website: fields.website,
+        }));
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { sourceLocale, type Locale } from '@/lib/i18n/config';
+import {
+  articleCategories,
+  partnerCategories,
+  type Article,
+  type ContentProvider,
+  type Partner,
+  type TeamMember,
+} from '../types';
+
+// Either a single string for every locale or a per-locale map
+const localizedString = z.union([z.string(), z.record(z.string(), z.string())]);
+type LocalizedString = z.infer<typeof localizedString>;
+
+const articleMetaSchema = z.object({
+  category: z.enum(articleCategories),
+  publishedAt: z.string(),
+  updatedAt: z.string().optional(),
+  author: z.string().optional(),
+  image: z.string().optional(),
+  featured: z.boolean().optional(),
+});
+
+const articleFrontmatterSchema = z.object({
+  title: z.string(),
+  excerpt: z.string(),
+});
+
+const teamSchema = z.object({
+  members: z.array(z.object({
+    id: z.string(),
+    name: localizedString,
+    role: localizedString,
+    bio: localizedString,
+    photo: z.string().optional(),
+    linkedin: z.string().optional(),
+    email: z.string().optional(),
+  })),
+});
+
+const partnersSchema = z.object({
+  partners: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    category: z.enum(partnerCategories),
+    description: localizedString.optional(),
+    logo: z.string().optional(),
+    website: z.string().optional(),
+  })),
+});
+
+// The locale's text, falling back to the English source when untranslated
+function localize(value: LocalizedString, locale: Locale): string;
+function localize(value: LocalizedString | undefined, locale: Locale): string | undefined;
+function localize(value: LocalizedString | undefined, locale: Locale) {
+  if (value === undefined || typeof value === 'string') {
+    return value;
+  }
+  return value[locale] ?? value[sourceLocale];
+}
+
+// Split `---` delimited YAML frontmatter from the Markdown body
+function parseFrontmatter(source: string): { data: unknown; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(source);
+  if (!match) {
+    return { data: {}, body: source.trim() };
+  }
+  return { data: parse(match[1]) ?? {}, body: match[2].trim() };
+}
+
+async function readOptional(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function readYaml<T>(filePath: string, schema: z.ZodType<T>): Promise<T> {
+  const source = await readFile(filePath, 'utf8');
+  const result = schema.safeParse(parse(source));
+  if (!result.success) {
+    throw new Error(`Invalid content file ${filePath}: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Content provider backed by the `content/` directory:
+ *
+ *   content/news/<slug>/meta.yaml     shared metadata (category, dates, image, featured)
+ *   content/news/<slug>/<locale>.md   frontmatter (title, excerpt) + Markdown body
+ *   content/team.yaml                 team members with localized fields
+ *   content/partners.yaml             partners grouped by category
+ *
+ * Missing translations fall back to English.
+ */
+export function createFileSystemProvider(
+  root = process.env.CONTENT_DIR || path.join(process.cwd(), 'content')
+): ContentProvider {
+  const newsDir = path.join(root, 'news');
+
+  async function loadArticle(locale: Locale, slug: string): Promise<Article | undefined> {
+    const articleDir = path.join(newsDir, slug);
+    const metaSource = await readOptional(path.join(articleDir, 'meta.yaml'));
+    if (metaSource === undefined) {
+      return undefined;
+    }
+
+    const source = (await readOptional(path.join(articleDir, `${locale}.md`)))
+      ?? (await readOptional(path.join(articleDir, `${sourceLocale}.md`)));
+    if (source === undefined) {
+      return undefined;
+    }
+
+    const meta = articleMetaSchema.parse(parse(metaSource));
+    const { data, body } = parseFrontmatter(source);
+    const frontmatter = articleFrontmatterSchema.parse(data);
+
+    return {
+      slug,
+      locale,
+      ...frontmatter,
+      ...meta,
+      body: { format: 'markdown', source: body },
+    };
+  }
+
+  return {
+    name: 'filesystem',
+
+    async getArticles(locale) {
+      const entries = await readdir(newsDir, { withFileTypes: true }).catch(() => []);
+      const articles = await Promise.all(
+        entries
+          .filter((entry) => entry.isDirectory())
+          .map((entry) => loadArticle(locale, entry.name))
+      );
+
+      return articles
+        .filter((article): article is Article => article !== undefined)
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+    },
+
+    async getArticle(locale, slug) {
+      // Slugs come from URLs; never let them escape the news directory
+      if (!/^[a-z0-9-]+$/.test(slug)) {
+        return undefined;
+      }
+      return loadArticle(locale, slug);
+    },
+
+    async getTeamMembers(locale) {
+      const { members } = await readYaml(path.join(root, 'team.yaml'), teamSchema);
+      return members.map((member): TeamMember => ({
+        ...member,
+        name: localize(member.name, locale),
+        role: localize(member.role, locale),
+        bio: localize(member.bio, locale),
+      }));
+    },
+
+    async getPartners(locale) {
+      const { partners } = await readYaml(path.join(root, 'partners.yaml'), partnersSchema);
+      return partners.map((partner): Partner => ({
+        ...partner,
+        description: localize(partner.description, locale),
+      }));
+    },
+  };
+}
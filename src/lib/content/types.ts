@@ -0,0 +1,61 @@
+import type { Document } from '@contentful/rich-text-types';
+import type { Locale } from '@/lib/i18n/config';
+
+export const articleCategories = ['announcement', 'partnership', 'technology', 'event'] as const;
+export type ArticleCategory = (typeof articleCategories)[number];
+
+export const partnerCategories = ['industrial', 'academic', 'research', 'institutional'] as const;
+export type PartnerCategory = (typeof partnerCategories)[number];
+
+// Local content is authored in Markdown, CMS content arrives as rich text
+export type ArticleBody =
+  | { format: 'markdown'; source: string }
+  | { format: 'richText'; document: Document };
+
+export interface Article {
+  slug: string;
+  locale: Locale;
+  title: string;
+  excerpt: string;
+  category: ArticleCategory;
+  publishedAt: string;
+  updatedAt?: string;
+  author?: string;
+  image?: string;
+  // Pinned to the featured slot at the top of the news index
+  featured?: boolean;
+  body: ArticleBody;
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  role: string;
+  bio: string;
+  photo?: string;
+  linkedin?: string;
+  email?: string;
+}
+
+export interface Partner {
+  id: string;
+  name: string;
+  category: PartnerCategory;
+  description?: string;
+  logo?: string;
+  website?: string;
+}
+
+/**
+ * Source of editorial content. Pages only talk to this interface
+ * (through the functions in `@/lib/content`), never to a provider directly.
+ * Lists are returned in display order: articles newest first,
+ * team members and partners by their configured order.
+ */
+export interface ContentProvider {
+  readonly name: string;
+  getArticles(locale: Locale): Promise<Article[]>;
+  getArticle(locale: Locale, slug: string): Promise<Article | undefined>;
+  getTeamMembers(locale: Locale): Promise<TeamMember[]>;
+  getPartners(locale: Locale): Promise<Partner[]>;
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useLocale } from 'next-intl';
+import { createNavigation } from 'next-intl/navigation';
+import { usePathname as useNextPathname } from 'next/navigation';
+import type { Locale } from './config';
+import { routing, toNavigationHref } from './navigation';
+import { getInternalPathname } from './pathnames';
+
+// Client-only counterparts of navigation.ts; kept apart so server components can import Link
+
+const navigation = createNavigation(routing);
+
+type RouterHref = Parameters<ReturnType<typeof navigation.useRouter>['replace']>[0];
+type NavigateOptions = Parameters<ReturnType<typeof navigation.useRouter>['replace']>[1];
+
+export function useRouter() {
+  const router = navigation.useRouter();
+  return useMemo(() => ({
+    ...router,
+    push: (href: string, options?: NavigateOptions) => router.push(toNavigationHref(href) as RouterHref, options),
+    replace: (href: string, options?: NavigateOptions) => router.replace(toNavigationHref(href) as RouterHref, options),
+  }), [router]);
+}
+
+/**
+ * Current internal path with params filled in (e.g. "/capabilities/defense"
+ * on /ca/capacitats/defensa), ready to pass to Link or the router.
+ */
+export function usePathname(): string {
+  const locale = useLocale() as Locale;
+  const pathname = useNextPathname();
+  const unprefixed = pathname.replace(new RegExp(`^/${locale}(?=/|$)`), '') || '/';
+  return getInternalPathname(unprefixed, locale);
+}
@@ -1,22 +1,34 @@
-export const locales = ['en', 'fr', 'es', 'de', 'it', 'ca'] as const;
-export type Locale = (typeof locales)[number];
+export interface LocaleDefinition {
+  // Name of the language in itself, as listed in the language switcher
+  nativeName: string;
+  flag: string;
+}
+
+// Every supported locale, in language switcher order. Routing, the
+// middleware, sitemap and tests all derive from this list; `npm run
+// locale:add` scaffolds a new locale here, in src/messages and in the
+// registries' locale lists.
+export const localeDefinitions = {
+  en: { nativeName: 'English', flag: '🇬🇧' },
+  fr: { nativeName: 'Français', flag: '🇫🇷' },
+  es: { nativeName: 'Español', flag: '🇪🇸' },
+  de: { nativeName: 'Deutsch', flag: '🇩🇪' },
+  it: { nativeName: 'Italiano', flag: '🇮🇹' },
+  ca: { nativeName: 'Català', flag: '🏴󠁥󠁳󠁣󠁴󠁿' },
+} as const satisfies Record<string, LocaleDefinition>;
+
+export type Locale = keyof typeof localeDefinitions;
+
+export const locales = Object.keys(localeDefinitions) as [Locale, ...Locale[]];
 
 export const defaultLocale: Locale = 'ca';
 
-export const localeNames: Record<Locale, string> = {
-  en: 'English',
-  fr: 'Français',
-  es: 'Español',
-  de: 'Deutsch',
-  it: 'Italiano',
-  ca: 'Català',
-};
+// en.json is the source every translation is made from
+export const sourceLocale = 'en' satisfies Locale;
+
+// Locales translated from the source
+export type TranslatedLocale = Exclude<Locale, typeof sourceLocale>;
 
-export const localeFlags: Record<Locale, string> = {
-  en: '🇬🇧',
-  fr: '🇫🇷',
-  es: '🇪🇸',
-  de: '🇩🇪',
-  it: '🇮🇹',
-  ca: '🏴󠁥󠁳󠁣󠁴󠁿',
-};
+// hreflang x-default in page metadata and the sitemap: the version for
+// visitors whose language is not one of `locales`
+export const xDefaultLocale: Locale = 'en';
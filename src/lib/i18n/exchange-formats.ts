@@ -0,0 +1,184 @@
+import { XMLParser } from 'fast-xml-parser';
+import { sourceLocale, type Locale } from './config';
+import type { ImportedUnit, TranslationUnit } from './exchange';
+
+/**
+ * XLIFF 2.0 and gettext PO serialization of translation units. Units are
+ * keyed by their dotted message key (XLIFF unit id, PO msgctxt); ICU
+ * placeholders stay plain text in both formats.
+ */
+
+export type ExchangeFormat = 'xliff' | 'po';
+
+export interface ExchangeFile {
+  locale: string;
+  units: ImportedUnit[];
+}
+
+export const exchangeExtensions: Record<ExchangeFormat, string> = {
+  xliff: 'xlf',
+  po: 'po',
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function contextNotes(unit: TranslationUnit): [category: string, text: string][] {
+  return [
+    ['namespace', unit.namespace],
+    ...unit.pages.map((page): [string, string] => ['page', page]),
+    ...unit.files.map((file): [string, string] => ['file', file]),
+    ...(unit.previousSource !== undefined ? [['previous-source', unit.previousSource] as [string, string]] : []),
+  ];
+}
+
+export function toXliff(locale: Locale, units: TranslationUnit[]): string {
+  const body = units.map((unit) => {
+    const notes = contextNotes(unit)
+      .map(([category, text]) => `        <note category="${category}">${escapeXml(text)}</note>`);
+    const target = unit.target !== undefined ? [`        <target>${escapeXml(unit.target)}</target>`] : [];
+    return [
+      `    <unit id="${escapeXml(unit.key)}">`,
+      '      <notes>',
+      ...notes,
+      '      </notes>',
+      `      <segment state="${unit.state === 'translated' ? 'translated' : 'initial'}">`,
+      `        <source>${escapeXml(unit.source)}</source>`,
+      ...target,
+      '      </segment>',
+      '    </unit>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${sourceLocale}" trgLang="${locale}">`,
+    `  <file id="messages" original="src/messages/${locale}.json">`,
+    ...body,
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+type XmlNode = Record<string, unknown>;
+
+function xmlText(node: unknown): string {
+  if (typeof node === 'string') {
+    return node;
+  }
+  return typeof (node as XmlNode | undefined)?.['#text'] === 'string' ? (node as XmlNode)['#text'] as string : '';
+}
+
+export function fromXliff(content: string): ExchangeFile {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: false,
+    trimValues: false,
+    isArray: (name) => ['file', 'unit', 'segment'].includes(name),
+  });
+  const xliff = (parser.parse(content) as XmlNode).xliff as XmlNode | undefined;
+  if (!xliff || xliff.version !== '2.0') {
+    throw new Error('Not an XLIFF 2.0 document');
+  }
+
+  const units = ((xliff.file ?? []) as XmlNode[]).flatMap((file) => ((file.unit ?? []) as XmlNode[]).map((unit) => {
+    const segments = (unit.segment ?? []) as XmlNode[];
+    return {
+      key: String(unit.id),
+      source: segments.map((segment) => xmlText(segment.source)).join(''),
+      target: segments.map((segment) => xmlText(segment.target)).join(''),
+      // XLIFF 2.0 segments without a state are "initial"
+      reviewed: segments.every((segment) => segment.state !== undefined && segment.state !== 'initial'),
+    };
+  }));
+
+  return { locale: String(xliff.trgLang ?? ''), units };
+}
+
+function escapePo(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\n/g, '\\n');
+}
+
+// Multi-line strings are split after each newline, as msgmerge does
+function poString(keyword: string, text: string): string {
+  const lines = text.split(/(?<=\n)/);
+  if (lines.length === 1) {
+    return `${keyword} "${escapePo(text)}"`;
+  }
+  return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)].join('\n');
+}
+
+export function toPo(locale: Locale, units: TranslationUnit[]): string {
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    '"Project-Id-Version: dualys-website\\n"',
+    `"Language: ${locale}\\n"`,
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+    `"X-Source-Language: ${sourceLocale}\\n"`,
+  ].join('\n');
+
+  const entries = units.map((unit) => [
+    `#. namespace: ${unit.namespace}`,
+    ...unit.pages.map((page) => `#. page: ${page}`),
+    ...unit.files.map((file) => `#: ${file}`),
+    ...(unit.state === 'changed' ? ['#, fuzzy'] : []),
+    ...(unit.previousSource !== undefined ? poString('#| msgid', unit.previousSource).split('\n').map((line, index) => index === 0 ? line : `#| ${line}`) : []),
+    poString('msgctxt', unit.key),
+    poString('msgid', unit.source),
+    poString('msgstr', unit.target ?? ''),
+  ].join('\n'));
+
+  return `${[header, ...entries].join('\n\n')}\n`;
+}
+
+function unescapePo(text: string): string {
+  return text.replace(/\\(.)/g, (_, char: string) => ({ n: '\n', t: '\t' })[char] ?? char);
+}
+
+export function fromPo(content: string): ExchangeFile {
+  const units: ImportedUnit[] = [];
+  let locale = '';
+  let entry: { fuzzy: boolean; fields: Record<string, string> } = { fuzzy: false, fields: {} };
+  let field: string | undefined;
+
+  function finish() {
+    const { msgctxt, msgid, msgstr } = entry.fields;
+    if (msgid === '' && msgctxt === undefined) {
+      locale = /^Language:\s*(.+)$/m.exec(msgstr ?? '')?.[1].trim() ?? '';
+    } else if (msgctxt !== undefined && msgid !== undefined) {
+      units.push({ key: msgctxt, source: msgid, target: msgstr ?? '', reviewed: !entry.fuzzy });
+    }
+    entry = { fuzzy: false, fields: {} };
+    field = undefined;
+  }
+
+  for (const line of content.split(/\r?\n/)) {
+    const keyword = /^(msgctxt|msgid|msgstr)\s+"(.*)"$/.exec(line);
+    const continuation = /^"(.*)"$/.exec(line);
+
+    if (line.trim() === '') {
+      finish();
+    } else if (line.startsWith('#,')) {
+      entry.fuzzy ||= line.slice(2).split(',').some((flag) => flag.trim() === 'fuzzy');
+    } else if (line.startsWith('#')) {
+      continue;
+    } else if (keyword) {
+      if (keyword[1] === 'msgctxt' && field) {
+        finish();
+      }
+      field = keyword[1];
+      entry.fields[field] = unescapePo(keyword[2]);
+    } else if (continuation && field) {
+      entry.fields[field] += unescapePo(continuation[1]);
+    }
+  }
+  finish();
+
+  return { locale, units };
+}
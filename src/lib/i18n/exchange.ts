@@ -0,0 +1,318 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parse, TYPE, type MessageFormatElement } from '@formatjs/icu-messageformat-parser';
+import { pageFileFor } from '@/lib/routes/conformance';
+import { flattenRoutes, getRouteRegistry } from '@/lib/routes/registry';
+import { sourceLocale, type Locale } from './config';
+import { keyMatcher, type KeyReference } from './key-usage';
+
+/**
+ * Exchange of src/messages with translators' CAT tools: translation units
+ * for export (XLIFF / PO, see exchange-formats.ts) and the checks applied
+ * before imported translations are written back.
+ *
+ * translations/sources.json records the English text at the last export
+ * and, per locale, the keys whose English changed since their translation
+ * was last confirmed and the keys still holding the English fallback of a
+ * scaffolded locale. It is committed so every export compares against the
+ * same baseline.
+ */
+
+export const TRANSLATIONS_DIR = path.join(process.cwd(), 'translations');
+export const SOURCES_FILE = path.join(TRANSLATIONS_DIR, 'sources.json');
+
+export type UnitState = 'untranslated' | 'changed' | 'translated';
+
+export interface TranslationUnit {
+  key: string;
+  source: string;
+  // Omitted while the key is untranslated
+  target?: string;
+  state: UnitState;
+  // English text the current translation was made from, for changed units
+  previousSource?: string;
+  namespace: string;
+  // Registry routes whose pages use the key
+  pages: string[];
+  // Other source files (shared components, lib) using the key
+  files: string[];
+}
+
+export interface MessageContext {
+  pages: string[];
+  files: string[];
+}
+
+export interface SourceSnapshot {
+  source: Record<string, string>;
+  stale: Partial<Record<Locale, Record<string, string>>>;
+  // Keys whose text is the English fallback copied by `npm run locale:add`
+  untranslated: Partial<Record<Locale, string[]>>;
+}
+
+// What the snapshot records about one locale's translations
+export interface LocaleSources {
+  // English text each stale key's translation was made from
+  stale?: Record<string, string>;
+  untranslated?: string[];
+}
+
+// A translation read back from an XLIFF or PO file
+export interface ImportedUnit {
+  key: string;
+  source: string;
+  target: string;
+  // False for XLIFF state="initial" and PO "fuzzy" entries
+  reviewed: boolean;
+}
+
+export interface ImportIssue {
+  key: string;
+  message: string;
+}
+
+export interface ImportResult {
+  // New text of every key whose translation changed
+  changes: Record<string, string>;
+  // Keys reviewed against the current English text
+  confirmed: string[];
+  // Not reviewed yet, or translated from outdated English
+  skipped: ImportIssue[];
+  // Unknown keys and placeholder mismatches
+  rejected: ImportIssue[];
+}
+
+export function loadSourceSnapshot(file = SOURCES_FILE): SourceSnapshot | undefined {
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : undefined;
+}
+
+export function saveSourceSnapshot(snapshot: SourceSnapshot, file = SOURCES_FILE) {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
+
+/**
+ * Snapshot after an export: keys whose English changed since the last
+ * export become stale in every target locale, keeping the oldest text, and
+ * the current English becomes the new baseline.
+ */
+export function advanceSourceSnapshot(
+  previous: SourceSnapshot | undefined,
+  source: Record<string, string>,
+  targetLocales: readonly Locale[]
+): SourceSnapshot {
+  const stale: SourceSnapshot['stale'] = {};
+  const untranslated: SourceSnapshot['untranslated'] = {};
+
+  for (const locale of targetLocales) {
+    const entries = { ...previous?.stale[locale] };
+    for (const [key, text] of Object.entries(previous?.source ?? {})) {
+      if (key in source && source[key] !== text && !(key in entries)) {
+        entries[key] = text;
+      }
+    }
+    stale[locale] = Object.fromEntries(Object.entries(entries).filter(([key]) => key in source));
+
+    const fallbacks = previous?.untranslated[locale]?.filter((key) => key in source) ?? [];
+    if (fallbacks.length > 0) {
+      untranslated[locale] = fallbacks;
+    }
+  }
+
+  return { source, stale, untranslated };
+}
+
+/**
+ * Snapshot for a newly scaffolded locale whose messages are a copy of the
+ * English source: every key is recorded as untranslated until imported.
+ */
+export function addUntranslatedLocale(
+  previous: SourceSnapshot | undefined,
+  locale: Locale,
+  source: Record<string, string>
+): SourceSnapshot {
+  const snapshot = previous ?? { source, stale: {}, untranslated: {} };
+  return {
+    ...snapshot,
+    stale: { ...snapshot.stale, [locale]: {} },
+    untranslated: { ...snapshot.untranslated, [locale]: Object.keys(source) },
+  };
+}
+
+// Snapshot after an import: confirmed keys of the locale are neither stale nor untranslated
+export function confirmSources(snapshot: SourceSnapshot, locale: Locale, keys: string[]): SourceSnapshot {
+  const stale = Object.fromEntries(Object.entries(snapshot.stale[locale] ?? {}).filter(([key]) => !keys.includes(key)));
+  const untranslated = { ...snapshot.untranslated };
+  const remaining = untranslated[locale]?.filter((key) => !keys.includes(key)) ?? [];
+  if (remaining.length > 0) {
+    untranslated[locale] = remaining;
+  } else {
+    delete untranslated[locale];
+  }
+  return { ...snapshot, stale: { ...snapshot.stale, [locale]: stale }, untranslated };
+}
+
+export function localeSources(snapshot: SourceSnapshot | undefined, locale: Locale): LocaleSources {
+  return { stale: snapshot?.stale[locale], untranslated: snapshot?.untranslated[locale] };
+}
+
+// Registry pages and other source files using each message key
+export function messageContexts(messageKeys: string[], references: KeyReference[]): Map<string, MessageContext> {
+  const pageDirs = new Map(flattenRoutes(getRouteRegistry().routes).map((route) => [
+    path.relative(process.cwd(), path.dirname(pageFileFor(route.path))),
+    route.path,
+  ]));
+  const contexts = new Map(messageKeys.map((key) => [key, { pages: new Set<string>(), files: new Set<string>() }]));
+
+  for (const reference of references) {
+    const page = pageDirs.get(path.dirname(reference.file));
+    for (const key of messageKeys.filter(keyMatcher(reference))) {
+      const context = contexts.get(key)!;
+      if (page) {
+        context.pages.add(page);
+      } else {
+        context.files.add(reference.file);
+      }
+    }
+  }
+
+  return new Map([...contexts].map(([key, { pages, files }]) => [key, { pages: [...pages].sort(), files: [...files].sort() }]));
+}
+
+/**
+ * One unit per English key. A key counts as untranslated while the locale
+ * has no text for it or the snapshot records it as an English fallback;
+ * text identical to English is otherwise a translation ("Contact").
+ */
+export function buildTranslationUnits(
+  source: Record<string, string>,
+  target: Record<string, string>,
+  { stale = {}, untranslated = [] }: LocaleSources = {},
+  contexts = new Map<string, MessageContext>()
+): TranslationUnit[] {
+  const fallbacks = new Set(untranslated);
+
+  return Object.entries(source).map(([key, text]) => {
+    const translation = target[key];
+    const translated = translation !== undefined && translation !== '' && !fallbacks.has(key);
+    const changed = translated && key in stale;
+
+    return {
+      key,
+      source: text,
+      target: translated ? translation : undefined,
+      state: changed ? 'changed' : translated ? 'translated' : 'untranslated',
+      previousSource: changed ? stale[key] : undefined,
+      namespace: key.split('.').slice(0, -1).join('.'),
+      pages: contexts.get(key)?.pages ?? [],
+      files: contexts.get(key)?.files ?? [],
+    };
+  });
+}
+
+function collectArguments(elements: MessageFormatElement[], names: Set<string>) {
+  for (const element of elements) {
+    if (element.type === TYPE.tag) {
+      names.add(`<${element.value}>`);
+      collectArguments(element.children, names);
+    } else if (element.type === TYPE.select || element.type === TYPE.plural) {
+      names.add(`{${element.value}}`);
+      Object.values(element.options).forEach((option) => collectArguments(option.value, names));
+    } else if (element.type !== TYPE.literal && element.type !== TYPE.pound) {
+      names.add(`{${element.value}}`);
+    }
+  }
+}
+
+// ICU arguments and rich text tags of a message, e.g. ["<link>", "{year}"]
+export function messageArguments(message: string): string[] {
+  const names = new Set<string>();
+  collectArguments(parse(message), names);
+  return [...names].sort();
+}
+
+// Why a translation's ICU arguments don't fit the English source, if they don't
+export function placeholderIssue(source: string, target: string): string | undefined {
+  let expected: string[];
+  let actual: string[];
+  try {
+    expected = messageArguments(source);
+    actual = messageArguments(target);
+  } catch (error) {
+    return `invalid ICU message: ${error instanceof Error ? error.message : error}`;
+  }
+
+  const missing = expected.filter((name) => !actual.includes(name));
+  const extra = actual.filter((name) => !expected.includes(name));
+  if (missing.length === 0 && extra.length === 0) {
+    return undefined;
+  }
+  return [
+    missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+    extra.length > 0 ? `unexpected ${extra.join(', ')}` : '',
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Sort imported translations into changes to write back, confirmations of
+ * existing text, and units to skip or reject.
+ */
+export function checkImport(
+  units: ImportedUnit[],
+  source: Record<string, string>,
+  target: Record<string, string>
+): ImportResult {
+  const result: ImportResult = { changes: {}, confirmed: [], skipped: [], rejected: [] };
+
+  for (const unit of units) {
+    if (!(unit.key in source)) {
+      result.rejected.push({ key: unit.key, message: `not in ${sourceLocale}.json` });
+      continue;
+    }
+    if (unit.target === '') {
+      continue;
+    }
+    if (!unit.reviewed) {
+      if (unit.target !== target[unit.key]) {
+        result.skipped.push({ key: unit.key, message: 'not reviewed' });
+      }
+      continue;
+    }
+    if (unit.source !== source[unit.key]) {
+      result.skipped.push({ key: unit.key, message: 'English text changed since the export' });
+      continue;
+    }
+
+    const issue = placeholderIssue(source[unit.key], unit.target);
+    if (issue) {
+      result.rejected.push({ key: unit.key, message: issue });
+      continue;
+    }
+
+    result.confirmed.push(unit.key);
+    if (unit.target !== target[unit.key]) {
+      result.changes[unit.key] = unit.target;
+    }
+  }
+
+  return result;
+}
+
+// Copy of `messages` with the dotted keys in `changes` set, keeping key order
+export function applyTranslations(messages: Record<string, unknown>, changes: Record<string, string>): Record<string, unknown> {
+  const updated = structuredClone(messages);
+
+  for (const [key, text] of Object.entries(changes)) {
+    const segments = key.split('.');
+    let group = updated;
+    for (const segment of segments.slice(0, -1)) {
+      if (!group[segment] || typeof group[segment] !== 'object') {
+        group[segment] = {};
+      }
+      group = group[segment] as Record<string, unknown>;
+    }
+    group[segments[segments.length - 1]] = text;
+  }
+
+  return updated;
+}
@@ -0,0 +1,252 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { flattenMessages } from './messages';
+
+/**
+ * Static check of translation keys: every t()/t.rich() call in src/ against
+ * en.json. Keys are resolved from the translator's namespace
+ * (useTranslations / getTranslations) plus the key argument; template
+ * literals and data-driven keys become patterns with `*` for each unknown
+ * segment.
+ *
+ * Run with `npm run validate:messages`; src/__tests__/i18n/keyUsage.test.ts
+ * runs the same check in CI.
+ */
+
+export interface KeyReference {
+  // Full dotted key, with `*` for segments only known at runtime
+  key: string;
+  file: string;
+  line: number;
+  // t.has() probes optional keys, so a missing one is not an error
+  optional: boolean;
+  // t.raw() may read a whole group of messages
+  raw: boolean;
+}
+
+export interface DynamicKeyUsage extends KeyReference {
+  matches: number;
+}
+
+export interface KeyUsageReport {
+  // Static keys absent from en.json
+  missing: KeyReference[];
+  // Patterns that match no key in en.json
+  unresolved: KeyReference[];
+  // Patterns and how many keys each covers
+  dynamic: DynamicKeyUsage[];
+  // en.json keys no call can reach
+  unused: string[];
+}
+
+const SRC_DIR = path.join(process.cwd(), 'src');
+const MESSAGES_FILE = path.join(SRC_DIR, 'messages', 'en.json');
+
+const translatorFactories = new Set(['useTranslations', 'getTranslations']);
+const translatorMethods = new Set(['rich', 'markup', 'raw', 'has']);
+
+type Binding = { kind: 'translator'; namespaces: string[] } | { kind: 'string'; values: string[] };
+type Scope = Map<string, Binding>;
+
+function unwrap(node: ts.Expression): ts.Expression {
+  while (ts.isAwaitExpression(node) || ts.isAsExpression(node) || ts.isParenthesizedExpression(node) || ts.isSatisfiesExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+// Possible string values of an expression, with `*` for parts only known at runtime
+function stringValues(node: ts.Expression, scope: Scope): string[] {
+  node = unwrap(node);
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return [node.text];
+  }
+  if (ts.isTemplateExpression(node)) {
+    return node.templateSpans.reduce(
+      (prefixes, span) => prefixes.flatMap((prefix) => stringValues(span.expression, scope).map((value) => `${prefix}${value}${span.literal.text}`)),
+      [node.head.text]
+    ).map((value) => value.replace(/\*+/g, '*'));
+  }
+  if (ts.isConditionalExpression(node)) {
+    return [...stringValues(node.whenTrue, scope), ...stringValues(node.whenFalse, scope)];
+  }
+  // messageKey('nav', label) marks a data-driven key
+  if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'messageKey' && node.arguments[1]) {
+    return stringValues(node.arguments[1], scope);
+  }
+  if (ts.isIdentifier(node)) {
+    const binding = scope.get(node.text);
+    if (binding?.kind === 'string') {
+      return binding.values;
+    }
+  }
+  return ['*'];
+}
+
+function translatorNamespaces(call: ts.CallExpression, scope: Scope): string[] | undefined {
+  if (!ts.isIdentifier(call.expression) || !translatorFactories.has(call.expression.text)) {
+    return undefined;
+  }
+  const [arg] = call.arguments;
+  if (!arg) {
+    return [''];
+  }
+  if (ts.isObjectLiteralExpression(arg)) {
+    const property = arg.properties.find((prop) => prop.name && ts.isIdentifier(prop.name) && prop.name.text === 'namespace');
+    if (!property) {
+      return [''];
+    }
+    if (ts.isShorthandPropertyAssignment(property)) {
+      return stringValues(property.name, scope);
+    }
+    return ts.isPropertyAssignment(property) ? stringValues(property.initializer, scope) : ['*'];
+  }
+  return stringValues(arg, scope);
+}
+
+function bindingFor(initializer: ts.Expression, scope: Scope): Binding | undefined {
+  const value = unwrap(initializer);
+  if (ts.isCallExpression(value)) {
+    const namespaces = translatorNamespaces(value, scope);
+    return namespaces ? { kind: 'translator', namespaces } : undefined;
+  }
+  if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value) || ts.isTemplateExpression(value)) {
+    return { kind: 'string', values: stringValues(value, scope) };
+  }
+  return undefined;
+}
+
+/**
+ * Translation keys referenced by one source file.
+ */
+export function findKeyReferences(source: string, file: string): KeyReference[] {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+  const references: KeyReference[] = [];
+
+  function reference(call: ts.CallExpression, translator: Binding, method?: string) {
+    if (translator.kind !== 'translator' || !call.arguments[0]) {
+      return;
+    }
+    const { line } = sourceFile.getLineAndCharacterOfPosition(call.getStart());
+    for (const namespace of translator.namespaces) {
+      for (const key of stringValues(call.arguments[0], new Map())) {
+        references.push({
+          key: namespace ? `${namespace}.${key}` : key,
+          file,
+          line: line + 1,
+          optional: method === 'has',
+          raw: method === 'raw',
+        });
+      }
+    }
+  }
+
+  function visit(node: ts.Node, scope: Scope) {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const binding = bindingFor(node.initializer, scope);
+      if (binding) {
+        scope.set(node.name.text, binding);
+      }
+    }
+
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      if (ts.isIdentifier(callee) && scope.has(callee.text)) {
+        reference(node, scope.get(callee.text)!);
+      } else if (
+        ts.isPropertyAccessExpression(callee)
+        && ts.isIdentifier(callee.expression)
+        && translatorMethods.has(callee.name.text)
+        && scope.has(callee.expression.text)
+      ) {
+        reference(node, scope.get(callee.expression.text)!, callee.name.text);
+      }
+    }
+
+    const childScope = ts.isBlock(node) || ts.isFunctionLike(node) || ts.isSourceFile(node) ? new Map(scope) : scope;
+    ts.forEachChild(node, (child) => visit(child, childScope));
+  }
+
+  visit(sourceFile, new Map());
+  return references;
+}
+
+// Leaf keys of a messages object, e.g. "nav.home"
+export function flattenMessageKeys(messages: Record<string, unknown>): string[] {
+  return Object.keys(flattenMessages(messages));
+}
+
+// Whether a message key can be reached by a reference
+export function keyMatcher({ key, raw }: Pick<KeyReference, 'key' | 'raw'>): (messageKey: string) => boolean {
+  const pattern = key.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^.]+');
+  const regex = new RegExp(`^${pattern}${raw ? '(\\..+)?' : ''}$`);
+  return (messageKey) => regex.test(messageKey);
+}
+
+/**
+ * Compare key references with the leaf keys of en.json.
+ */
+export function checkKeyUsage(references: KeyReference[], messageKeys: string[]): KeyUsageReport {
+  const report: KeyUsageReport = { missing: [], unresolved: [], dynamic: [], unused: [] };
+  const used = new Set<string>();
+
+  for (const reference of references) {
+    const matches = messageKeys.filter(keyMatcher(reference));
+    matches.forEach((key) => used.add(key));
+
+    if (reference.key.includes('*')) {
+      if (matches.length === 0 && !reference.optional) {
+        report.unresolved.push(reference);
+      } else {
+        report.dynamic.push({ ...reference, matches: matches.length });
+      }
+    } else if (matches.length === 0 && !reference.optional) {
+      report.missing.push(reference);
+    }
+  }
+
+  report.unused = messageKeys.filter((key) => !used.has(key));
+  return report;
+}
+
+function sourceFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return ['__tests__', 'test'].includes(entry.name) ? [] : sourceFiles(fullPath);
+    }
+    return /\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts') ? [fullPath] : [];
+  });
+}
+
+// Key references of every source file in src/ (tests excluded)
+export function scanKeyReferences(srcDir = SRC_DIR): KeyReference[] {
+  return sourceFiles(srcDir).flatMap((file) =>
+    findKeyReferences(readFileSync(file, 'utf8'), path.relative(process.cwd(), file)));
+}
+
+/**
+ * Key usage of every source file in src/ against en.json.
+ */
+export function scanKeyUsage(srcDir = SRC_DIR, messagesFile = MESSAGES_FILE): KeyUsageReport {
+  const references = scanKeyReferences(srcDir);
+  const messages = JSON.parse(readFileSync(messagesFile, 'utf8')) as Record<string, unknown>;
+  return checkKeyUsage(references, flattenMessageKeys(messages));
+}
+
+export function formatKeyUsageReport(report: KeyUsageReport): string {
+  const location = (reference: KeyReference) => `${reference.file}:${reference.line}`;
+  const sections: [string, string[]][] = [
+    ['Missing from en.json', report.missing.map((reference) => `${reference.key}  (${location(reference)})`)],
+    ['Dynamic keys matching nothing', report.unresolved.map((reference) => `${reference.key}  (${location(reference)})`)],
+    ['Unused keys', report.unused],
+    ['Dynamic keys', report.dynamic.map((reference) => `${reference.key}  ${reference.matches} key(s)  (${location(reference)})`)],
+  ];
+
+  const lines = sections
+    .filter(([, items]) => items.length > 0)
+    .flatMap(([title, items]) => [`${title} (${items.length})`, ...items.map((item) => `  ${item}`), '']);
+  const summary = `${report.missing.length} missing, ${report.unresolved.length} unresolved, ${report.unused.length} unused, ${report.dynamic.length} dynamic`;
+  return [...lines, summary, ''].join('\n');
+}
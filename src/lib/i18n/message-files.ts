@@ -0,0 +1,25 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { Locale } from './config';
+import { flattenMessages } from './messages';
+
+// src/messages/<locale>.json, read and written by the translation tooling and tests
+export const MESSAGES_DIR = path.join(process.cwd(), 'src', 'messages');
+
+export function messagesFile(locale: string): string {
+  return path.join(MESSAGES_DIR, `${locale}.json`);
+}
+
+export function loadMessages(locale: Locale): Record<string, unknown> {
+  return JSON.parse(readFileSync(messagesFile(locale), 'utf8'));
+}
+
+// Messages of a locale by dotted key
+export function loadFlatMessages(locale: Locale): Record<string, string> {
+  return flattenMessages(loadMessages(locale));
+}
+
+// Same layout as the checked-in files: two-space indent, trailing newline
+export function saveMessages(locale: string, messages: Record<string, unknown>) {
+  writeFileSync(messagesFile(locale), `${JSON.stringify(messages, null, 2)}\n`);
+}
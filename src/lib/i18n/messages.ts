@@ -0,0 +1,32 @@
+import type { MessageKeys, NamespaceKeys, NestedKeyOf, NestedValueOf } from 'next-intl';
+
+// Checked against en.json through the IntlMessages declaration in src/global.d.ts
+export type Messages = IntlMessages;
+
+// Dot-separated path of every group of messages, e.g. "pages.about"
+export type Namespace = NamespaceKeys<Messages, NestedKeyOf<Messages>>;
+
+// Keys of one namespace, e.g. MessageKey<'nav'> is "home" | "about" | ...
+export type MessageKey<NS extends Namespace> = MessageKeys<
+  NestedValueOf<Messages, NS>,
+  NestedKeyOf<NestedValueOf<Messages, NS>>
+>;
+
+/**
+ * Key of `namespace` assembled from data (registry labels, capability
+ * items, form error codes), which the compiler cannot follow. Such keys are
+ * covered by the translation and route conformance tests instead.
+ */
+export function messageKey<NS extends Namespace>(namespace: NS, key: string): MessageKey<NS> {
+  return key as MessageKey<NS>;
+}
+
+// Leaf messages by dotted key, e.g. { "nav.home": "Home" }
+export function flattenMessages(messages: Record<string, unknown>, prefix = ''): Record<string, string> {
+  return Object.fromEntries(Object.entries(messages).flatMap(([key, value]) => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    return value && typeof value === 'object'
+      ? Object.entries(flattenMessages(value as Record<string, unknown>, fullKey))
+      : [[fullKey, String(value)]];
+  }));
+}
@@ -1,12 +1,55 @@
+import { createElement, type ComponentProps } from 'react';
 import { createNavigation } from 'next-intl/navigation';
 import { defineRouting } from 'next-intl/routing';
 import { locales, defaultLocale } from './config';
+import { matchPathname, pathnames } from './pathnames';
 
 export const routing = defineRouting({
   locales,
   defaultLocale,
   localePrefix: 'always',
+  pathnames,
+  // The middleware negotiates "/" itself (see preference.ts) and hreflang
+  // comes from the page metadata
+  localeDetection: false,
+  localeCookie: false,
+  alternateLinks: false,
 });
 
-export const { Link, redirect, usePathname, useRouter, getPathname } =
-  createNavigation(routing);
+const navigation = createNavigation(routing);
+
+export const { redirect, getPathname } = navigation;
+
+type LinkHref = ComponentProps<typeof navigation.Link>['href'];
+
+// next-intl's own href types leave out `params` when pathnames are not typed per route
+interface NavigationHref {
+  pathname: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  hash: string;
+}
+
+/**
+ * next-intl href for an internal path such as "/news/launch?page=2", so the
+ * app can keep linking to internal paths while URLs use the locale's slugs.
+ */
+export function toNavigationHref(path: string): string | NavigationHref {
+  const url = new URL(path, 'http://localhost');
+  const match = matchPathname(url.pathname);
+  if (!match) {
+    return path;
+  }
+  return {
+    pathname: match.pathname,
+    params: match.params,
+    query: Object.fromEntries(url.searchParams),
+    hash: url.hash,
+  };
+}
+
+type LinkProps = Omit<ComponentProps<typeof navigation.Link>, 'href'> & { href: string };
+
+export function Link({ href, ...props }: LinkProps) {
+  return createElement(navigation.Link, { ...props, href: toNavigationHref(href) as LinkHref });
+}
@@ -0,0 +1,214 @@
+import type { Pathnames } from 'next-intl/routing';
+import { locales, sourceLocale, type Locale, type TranslatedLocale } from './config';
+
+/**
+ * Translated URL segments by internal (English) segment. English keeps the
+ * internal paths; [params], news categories and article slugs stay as they are.
+ * Each translated locale has an entry for every listed segment, even where
+ * it matches English, so a new locale does not type-check until its URLs are
+ * translated.
+ */
+const segments: Record<string, Record<TranslatedLocale, string>> = {
+  about: { fr: 'a-propos', es: 'sobre-nosotros', de: 'ueber-uns', it: 'chi-siamo', ca: 'qui-som' },
+  team: { fr: 'equipe', es: 'equipo', de: 'team', it: 'team', ca: 'equip' },
+  partners: { fr: 'partenaires', es: 'socios', de: 'partner', it: 'partner', ca: 'socis' },
+  capabilities: { fr: 'capacites', es: 'capacidades', de: 'kompetenzen', it: 'capacita', ca: 'capacitats' },
+  defense: { fr: 'defense', es: 'defensa', de: 'verteidigung', it: 'difesa', ca: 'defensa' },
+  cybersecurity: { fr: 'cybersecurite', es: 'ciberseguridad', de: 'cybersicherheit', it: 'cybersicurezza', ca: 'ciberseguretat' },
+  biosecurity: { fr: 'biosecurite', es: 'bioseguridad', de: 'biosicherheit', it: 'biosicurezza', ca: 'bioseguretat' },
+  'dual-use': { fr: 'double-usage', es: 'doble-uso', de: 'dual-use', it: 'duplice-uso', ca: 'doble-us' },
+  sectors: { fr: 'secteurs', es: 'sectores', de: 'sektoren', it: 'settori', ca: 'sectors' },
+  institutional: { fr: 'institutionnel', es: 'institucional', de: 'institutionell', it: 'istituzionale', ca: 'institucional' },
+  industrial: { fr: 'industriel', es: 'industrial', de: 'industrie', it: 'industriale', ca: 'industrial' },
+  academic: { fr: 'academique', es: 'academico', de: 'akademisch', it: 'accademico', ca: 'academic' },
+  news: { fr: 'actualites', es: 'noticias', de: 'neuigkeiten', it: 'notizie', ca: 'noticies' },
+  page: { fr: 'page', es: 'pagina', de: 'seite', it: 'pagina', ca: 'pagina' },
+  category: { fr: 'categorie', es: 'categoria', de: 'kategorie', it: 'categoria', ca: 'categoria' },
+  archive: { fr: 'archives', es: 'archivo', de: 'archiv', it: 'archivio', ca: 'arxiu' },
+  contact: { fr: 'contact', es: 'contacto', de: 'kontakt', it: 'contatti', ca: 'contacte' },
+  legal: { fr: 'legal', es: 'legal', de: 'rechtliches', it: 'note-legali', ca: 'legal' },
+  privacy: { fr: 'confidentialite', es: 'privacidad', de: 'datenschutz', it: 'privacy', ca: 'privadesa' },
+  terms: { fr: 'conditions', es: 'terminos', de: 'nutzungsbedingungen', it: 'termini', ca: 'termes' },
+  search: { fr: 'recherche', es: 'buscar', de: 'suche', it: 'cerca', ca: 'cerca' },
+  confirm: { fr: 'confirmer', es: 'confirmar', de: 'bestaetigen', it: 'conferma', ca: 'confirmar' },
+  unsubscribe: { fr: 'desabonnement', es: 'baja', de: 'abmelden', it: 'disiscrizione', ca: 'baixa' },
+};
+
+// Capability and sector pages are listed one by one so their internal
+// [capability]/[sector] params stay English while the URL is translated
+const internalPathnames = [
+  '/',
+  '/about',
+  '/about/team',
+  '/about/partners',
+  '/capabilities',
+  '/capabilities/defense',
+  '/capabilities/cybersecurity',
+  '/capabilities/biosecurity',
+  '/capabilities/dual-use',
+  '/sectors',
+  '/sectors/institutional',
+  '/sectors/industrial',
+  '/sectors/academic',
+  '/news',
+  '/news/page/[page]',
+  '/news/[slug]',
+  '/news/category/[category]',
+  '/news/category/[category]/page/[page]',
+  '/news/archive/[year]',
+  '/news/archive/[year]/[month]',
+  '/news/feed.xml',
+  '/news/atom.xml',
+  '/news/feed.json',
+  '/contact',
+  '/search',
+  '/search/index.json',
+  '/newsletter/confirm',
+  '/newsletter/unsubscribe',
+  '/legal/privacy',
+  '/legal/terms',
+  '/legal/cookies',
+];
+
+function translateTemplate(pathname: string, locale: Locale): string {
+  return pathname
+    .split('/')
+    .map((segment) => (locale === sourceLocale ? segment : segments[segment]?.[locale] ?? segment))
+    .join('/');
+}
+
+interface Template {
+  internal: string;
+  localized: Record<Locale, string>;
+}
+
+function paramCount(template: string): number {
+  return template.match(/\[/g)?.length ?? 0;
+}
+
+// Static pathnames first, then templates with the fewest params
+const templates: Template[] = internalPathnames
+  .map((internal) => ({
+    internal,
+    localized: Object.fromEntries(locales.map((locale) => [locale, translateTemplate(internal, locale)])) as Record<Locale, string>,
+  }))
+  .sort((a, b) => paramCount(a.internal) - paramCount(b.internal));
+
+/**
+ * Internal pathname -> URL pathname per locale, the `pathnames` of the
+ * next-intl routing config.
+ */
+export const pathnames: Pathnames<typeof locales> = Object.fromEntries(
+  templates.map(({ internal, localized }) => [internal, localized])
+);
+
+function matchTemplate(template: string, pathname: string): Record<string, string> | undefined {
+  const templateSegments = template.split('/');
+  const pathSegments = pathname.split('/');
+  if (templateSegments.length !== pathSegments.length) {
+    return undefined;
+  }
+  const params: Record<string, string> = {};
+  for (const [index, segment] of templateSegments.entries()) {
+    const param = segment.match(/^\[(\w+)\]$/)?.[1];
+    if (param && pathSegments[index]) {
+      params[param] = pathSegments[index];
+    } else if (segment !== pathSegments[index]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+function fillTemplate(template: string, params: Record<string, string>): string {
+  return template.replace(/\[(\w+)\]/g, (_, param: string) => params[param]);
+}
+
+// "/news?page=2#top" -> ["/news", "?page=2#top"]
+function splitPath(path: string): [string, string] {
+  const index = path.search(/[?#]/);
+  return index === -1 ? [path, ''] : [path.slice(0, index), path.slice(index)];
+}
+
+function findTemplate(pathname: string): { template: Template; params: Record<string, string> } | undefined {
+  for (const template of templates) {
+    const params = matchTemplate(template.internal, pathname);
+    if (params) {
+      return { template, params };
+    }
+  }
+  return undefined;
+}
+
+export interface MatchedPathname {
+  // Key in `pathnames`, e.g. "/news/[slug]"
+  pathname: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Finds the `pathnames` entry for a concrete internal path, e.g.
+ * "/news/launch" -> { pathname: "/news/[slug]", params: { slug: "launch" } }.
+ */
+export function matchPathname(pathname: string): MatchedPathname | undefined {
+  const match = findTemplate(pathname);
+  return match && { pathname: match.template.internal, params: match.params };
+}
+
+/**
+ * URL path of an internal path in a locale, without the locale prefix:
+ * "/capabilities/defense?x=1" -> "/capacitats/defensa?x=1" for "ca".
+ * Paths outside `pathnames` are returned unchanged.
+ */
+export function getLocalizedPathname(path: string, locale: Locale): string {
+  const [pathname, suffix] = splitPath(path);
+  const match = findTemplate(pathname);
+  return match ? fillTemplate(match.template.localized[locale], match.params) + suffix : path;
+}
+
+/**
+ * Internal path of a URL path (without the locale prefix). The locale's own
+ * translations are tried first, then internal paths and other locales' slugs;
+ * anything unknown is returned unchanged.
+ */
+export function getInternalPathname(path: string, locale: Locale): string {
+  const [pathname, suffix] = splitPath(path);
+  const candidates = [locale, ...locales.filter((other) => other !== locale)];
+
+  for (const candidate of candidates) {
+    for (const template of templates) {
+      const params = matchTemplate(template.localized[candidate], pathname);
+      if (params) {
+        return fillTemplate(template.internal, params) + suffix;
+      }
+    }
+    if (candidate === locale && findTemplate(pathname)) {
+      return path;
+    }
+  }
+  return path;
+}
+
+/**
+ * Locale-prefixed URL path of an internal path, e.g. "/ca/capacitats/defensa".
+ */
+export function getLocalizedHref(path: string, locale: Locale): string {
+  const localized = getLocalizedPathname(path, locale);
+  return `/${locale}${localized === '/' ? '' : localized.replace(/^\/(?=[?#])/, '')}`;
+}
+
+/**
+ * Locale-prefixed path a request should permanently redirect to, e.g. the
+ * English slugs used before paths were translated ("/ca/capabilities/defense"
+ * -> "/ca/capacitats/defensa"). Undefined when the path is already canonical.
+ */
+export function getLegacyRedirect(pathname: string): string | undefined {
+  const [, prefix, ...rest] = pathname.split('/');
+  if (!(locales as readonly string[]).includes(prefix)) {
+    return undefined;
+  }
+  const locale = prefix as Locale;
+  const path = `/${rest.join('/')}`;
+  const internal = getInternalPathname(path, locale);
+  return getLocalizedPathname(internal, locale) === path ? undefined : getLocalizedHref(internal, locale);
+}
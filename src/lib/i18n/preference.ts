@@ -0,0 +1,68 @@
+import { defaultLocale, locales, type Locale } from './config';
+
+// Language picked in the LanguageSwitcher; wins over Accept-Language on "/"
+export const LOCALE_COOKIE = 'dualys_locale';
+
+export const LOCALE_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+export function isLocale(value: unknown): value is Locale {
+  return (locales as readonly unknown[]).includes(value);
+}
+
+export function parseLocalePreference(value: string | undefined): Locale | undefined {
+  return isLocale(value) ? value : undefined;
+}
+
+/**
+ * Best supported locale for an Accept-Language header or a list of
+ * language tags (navigator.languages). Region subtags are ignored
+ * ("ca-ES" -> "ca"); undefined when nothing matches.
+ */
+export function negotiateLocale(languages: string | readonly string[] | null | undefined): Locale | undefined {
+  if (!languages) {
+    return undefined;
+  }
+  const ranges = typeof languages === 'string'
+    ? languages
+      .split(',')
+      .map((part) => {
+        const [tag, ...params] = part.trim().split(';');
+        const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+        return { tag, q: q ? Number(q.slice(2)) : 1 };
+      })
+      .filter(({ q }) => q > 0)
+      .sort((a, b) => b.q - a.q)
+      .map(({ tag }) => tag)
+    : languages;
+
+  for (const range of ranges) {
+    const language = range.trim().toLowerCase().split('-')[0];
+    if (isLocale(language)) {
+      return language;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Locale for a visit to "/": the visitor's explicit choice, else the
+ * browser's languages, else the default locale.
+ */
+export function resolvePreferredLocale({ cookie, acceptLanguage }: { cookie?: string; acceptLanguage?: string | null }): Locale {
+  return parseLocalePreference(cookie) ?? negotiateLocale(acceptLanguage) ?? defaultLocale;
+}
+
+export function readLocalePreference(): Locale | undefined {
+  if (typeof document === 'undefined') {
+    return undefined;
+  }
+  const entry = document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${LOCALE_COOKIE}=`));
+  return parseLocalePreference(entry?.slice(LOCALE_COOKIE.length + 1));
+}
+
+export function writeLocalePreference(locale: Locale) {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${LOCALE_COOKIE}=${locale}; Path=/; Max-Age=${LOCALE_COOKIE_MAX_AGE_SECONDS}; SameSite=Lax${secure}`;
+}
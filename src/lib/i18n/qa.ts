@@ -0,0 +1,166 @@
+import { locales, sourceLocale, type Locale, type TranslatedLocale } from './config';
+import { loadSourceSnapshot, placeholderIssue } from './exchange';
+import { loadFlatMessages } from './message-files';
+
+/**
+ * Translation QA beyond key completeness: every locale's messages against
+ * en.json for ICU arguments, protected brand terms, length of UI-constrained
+ * strings, English fallbacks recorded in translations/sources.json and other
+ * text left in English.
+ *
+ * Run with `npm run validate:translations`; src/__tests__/i18n/translationQa.test.ts
+ * fails on any issue.
+ */
+
+export type QaCheck = 'placeholders' | 'brand-terms' | 'length' | 'untranslated' | 'identical';
+
+export interface QaIssue {
+  check: QaCheck;
+  key: string;
+  message: string;
+}
+
+export interface LocaleQaReport {
+  locale: Locale;
+  keys: number;
+  issues: QaIssue[];
+}
+
+export interface LengthRule {
+  // Dotted key pattern: `*` matches one segment, `**` any number of them
+  pattern: string;
+  maxRatio: number;
+}
+
+export interface TranslationQaConfig {
+  // Must appear verbatim in a translation whenever the English text has them
+  brandTerms: string[];
+  lengthRules: LengthRule[];
+  // Short English strings count as this long, so "Home" -> "Startseite" passes
+  minLengthBase: number;
+  // Keys whose text is the same in every language (addresses, numbers)
+  sharedKeys: string[];
+  // Words a language shares with English, allowed to stay identical
+  identicalAllowed: Partial<Record<Locale, string[]>>;
+}
+
+export const translationQaConfig: TranslationQaConfig = {
+  brandTerms: ['Dualys AIE', 'Dualys', 'NATO', 'ISO 27001'],
+  lengthRules: [
+    // Header and footer navigation
+    { pattern: 'nav.*', maxRatio: 1.8 },
+    // Buttons and calls to action
+    { pattern: '**.button', maxRatio: 2 },
+    { pattern: '**.cta', maxRatio: 2 },
+    { pattern: '**.submit', maxRatio: 2 },
+    { pattern: 'consent.acceptAll', maxRatio: 2 },
+    { pattern: 'consent.rejectAll', maxRatio: 2 },
+    { pattern: 'consent.customize', maxRatio: 2 },
+    { pattern: 'consent.preferences.save', maxRatio: 2 },
+    { pattern: 'languageHint.action', maxRatio: 2 },
+    { pattern: 'languageHint.dismiss', maxRatio: 2 },
+  ],
+  minLengthBase: 10,
+  sharedKeys: ['pages.contact.info.email.general', 'pages.contact.info.email.press', 'pages.contact.info.phone.main'],
+  // One entry per translated locale; `npm run locale:add` adds an empty one
+  identicalAllowed: {
+    fr: ['Contact', 'Innovation', 'Collaboration', 'Message', 'Civil', 'Applications', 'Pagination', 'Page', 'Page {page}', 'Introduction', 'Cookies', 'Marketing'],
+    es: ['Legal', 'Civil', 'Email', 'Cookies', 'Marketing'],
+    de: ['Team', 'Innovation', 'Compliance & Governance', 'Standards & Compliance', 'Cookies', 'News', 'Marketing'],
+    it: ['Home', 'Team', 'Privacy Policy', 'Cookie Policy', 'Partnership', 'Privacy Policy | Dualys', 'Cookie Policy | Dualys', 'Marketing'],
+    ca: ['Sectors', 'Legal', 'Civil', 'Email', 'Cookies'],
+  } satisfies Record<TranslatedLocale, string[]>,
+};
+
+function keyPattern(pattern: string): RegExp {
+  const segments = pattern.split('.');
+  const body = segments.map((segment, index) => {
+    const last = index === segments.length - 1;
+    if (segment === '**') {
+      return last ? '.+' : '(?:[^.]+\\.)*';
+    }
+    const text = segment.replace(/[+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^.]+');
+    return last ? text : `${text}\\.`;
+  });
+  return new RegExp(`^${body.join('')}$`);
+}
+
+function lengthIssue(key: string, source: string, target: string, config: TranslationQaConfig): string | undefined {
+  const rule = config.lengthRules.find(({ pattern }) => keyPattern(pattern).test(key));
+  if (!rule) {
+    return undefined;
+  }
+  const limit = Math.floor(Math.max(source.length, config.minLengthBase) * rule.maxRatio);
+  return target.length > limit
+    ? `${target.length} characters, limit ${limit} (${rule.maxRatio}x "${source}")`
+    : undefined;
+}
+
+/**
+ * QA issues of one locale's messages against the English source. Keys
+ * missing from the locale are left to the completeness tests; `untranslated`
+ * lists the keys still holding a scaffolded English fallback.
+ */
+export function checkTranslations(
+  locale: Locale,
+  source: Record<string, string>,
+  target: Record<string, string>,
+  config = translationQaConfig,
+  untranslated: readonly string[] = []
+): QaIssue[] {
+  const issues: QaIssue[] = [];
+  const fallbacks = new Set(untranslated);
+  const sharedKeys = config.sharedKeys.map(keyPattern);
+  const allowed = config.identicalAllowed[locale] ?? [];
+
+  for (const [key, text] of Object.entries(source)) {
+    const translation = target[key];
+    if (translation === undefined) {
+      continue;
+    }
+
+    const placeholders = placeholderIssue(text, translation);
+    if (placeholders) {
+      issues.push({ check: 'placeholders', key, message: placeholders });
+    }
+
+    const missingTerms = config.brandTerms.filter((term) => text.includes(term) && !translation.includes(term));
+    if (missingTerms.length > 0) {
+      issues.push({ check: 'brand-terms', key, message: `missing ${missingTerms.map((term) => `"${term}"`).join(', ')}` });
+    }
+
+    const length = lengthIssue(key, text, translation, config);
+    if (length) {
+      issues.push({ check: 'length', key, message: length });
+    }
+
+    if (fallbacks.has(key)) {
+      issues.push({ check: 'untranslated', key, message: 'English fallback, not translated yet' });
+    } else if (translation === text && !allowed.includes(text) && !sharedKeys.some((pattern) => pattern.test(key))) {
+      issues.push({ check: 'identical', key, message: `same as English: "${text}"` });
+    }
+  }
+
+  return issues;
+}
+
+// QA report for every locale but the English source
+export function runTranslationQa(config = translationQaConfig): LocaleQaReport[] {
+  const source = loadFlatMessages(sourceLocale);
+  const snapshot = loadSourceSnapshot();
+  return locales
+    .filter((locale) => locale !== sourceLocale)
+    .map((locale) => {
+      const target = loadFlatMessages(locale);
+      const issues = checkTranslations(locale, source, target, config, snapshot?.untranslated[locale]);
+      return { locale, keys: Object.keys(target).length, issues };
+    });
+}
+
+export function formatQaReport(reports: LocaleQaReport[]): string {
+  const lines = reports.flatMap(({ locale, keys, issues }) => [
+    `${locale}: ${keys} keys, ${issues.length} issue(s)`,
+    ...issues.map(({ check, key, message }) => `  ${check.padEnd(12)} ${key}  ${message}`),
+  ]);
+  return `${lines.join('\n')}\n`;
+}
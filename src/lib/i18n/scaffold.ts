@@ -0,0 +1,93 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { CTA_REGISTRY_FILE } from '@/lib/routes/cta-registry';
+import { ROUTE_REGISTRY_FILE } from '@/lib/routes/registry';
+import { locales, sourceLocale, type Locale, type LocaleDefinition } from './config';
+import { addUntranslatedLocale, loadSourceSnapshot, saveSourceSnapshot, SOURCES_FILE } from './exchange';
+import { loadFlatMessages, loadMessages, saveMessages } from './message-files';
+
+/**
+ * Scaffold for a new locale: its definition in config.ts, a messages file
+ * holding the English text (recorded as untranslated in
+ * translations/sources.json for the export and QA), an empty QA allowlist
+ * and the locale lists of the YAML registries. The URL segments in pathnames.ts need real translations, so
+ * the tree does not type-check until they are added there.
+ */
+
+const CONFIG_FILE = path.join(process.cwd(), 'src', 'lib', 'i18n', 'config.ts');
+const QA_FILE = path.join(process.cwd(), 'src', 'lib', 'i18n', 'qa.ts');
+
+// Regional indicator symbols, e.g. "PT" -> 🇵🇹
+export function flagForRegion(region: string): string {
+  return [...region.toUpperCase()].map((char) => String.fromCodePoint(0x1f1e6 + char.charCodeAt(0) - 65)).join('');
+}
+
+/**
+ * Native name from the runtime's ICU data ("pt" -> "Português") and the
+ * flag of the region with the same code, unless given.
+ */
+export function defaultLocaleDefinition(code: string, overrides: Partial<LocaleDefinition> = {}): LocaleDefinition {
+  const name = new Intl.DisplayNames([code], { type: 'language' }).of(code) ?? code;
+  return {
+    nativeName: overrides.nativeName ?? name.charAt(0).toLocaleUpperCase(code) + name.slice(1),
+    flag: overrides.flag ?? flagForRegion(code),
+  };
+}
+
+// config.ts with the locale appended to `localeDefinitions`
+export function addLocaleDefinition(source: string, code: string, { nativeName, flag }: LocaleDefinition): string {
+  const start = source.indexOf('export const localeDefinitions = {');
+  const end = source.indexOf('} as const', start);
+  if (start < 0 || end < 0) {
+    throw new Error('localeDefinitions not found in config.ts');
+  }
+  const entry = `  ${code}: { nativeName: '${nativeName.replace(/'/g, "\\'")}', flag: '${flag}' },\n`;
+  return source.slice(0, end) + entry + source.slice(end);
+}
+
+// qa.ts with an empty `identicalAllowed` entry for the locale
+export function addQaLocale(source: string, code: string): string {
+  const end = source.indexOf('  } satisfies Record<TranslatedLocale, string[]>');
+  if (end < 0) {
+    throw new Error('identicalAllowed not found in qa.ts');
+  }
+  return `${source.slice(0, end)}    ${code}: [],\n${source.slice(end)}`;
+}
+
+// Registry YAML with the locale appended to its `locales:` list, in the list's quoting style
+export function addRegistryLocale(source: string, code: string): string {
+  const pattern = /^locales: \[(.*)\]$/m;
+  const match = pattern.exec(source);
+  if (!match) {
+    throw new Error('locales list not found');
+  }
+  const quote = match[1].trim().startsWith('"') ? '"' : '';
+  return source.replace(pattern, `locales: [${match[1]}, ${quote}${code}${quote}]`);
+}
+
+function updateFile(file: string, update: (source: string) => string) {
+  writeFileSync(file, update(readFileSync(file, 'utf8')));
+}
+
+/**
+ * Register a new locale everywhere the tree lists locales. Returns the
+ * files written, relative to the project root.
+ */
+export function scaffoldLocale(code: string, definition: LocaleDefinition): string[] {
+  if (!/^[a-z]{2,3}$/.test(code)) {
+    throw new Error(`"${code}" is not a two or three letter language code`);
+  }
+  if ((locales as readonly string[]).includes(code)) {
+    throw new Error(`"${code}" is already a locale`);
+  }
+
+  updateFile(CONFIG_FILE, (source) => addLocaleDefinition(source, code, definition));
+  saveMessages(code, loadMessages(sourceLocale));
+  saveSourceSnapshot(addUntranslatedLocale(loadSourceSnapshot(), code as Locale, loadFlatMessages(sourceLocale)));
+  updateFile(QA_FILE, (source) => addQaLocale(source, code));
+  updateFile(ROUTE_REGISTRY_FILE, (source) => addRegistryLocale(source, code));
+  updateFile(CTA_REGISTRY_FILE, (source) => addRegistryLocale(source, code));
+
+  return [CONFIG_FILE, path.join('src', 'messages', `${code}.json`), SOURCES_FILE, QA_FILE, ROUTE_REGISTRY_FILE, CTA_REGISTRY_FILE]
+    .map((file) => path.relative(process.cwd(), path.resolve(file)));
+}
@@ -0,0 +1,33 @@
+'use server';
+
+import {
+  cancelSubscription,
+  confirmSubscription,
+  type ConfirmResult,
+  type UnsubscribeResult,
+} from './subscription';
+
+/**
+ * Form actions behind the buttons on the confirm and unsubscribe pages.
+ * Opening an emailed link only renders the page; link scanners and
+ * prefetchers issue GETs, so nothing changes until the form is posted.
+ */
+
+function formToken(formData: FormData): string | undefined {
+  const token = formData.get('token');
+  return typeof token === 'string' ? token : undefined;
+}
+
+export async function confirmSubscriptionAction(
+  _previous: ConfirmResult | undefined,
+  formData: FormData
+): Promise<ConfirmResult> {
+  return confirmSubscription(formToken(formData));
+}
+
+export async function cancelSubscriptionAction(
+  _previous: UnsubscribeResult | undefined,
+  formData: FormData
+): Promise<UnsubscribeResult> {
+  return cancelSubscription(formToken(formData));
+}
@@ -0,0 +1,51 @@
+import type { Locale } from '@/lib/i18n/config';
+import { createOutboxMailer } from './mailers/outbox';
+import { createSmtpMailer } from './mailers/smtp';
+
+// Double opt-in email, already localized by the caller
+export interface ConfirmationEmail {
+  to: string;
+  locale: Locale;
+  subject: string;
+  text: string;
+  confirmUrl: string;
+  // RFC 8058 List-Unsubscribe headers (see getListUnsubscribeHeaders)
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends the double opt-in confirmation email.
+ * Implementations throw when the message could not be handed off.
+ */
+export interface NewsletterMailer {
+  readonly name: string;
+  sendConfirmation(email: ConfirmationEmail): Promise<void>;
+}
+
+export type NewsletterMailerName = 'smtp' | 'outbox';
+
+/**
+ * NEWSLETTER_MAILER wins; otherwise SMTP is used when SMTP_HOST is set,
+ * falling back to the file outbox for local development and tests.
+ */
+export function resolveMailerName(env: Partial<NodeJS.ProcessEnv> = process.env): NewsletterMailerName {
+  const configured = env.NEWSLETTER_MAILER;
+  if (configured === 'smtp' || configured === 'outbox') {
+    return configured;
+  }
+  return env.SMTP_HOST ? 'smtp' : 'outbox';
+}
+
+let mailer: NewsletterMailer | undefined;
+
+export function getNewsletterMailer(): NewsletterMailer {
+  if (!mailer) {
+    mailer = resolveMailerName() === 'smtp' ? createSmtpMailer() : createOutboxMailer();
+  }
+  return mailer;
+}
+
+// Swap the active mailer (tests, custom integrations)
+export function setNewsletterMailer(next: NewsletterMailer | undefined) {
+  mailer = next;
+}
@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { NewsletterMailer } from '../mailer';
+
+/**
+ * File-backed outbox: writes each confirmation email as a JSON file,
+ * so the confirm link can be opened locally without a mail server.
+ */
+export function createOutboxMailer(
+  dir = process.env.NEWSLETTER_OUTBOX_DIR || path.join(process.cwd(), '.outbox', 'newsletter')
+): NewsletterMailer {
+  return {
+    name: 'outbox',
+    async sendConfirmation(email) {
+      await mkdir(dir, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+      await writeFile(path.join(dir, fileName), JSON.stringify(email, null, 2), 'utf8');
+    },
+  };
+}
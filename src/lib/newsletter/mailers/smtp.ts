@@ -0,0 +1,20 @@
+import nodemailer from 'nodemailer';
+import { readSmtpConfig, type SmtpConfig } from '@/lib/contact/transports/smtp';
+import type { NewsletterMailer } from '../mailer';
+
+// Shares the SMTP_* settings with the contact form transport
+export function createSmtpMailer(config: SmtpConfig = readSmtpConfig()): NewsletterMailer {
+  const mailer = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async sendConfirmation({ to, subject, text, headers }) {
+      await mailer.sendMail({ from: config.from, to, subject, text, headers });
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { locales } from '@/lib/i18n/config';
+import { formProtectionSchema } from '@/lib/spam/fields';
+
+/**
+ * Newsletter sign-up fields shared by NewsletterForm and /api/newsletter.
+ * Error messages are translation keys under `newsletter.errors`.
+ */
+export const newsletterSchema = z.object({
+  email: z.string().trim().email('emailInvalid'),
+  // GDPR: explicit opt-in, never pre-checked
+  consent: z.literal(true, 'consentRequired'),
+});
+
+export type NewsletterFormData = z.input<typeof newsletterSchema>;
+export type NewsletterSubmission = z.output<typeof newsletterSchema>;
+export type NewsletterField = keyof NewsletterFormData;
+
+// Payload accepted by /api/newsletter: the form fields plus request context
+export const newsletterRequestSchema = newsletterSchema.extend({
+  locale: z.enum(locales).optional(),
+  ...formProtectionSchema.shape,
+});
+
+export type NewsletterFieldErrors = Partial<Record<NewsletterField, string>>;
+
+export type NewsletterErrorCode =
+  | 'invalidRequest'
+  | 'invalidToken'
+  | 'validation'
+  | 'delivery'
+  | 'rateLimited'
+  | 'rejected';
+
+export type NewsletterResponse =
+  | { ok: true }
+  | { ok: false; error: NewsletterErrorCode; fieldErrors?: NewsletterFieldErrors };
+
+// One error code per form field (first issue wins)
+export function getFieldErrors(error: z.ZodError): NewsletterFieldErrors {
+  const fieldErrors: NewsletterFieldErrors = {};
+  for (const issue of error.issues) {
+    const field = issue.path[0];
+    if (typeof field === 'string' && field in newsletterSchema.shape && !(field in fieldErrors)) {
+      fieldErrors[field as NewsletterField] = issue.message;
+    }
+  }
+  return fieldErrors;
+}
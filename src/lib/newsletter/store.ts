@@ -0,0 +1,51 @@
+import type { Locale } from '@/lib/i18n/config';
+import { createBrevoStore } from './stores/brevo';
+import { createJsonStore } from './stores/json';
+
+export interface Subscriber {
+  email: string;
+  locale: Locale;
+  // When the consent checkbox was submitted and when the link was clicked (ISO)
+  consentAt: string;
+  confirmedAt: string;
+}
+
+/**
+ * Where confirmed subscribers live. Only double-opt-in confirmed addresses
+ * reach the store; pending sign-ups exist solely as signed tokens.
+ * Implementations throw when the backend could not be updated.
+ */
+export interface SubscriberStore {
+  readonly name: string;
+  subscribe(subscriber: Subscriber): Promise<void>;
+  unsubscribe(email: string): Promise<void>;
+}
+
+export type SubscriberStoreName = 'json' | 'brevo';
+
+/**
+ * Resolve the store from the environment.
+ * NEWSLETTER_STORE wins; otherwise Brevo is used when BREVO_API_KEY is set,
+ * falling back to a local JSON file for development and tests.
+ */
+export function resolveStoreName(env: Partial<NodeJS.ProcessEnv> = process.env): SubscriberStoreName {
+  const configured = env.NEWSLETTER_STORE;
+  if (configured === 'json' || configured === 'brevo') {
+    return configured;
+  }
+  return env.BREVO_API_KEY ? 'brevo' : 'json';
+}
+
+let store: SubscriberStore | undefined;
+
+export function getSubscriberStore(): SubscriberStore {
+  if (!store) {
+    store = resolveStoreName() === 'brevo' ? createBrevoStore() : createJsonStore();
+  }
+  return store;
+}
+
+// Swap the active store (tests, custom integrations)
+export function setSubscriberStore(next: SubscriberStore | undefined) {
+  store = next;
+}
@@ -0,0 +1,60 @@
+import type { SubscriberStore } from '../store';
+
+interface BrevoConfig {
+  apiKey: string;
+  listId: number;
+  baseUrl?: string;
+}
+
+function readBrevoConfig(env: NodeJS.ProcessEnv = process.env): BrevoConfig {
+  if (!env.BREVO_API_KEY || !env.BREVO_LIST_ID) {
+    throw new Error('Brevo store requires BREVO_API_KEY and BREVO_LIST_ID');
+  }
+
+  return {
+    apiKey: env.BREVO_API_KEY,
+    listId: Number(env.BREVO_LIST_ID),
+  };
+}
+
+/**
+ * Subscriber store backed by a Brevo (EU-hosted ESP) contact list.
+ * The sign-up locale is written to a LOCALE contact attribute for segmentation.
+ */
+export function createBrevoStore({
+  apiKey,
+  listId,
+  baseUrl = 'https://api.brevo.com/v3',
+}: BrevoConfig = readBrevoConfig()): SubscriberStore {
+  async function call(path: string, body: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'api-key': apiKey,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Brevo ${path} responded ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  return {
+    name: 'brevo',
+
+    subscribe({ email, locale, consentAt, confirmedAt }) {
+      return call('/contacts', {
+        email,
+        listIds: [listId],
+        updateEnabled: true,
+        attributes: { LOCALE: locale, OPT_IN_AT: consentAt, DOI_CONFIRMED_AT: confirmedAt },
+      });
+    },
+
+    unsubscribe(email) {
+      return call(`/contacts/lists/${listId}/contacts/remove`, { emails: [email] });
+    },
+  };
+}
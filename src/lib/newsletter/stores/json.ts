@@ -0,0 +1,63 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Subscriber, SubscriberStore } from '../store';
+
+interface StoredSubscriber extends Subscriber {
+  status: 'subscribed' | 'unsubscribed';
+  unsubscribedAt?: string;
+}
+
+type SubscriberFile = Record<string, StoredSubscriber>;
+
+/**
+ * File-backed subscriber list keyed by lower-cased email.
+ * Meant for local development and tests; not safe across server instances.
+ */
+export function createJsonStore(
+  file = process.env.NEWSLETTER_STORE_FILE || path.join(process.cwd(), '.data', 'newsletter.json')
+): SubscriberStore {
+  // Serialize read-modify-write cycles within this process
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<SubscriberFile> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as SubscriberFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  function update(change: (subscribers: SubscriberFile) => void): Promise<void> {
+    const next = queue.then(async () => {
+      const subscribers = await read();
+      change(subscribers);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, JSON.stringify(subscribers, null, 2), 'utf8');
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    name: 'json',
+
+    subscribe(subscriber) {
+      return update((subscribers) => {
+        subscribers[subscriber.email.toLowerCase()] = { ...subscriber, status: 'subscribed' };
+      });
+    },
+
+    unsubscribe(email) {
+      return update((subscribers) => {
+        const existing = subscribers[email.toLowerCase()];
+        if (existing) {
+          existing.status = 'unsubscribed';
+          existing.unsubscribedAt = new Date().toISOString();
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import type { Locale } from '@/lib/i18n/config';
+import { baseUrl, getLocalizedUrl } from '@/lib/seo/metadata';
+import { getSubscriberStore } from './store';
+import { issueNewsletterToken, verifyNewsletterToken } from './token';
+
+export type ConfirmResult =
+  | { status: 'confirmed'; email: string; unsubscribeUrl: string }
+  | { status: 'invalidToken' | 'expiredToken' | 'failed' };
+
+export type UnsubscribeResult =
+  | { status: 'unsubscribed'; email: string }
+  | { status: 'invalidToken' | 'failed' };
+
+export function getConfirmUrl(token: string, locale: Locale) {
+  return getLocalizedUrl(locale, `/newsletter/confirm?token=${encodeURIComponent(token)}`);
+}
+
+// Permanent one-click unsubscribe link for a subscriber
+export function getUnsubscribeUrl(email: string, locale: Locale) {
+  const token = issueNewsletterToken('unsubscribe', { email, locale });
+  return getLocalizedUrl(locale, `/newsletter/unsubscribe?token=${encodeURIComponent(token)}`);
+}
+
+/**
+ * RFC 8058 headers for newsletter emails: mail clients offering one-click
+ * unsubscribe POST `List-Unsubscribe=One-Click` to /api/newsletter/unsubscribe.
+ */
+export function getListUnsubscribeHeaders(email: string, locale: Locale): Record<string, string> {
+  const token = issueNewsletterToken('unsubscribe', { email, locale });
+  return {
+    'List-Unsubscribe': `<${baseUrl}/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/**
+ * Second step of the double opt-in: the link from the confirmation email
+ * proves ownership of the address, so the subscriber is stored now.
+ */
+export async function confirmSubscription(token: string | undefined, now = Date.now()): Promise<ConfirmResult> {
+  const verification = verifyNewsletterToken(token, 'confirm', now);
+  if (!verification.ok) {
+    return { status: verification.reason };
+  }
+
+  const { email, locale, iat } = verification.payload;
+  const store = getSubscriberStore();
+  try {
+    await store.subscribe({
+      email,
+      locale,
+      consentAt: new Date(iat).toISOString(),
+      confirmedAt: new Date(now).toISOString(),
+    });
+  } catch (error) {
+    console.error(`[newsletter] confirming via ${store.name} failed:`, error);
+    return { status: 'failed' };
+  }
+
+  return { status: 'confirmed', email, unsubscribeUrl: getUnsubscribeUrl(email, locale) };
+}
+
+export async function cancelSubscription(token: string | undefined): Promise<UnsubscribeResult> {
+  const verification = verifyNewsletterToken(token, 'unsubscribe');
+  if (!verification.ok) {
+    return { status: 'invalidToken' };
+  }
+
+  const { email } = verification.payload;
+  const store = getSubscriberStore();
+  try {
+    await store.unsubscribe(email);
+  } catch (error) {
+    console.error(`[newsletter] unsubscribing via ${store.name} failed:`, error);
+    return { status: 'failed' };
+  }
+
+  return { status: 'unsubscribed', email };
+}
@@ -0,0 +1,94 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { locales, type Locale } from '@/lib/i18n/config';
+
+export type NewsletterTokenPurpose = 'confirm' | 'unsubscribe';
+
+export interface NewsletterTokenPayload {
+  purpose: NewsletterTokenPurpose;
+  email: string;
+  // Locale at sign-up, kept for segmentation
+  locale: Locale;
+  // Issue time in ms; for confirm tokens this is when consent was given
+  iat: number;
+  // Expiry in ms; unsubscribe links never expire
+  exp?: number;
+}
+
+export type NewsletterTokenVerification =
+  | { ok: true; payload: NewsletterTokenPayload }
+  | { ok: false; reason: 'invalidToken' | 'expiredToken' };
+
+// Confirmation links stay valid for two days
+export const CONFIRM_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Per-process fallback keeps local development working without configuration.
+// Set NEWSLETTER_TOKEN_SECRET in production, or links break on every deploy.
+const fallbackSecret = randomBytes(32).toString('hex');
+
+function getSecret(): string {
+  return process.env.NEWSLETTER_TOKEN_SECRET || fallbackSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a signed token: `<base64url JSON payload>.<signature>`.
+ */
+export function issueNewsletterToken(
+  purpose: NewsletterTokenPurpose,
+  { email, locale }: { email: string; locale: Locale },
+  now = Date.now()
+): string {
+  const payload: NewsletterTokenPayload = {
+    purpose,
+    email,
+    locale,
+    iat: now,
+    ...(purpose === 'confirm' ? { exp: now + CONFIRM_TOKEN_TTL_MS } : {}),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function isPayload(value: unknown): value is NewsletterTokenPayload {
+  const payload = value as Partial<NewsletterTokenPayload> | null;
+  return typeof payload?.email === 'string'
+    && (payload.purpose === 'confirm' || payload.purpose === 'unsubscribe')
+    && locales.includes(payload.locale as Locale)
+    && typeof payload.iat === 'number'
+    && (payload.exp === undefined || typeof payload.exp === 'number');
+}
+
+export function verifyNewsletterToken(
+  token: string | undefined,
+  purpose: NewsletterTokenPurpose,
+  now = Date.now()
+): NewsletterTokenVerification {
+  const [encoded, signature, ...rest] = token?.split('.') ?? [];
+  if (!encoded || !signature || rest.length > 0) {
+    return { ok: false, reason: 'invalidToken' };
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: 'invalidToken' };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'invalidToken' };
+  }
+  if (!isPayload(payload) || payload.purpose !== purpose) {
+    return { ok: false, reason: 'invalidToken' };
+  }
+  if (payload.exp !== undefined && now > payload.exp) {
+    return { ok: false, reason: 'expiredToken' };
+  }
+
+  return { ok: true, payload };
+}
@@ -0,0 +1,302 @@
+import { existsSync, readdirSync } from 'fs';
+import path from 'path';
+import { capabilities, getCapability, getCapabilityPath } from '@/lib/capabilities/definitions';
+import { locales, type Locale } from '@/lib/i18n/config';
+import { getInternalPathname } from '@/lib/i18n/pathnames';
+import { getSectorPath, isSector, sectors } from '@/lib/sectors/sectors';
+import { validateJsonLd } from '@/lib/seo/structured-data';
+import {
+  getAllDestinations,
+  getCtaRegistry,
+  type CtaRegistry,
+  type ExpectedCta,
+} from './cta-registry';
+import {
+  findRoute,
+  flattenRoutes,
+  getNavigation,
+  getRouteRegistry,
+  type RouteEntry,
+  type RouteRegistry,
+} from './registry';
+
+export type DriftSeverity = 'error' | 'warning';
+
+export interface DriftIssue {
+  severity: DriftSeverity;
+  check: string;
+  subject: string;
+  detail: string;
+}
+
+export const SRC_DIR = path.join(process.cwd(), 'src');
+const PAGES_DIR = path.join(SRC_DIR, 'app', '[locale]');
+
+export function pageFileFor(routePath: string): string {
+  return path.join(PAGES_DIR, ...routePath.split('/').filter(Boolean), 'page.tsx');
+}
+
+// Route paths of every page.tsx below src/app/[locale]
+export function listPageRoutes(dir = PAGES_DIR, prefix = ''): string[] {
+  const routes: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      routes.push(...listPageRoutes(path.join(dir, entry.name), `${prefix}/${entry.name}`));
+    } else if (entry.name === 'page.tsx') {
+      routes.push(prefix || '/');
+    }
+  }
+  return routes.sort();
+}
+
+function pathOf(destination: string) {
+  return destination.split('?')[0];
+}
+
+function sameList(a: string[], b: string[]) {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+function listDrift(check: string, subject: string, expected: string[], actual: string[], actualSource = 'route-registry'): DriftIssue[] {
+  if (sameList(expected, actual)) {
+    return [];
+  }
+  return [{
+    severity: 'warning',
+    check,
+    subject,
+    detail: `cta-registry: [${expected.join(', ')}] / ${actualSource}: [${actual.join(', ')}]`,
+  }];
+}
+
+/**
+ * Checks that need no rendering: registry paths and page files match both
+ * ways, CTA destinations and file references resolve, and the data repeated
+ * across both registries (navigation, sector crosslinks, clusters) agrees.
+ */
+export function checkRegistries(
+  routeRegistry: RouteRegistry = getRouteRegistry(),
+  ctaRegistry: CtaRegistry = getCtaRegistry(),
+  pageRoutes: string[] = listPageRoutes()
+): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const routes = flattenRoutes(routeRegistry.routes);
+  const registered = new Set(routes.map((route) => route.path));
+
+  for (const [name, declared] of [['route-registry', routeRegistry.locales], ['cta-registry', ctaRegistry.locales]] as const) {
+    if (!sameList([...declared].sort(), [...locales].sort())) {
+      issues.push({ severity: 'error', check: 'locales', subject: name, detail: `[${declared.join(', ')}] differs from the i18n config` });
+    }
+  }
+
+  for (const route of routes) {
+    if (!pageRoutes.includes(route.path)) {
+      issues.push({ severity: 'error', check: 'route-file', subject: route.path, detail: 'No page.tsx for this registry route' });
+    }
+    for (const requirement of route.content_requirements ?? []) {
+      if (!routeRegistry.validation.content_requirements.includes(requirement)) {
+        issues.push({ severity: 'error', check: 'requirement', subject: route.path, detail: `Unknown content requirement "${requirement}"` });
+      }
+    }
+  }
+
+  for (const page of pageRoutes) {
+    if (!registered.has(page)) {
+      issues.push({ severity: 'error', check: 'page-file', subject: page, detail: 'page.tsx has no route-registry entry' });
+    }
+  }
+
+  for (const { destination, source } of getAllDestinations(ctaRegistry)) {
+    if (!findRoute(pathOf(destination), routes)) {
+      issues.push({ severity: 'error', check: 'cta-destination', subject: destination, detail: `${source} points to an unregistered route` });
+    }
+  }
+
+  for (const page of Object.keys(ctaRegistry.page_ctas)) {
+    if (!registered.has(page)) {
+      issues.push({ severity: 'error', check: 'cta-page', subject: page, detail: 'page_ctas entry for an unregistered route' });
+    }
+  }
+
+  const files = [
+    ...Object.values(ctaRegistry.capability_to_sector).map((mapping) => mapping.file),
+    ...Object.values(ctaRegistry.sector_to_capability).map((mapping) => mapping.file),
+    ctaRegistry.header.file,
+    ctaRegistry.footer.file,
+  ];
+  for (const file of new Set(files)) {
+    if (!existsSync(path.join(SRC_DIR, file))) {
+      issues.push({ severity: 'error', check: 'cta-file', subject: file, detail: 'Referenced file does not exist' });
+    }
+  }
+
+  // The route registry drives navigation; the CTA registry copy must follow it
+  const navigation = getNavigation(routeRegistry.routes);
+  const hrefs = (items: { href: string }[]) => items.map((item) => item.href);
+  issues.push(
+    ...listDrift('nav', 'header.main_nav', ctaRegistry.header.main_nav.map((item) => item.path), hrefs(navigation.header)),
+    ...listDrift('nav', 'header.cta', [ctaRegistry.header.cta.path], hrefs(navigation.header_cta)),
+    ...listDrift('nav', 'footer.quick_links', ctaRegistry.footer.sections.quick_links ?? [], hrefs(navigation.footer)),
+    ...listDrift('nav', 'footer.legal', ctaRegistry.footer.sections.legal ?? [], hrefs(navigation.footer_legal)),
+  );
+
+  const crosslinks = routeRegistry.crosslinks?.sector_to_capability ?? {};
+  for (const [sector, mapping] of Object.entries(ctaRegistry.sector_to_capability)) {
+    issues.push(...listDrift('crosslinks', `sector_to_capability.${sector}`, mapping.related_capabilities, crosslinks[sector] ?? []));
+  }
+
+  // Capability definitions and their registry mapping must describe the same CTAs
+  for (const capability of capabilities) {
+    const mapping = ctaRegistry.capability_to_sector[capability.slug];
+    const subject = getCapabilityPath(capability.slug);
+    if (!mapping) {
+      issues.push({ severity: 'error', check: 'capabilities', subject, detail: 'No capability_to_sector entry for this capability' });
+      continue;
+    }
+    if (mapping.primary_cta.topic !== capability.contactTopic) {
+      issues.push({ severity: 'error', check: 'capabilities', subject, detail: `Contact topic "${capability.contactTopic}" differs from primary_cta topic "${mapping.primary_cta.topic}"` });
+    }
+    issues.push(...listDrift('capabilities', `capability_to_sector.${capability.slug}`,
+      mapping.secondary_ctas.map((cta) => cta.destination), capability.related.map((link) => link.path), 'definitions'));
+  }
+  for (const slug of Object.keys(ctaRegistry.capability_to_sector)) {
+    if (!getCapability(slug)) {
+      issues.push({ severity: 'error', check: 'capabilities', subject: `capability_to_sector.${slug}`, detail: 'Not a capability in src/lib/capabilities/definitions.ts' });
+    }
+  }
+
+  // Every sector spoke page needs its mapping and every mapping a spoke page
+  for (const sector of sectors) {
+    if (!ctaRegistry.sector_to_capability[sector]) {
+      issues.push({ severity: 'error', check: 'sectors', subject: getSectorPath(sector), detail: 'No sector_to_capability entry for this sector page' });
+    }
+  }
+  for (const sector of Object.keys(ctaRegistry.sector_to_capability)) {
+    if (!isSector(sector)) {
+      issues.push({ severity: 'error', check: 'sectors', subject: `sector_to_capability.${sector}`, detail: 'Not a sector in src/lib/sectors/sectors.ts' });
+    }
+  }
+
+  for (const cluster of routeRegistry.clusters) {
+    for (const member of [cluster.hub, ...cluster.spokes]) {
+      if (!findRoute(member, routes)) {
+        issues.push({ severity: 'warning', check: 'cluster', subject: member, detail: `${cluster.name} cluster member has no route entry` });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Content requirement detectors, run against a rendered page.
+ * has_cta is checked separately against the page's expected CTAs.
+ */
+const requirementChecks: Record<string, (root: ParentNode) => boolean> = {
+  has_hero: (root) => root.querySelector('h1') !== null,
+  has_breadcrumbs: (root) => root.querySelector('nav[aria-label="Breadcrumb"]') !== null,
+  has_structured_data: (root) => root.querySelector('script[type="application/ld+json"]') !== null,
+  has_team: (root) => root.querySelector('[data-testid="team-card"]') !== null,
+  has_partners: (root) => root.querySelector('[data-testid="partner-card"]') !== null,
+  has_form: (root) => root.querySelector('form') !== null,
+  has_faq: (root) => [...root.querySelectorAll('script[type="application/ld+json"]')]
+    .some((script) => script.textContent?.includes('"FAQPage"')),
+};
+
+// Internal link targets on the page ("/ca/contacte?topic=x" -> "/contact?topic=x")
+function linkTargets(root: ParentNode, locale: string): URL[] {
+  return [...root.querySelectorAll('a[href]')].flatMap((anchor) => {
+    const href = anchor.getAttribute('href') ?? '';
+    if (!href.startsWith('/')) {
+      return [];
+    }
+    const url = new URL(href, 'http://localhost');
+    const prefix = `/${locale}`;
+    if (url.pathname === prefix || url.pathname.startsWith(`${prefix}/`)) {
+      url.pathname = getInternalPathname(url.pathname.slice(prefix.length) || '/', locale as Locale);
+    }
+    return [url];
+  });
+}
+
+function hasCta(targets: URL[], { destination, topic }: Pick<ExpectedCta, 'destination' | 'topic'>) {
+  const expected = new URL(destination, 'http://localhost');
+  return targets.some((url) =>
+    url.pathname === expected.pathname
+    && (topic === undefined || url.searchParams.get('topic') === topic)
+    && [...expected.searchParams].every(([key, value]) => url.searchParams.get(key) === value));
+}
+
+/**
+ * Compare a rendered page with what the registries declare for it:
+ * its content requirements and every expected CTA destination.
+ */
+export function checkRenderedPage(
+  root: ParentNode,
+  route: Pick<RouteEntry, 'path' | 'content_requirements'>,
+  locale: string,
+  expectedCtas: ExpectedCta[] = []
+): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const subject = `/${locale}${route.path === '/' ? '' : route.path}`;
+  const targets = linkTargets(root, locale);
+
+  for (const requirement of route.content_requirements ?? []) {
+    const present = requirement === 'has_cta'
+      ? (expectedCtas.length > 0 ? expectedCtas.some((cta) => hasCta(targets, cta)) : hasCta(targets, { destination: '/contact' }))
+      : requirementChecks[requirement]?.(root);
+    if (!present) {
+      issues.push({ severity: 'error', check: 'requirement', subject, detail: `${requirement} not found on the rendered page` });
+    }
+  }
+
+  for (const cta of expectedCtas) {
+    if (!hasCta(targets, cta)) {
+      const target = cta.topic ? `${cta.destination} (topic ${cta.topic})` : cta.destination;
+      issues.push({ severity: 'error', check: 'cta', subject, detail: `${cta.source}: no link to ${target}` });
+    }
+  }
+
+  // Each page emits a single connected JSON-LD graph
+  const scripts = [...root.querySelectorAll('script[type="application/ld+json"]')];
+  if (scripts.length > 1) {
+    issues.push({ severity: 'error', check: 'structured-data', subject, detail: `${scripts.length} JSON-LD scripts instead of one @graph` });
+  }
+  for (const script of scripts) {
+    let data: unknown;
+    try {
+      data = JSON.parse(script.textContent ?? '');
+    } catch {
+      issues.push({ severity: 'error', check: 'structured-data', subject, detail: 'JSON-LD is not valid JSON' });
+      continue;
+    }
+    for (const problem of validateJsonLd(data)) {
+      issues.push({ severity: 'error', check: 'structured-data', subject, detail: problem });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Plain-text drift table, errors first, followed by a summary line.
+ */
+export function formatDriftTable(issues: DriftIssue[]): string {
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+  const summary = `${errors} error(s), ${issues.length - errors} warning(s)`;
+  if (issues.length === 0) {
+    return `No drift found. ${summary}\n`;
+  }
+
+  const sorted = [...issues].sort((a, b) => a.severity.localeCompare(b.severity));
+  const rows = [
+    ['Severity', 'Check', 'Subject', 'Detail'],
+    ...sorted.map((issue) => [issue.severity, issue.check, issue.subject, issue.detail]),
+  ];
+  // The last column is left unpadded
+  const widths = [0, 1, 2].map((column) => Math.max(...rows.map((row) => row[column].length)));
+  const line = (row: string[]) => row.map((cell, index) => (index < widths.length ? cell.padEnd(widths[index]) : cell)).join(' | ');
+  const rule = [...widths, 6].map((width) => '-'.repeat(width)).join('-+-');
+
+  return [line(rows[0]), rule, ...rows.slice(1).map(line), '', summary, ''].join('\n');
+}
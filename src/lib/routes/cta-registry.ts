@@ -0,0 +1,163 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { locales } from '@/lib/i18n/config';
+
+// Destination paths may carry a query string, e.g. "/contact?topic=press"
+const destination = z.string().regex(/^\/[a-z0-9\-/]*(\?.*)?$/, 'Invalid destination');
+
+const ctaSchema = z.object({
+  destination,
+  // Preselected contact form inquiry type (/contact?topic=...)
+  topic: z.string().optional(),
+  label: z.string(),
+  semantic_match: z.enum(['high', 'medium', 'low']).optional(),
+});
+
+const formActionSchema = z.object({
+  type: z.literal('form'),
+  action: z.string(),
+});
+
+export const ctaRegistrySchema = z.object({
+  version: z.string(),
+  last_updated: z.string(),
+  locales: z.array(z.enum(locales)),
+  capability_to_sector: z.record(z.string(), z.object({
+    file: z.string(),
+    // Concrete page path when `file` is a dynamic route, e.g. "/capabilities/defense"
+    path: destination.optional(),
+    primary_cta: ctaSchema,
+    secondary_ctas: z.array(ctaSchema).default([]),
+  })),
+  sector_to_capability: z.record(z.string(), z.object({
+    file: z.string(),
+    // Concrete page path when `file` is a dynamic route, e.g. "/sectors/academic"
+    path: destination.optional(),
+    related_capabilities: z.array(destination),
+    cta: ctaSchema,
+  })),
+  header: z.object({
+    file: z.string(),
+    main_nav: z.array(z.object({ path: destination, label: z.string() })),
+    cta: z.object({ path: destination, label: z.string(), variant: z.string().optional() }),
+  }),
+  footer: z.object({
+    file: z.string(),
+    sections: z.record(z.string(), z.array(destination)),
+  }),
+  page_ctas: z.record(z.string(), z.object({
+    primary: z.union([ctaSchema, formActionSchema]),
+    secondary: ctaSchema.optional(),
+    capabilities_grid: z.array(ctaSchema).optional(),
+    sectors_grid: z.array(ctaSchema).optional(),
+  })),
+  journey_stages: z.record(z.string(), z.array(z.string())),
+  validation_rules: z.array(z.object({
+    rule: z.string(),
+    description: z.string(),
+    severity: z.enum(['error', 'warning', 'info']),
+  })),
+});
+
+export type CtaRegistry = z.infer<typeof ctaRegistrySchema>;
+export type Cta = z.infer<typeof ctaSchema>;
+
+/** A CTA a page is expected to render, with where it was declared. */
+export interface ExpectedCta {
+  destination: string;
+  topic?: string;
+  source: string;
+}
+
+export function parseCtaRegistry(source: string): CtaRegistry {
+  const result = ctaRegistrySchema.safeParse(parse(source));
+  if (!result.success) {
+    throw new Error(`Invalid CTA registry:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+export const CTA_REGISTRY_FILE = path.join(process.cwd(), 'cta-registry.yaml');
+
+export function loadCtaRegistry(file = CTA_REGISTRY_FILE): CtaRegistry {
+  return parseCtaRegistry(readFileSync(file, 'utf8'));
+}
+
+let registry: CtaRegistry | undefined;
+
+export function getCtaRegistry(): CtaRegistry {
+  if (!registry) {
+    registry = loadCtaRegistry();
+  }
+  return registry;
+}
+
+/**
+ * Route path of a page file reference relative to src/,
+ * e.g. "app/[locale]/sectors/page.tsx" -> "/sectors".
+ */
+export function routeFromFile(file: string): string {
+  return file.replace(/^app\/\[locale\]/, '').replace(/\/?page\.tsx$/, '') || '/';
+}
+
+// Link target of a CTA, with its contact form topic as a query param
+export function ctaHref({ destination, topic }: Pick<Cta, 'destination' | 'topic'>): string {
+  if (!topic) {
+    return destination;
+  }
+  return `${destination}${destination.includes('?') ? '&' : '?'}topic=${topic}`;
+}
+
+function expected(cta: Cta, source: string): ExpectedCta {
+  return { destination: cta.destination, topic: cta.topic, source };
+}
+
+/**
+ * CTAs each page must render, keyed by route path: the page CTA matrix plus
+ * the capability and sector mappings (attributed to their `path`, or else
+ * to the page in their `file`).
+ */
+export function getExpectedCtas(registry = getCtaRegistry()): Map<string, ExpectedCta[]> {
+  const byPage = new Map<string, ExpectedCta[]>();
+  const add = (page: string, ctas: ExpectedCta[]) => byPage.set(page, [...(byPage.get(page) ?? []), ...ctas]);
+
+  for (const [page, ctas] of Object.entries(registry.page_ctas)) {
+    add(page, [
+      ...('destination' in ctas.primary ? [expected(ctas.primary, `page_ctas.${page}.primary`)] : []),
+      ...(ctas.secondary ? [expected(ctas.secondary, `page_ctas.${page}.secondary`)] : []),
+      ...(ctas.capabilities_grid ?? []).map((cta) => expected(cta, `page_ctas.${page}.capabilities_grid`)),
+      ...(ctas.sectors_grid ?? []).map((cta) => expected(cta, `page_ctas.${page}.sectors_grid`)),
+    ]);
+  }
+
+  for (const [capability, mapping] of Object.entries(registry.capability_to_sector)) {
+    const source = `capability_to_sector.${capability}`;
+    add(mapping.path ?? routeFromFile(mapping.file), [
+      expected(mapping.primary_cta, `${source}.primary_cta`),
+      ...mapping.secondary_ctas.map((cta) => expected(cta, `${source}.secondary_ctas`)),
+    ]);
+  }
+
+  for (const [sector, mapping] of Object.entries(registry.sector_to_capability)) {
+    const source = `sector_to_capability.${sector}`;
+    add(mapping.path ?? routeFromFile(mapping.file), [
+      ...mapping.related_capabilities.map((capability) => ({ destination: capability, source: `${source}.related_capabilities` })),
+      expected(mapping.cta, `${source}.cta`),
+    ]);
+  }
+
+  return byPage;
+}
+
+// Every destination referenced anywhere in the registry, with its source
+export function getAllDestinations(registry = getCtaRegistry()): ExpectedCta[] {
+  return [
+    ...[...getExpectedCtas(registry).values()].flat(),
+    ...registry.header.main_nav.map((item) => ({ destination: item.path, source: 'header.main_nav' })),
+    { destination: registry.header.cta.path, source: 'header.cta' },
+    ...Object.entries(registry.footer.sections).flatMap(([section, paths]) =>
+      paths.map((destination) => ({ destination, source: `footer.sections.${section}` }))),
+  ];
+}
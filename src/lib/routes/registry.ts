@@ -0,0 +1,143 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { locales } from '@/lib/i18n/config';
+
+export const routeStatuses = ['published', 'draft', 'coming_soon', 'placeholder'] as const;
+export type RouteStatus = (typeof routeStatuses)[number];
+
+// Where a route is linked from: main header menu, header call-to-action
+// button, footer quick links and footer legal column
+export const navAreas = ['header', 'header_cta', 'footer', 'footer_legal'] as const;
+export type NavArea = (typeof navAreas)[number];
+
+export const changeFrequencies = ['always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never'] as const;
+
+// Statuses kept out of the sitemap and marked noindex (as are `index: false` routes)
+const unindexedStatuses: readonly RouteStatus[] = ['draft', 'placeholder'];
+
+const routePath = z.string().regex(/^\/([a-z0-9-]+|\[[a-z]+\])?(\/([a-z0-9-]+|\[[a-z]+\]))*$/, 'Invalid route path');
+
+const seoSchema = z.object({
+  focus_keyword: z.string(),
+  secondary: z.array(z.string()).optional(),
+  intent: z.enum(['informational', 'commercial', 'transactional', 'navigational']).optional(),
+  cluster_role: z.enum(['pillar', 'hub', 'spoke']).optional(),
+});
+
+const routeSchema = z.object({
+  path: routePath,
+  status: z.enum(routeStatuses),
+  nav: z.array(z.enum(navAreas)).default([]),
+  // Message key of the nav label; defaults to the last path segment ("home" for "/")
+  label: z.string().optional(),
+  // false for utility pages (search, newsletter links) that are never indexed
+  index: z.boolean().default(true),
+  priority: z.number().min(0).max(1),
+  changefreq: z.enum(changeFrequencies),
+  seo: seoSchema.optional(),
+  entry_points: z.array(routePath).optional(),
+  exit_points: z.array(routePath).optional(),
+  content_requirements: z.array(z.string()).optional(),
+  validation: z.object({ notes: z.string().optional() }).optional(),
+  get children() {
+    return z.array(routeSchema).optional();
+  },
+});
+
+export const routeRegistrySchema = z.object({
+  version: z.string(),
+  framework: z.string(),
+  locales: z.array(z.enum(locales)),
+  default_locale: z.enum(locales),
+  validation: z.object({
+    statuses: z.record(z.enum(routeStatuses), z.string()),
+    content_requirements: z.array(z.string()),
+  }),
+  clusters: z.array(z.object({
+    name: z.string(),
+    hub: routePath,
+    spokes: z.array(routePath),
+  })),
+  routes: z.array(routeSchema),
+  crosslinks: z.record(z.string(), z.record(z.string(), z.array(routePath))).optional(),
+});
+
+export type RouteRegistry = z.infer<typeof routeRegistrySchema>;
+export type RouteEntry = z.infer<typeof routeSchema>;
+
+export interface NavItem {
+  href: string;
+  label: string;
+}
+
+export type Navigation = Record<NavArea, NavItem[]>;
+
+export function parseRouteRegistry(source: string): RouteRegistry {
+  const result = routeRegistrySchema.safeParse(parse(source));
+  if (!result.success) {
+    throw new Error(`Invalid route registry:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+export const ROUTE_REGISTRY_FILE = path.join(process.cwd(), 'route-registry.yaml');
+
+export function loadRouteRegistry(file = ROUTE_REGISTRY_FILE): RouteRegistry {
+  return parseRouteRegistry(readFileSync(file, 'utf8'));
+}
+
+let registry: RouteRegistry | undefined;
+
+export function getRouteRegistry(): RouteRegistry {
+  if (!registry) {
+    registry = loadRouteRegistry();
+  }
+  return registry;
+}
+
+// Depth-first: each parent is followed by its children, in file order
+export function flattenRoutes(routes: RouteEntry[]): RouteEntry[] {
+  return routes.flatMap((route) => [route, ...flattenRoutes(route.children ?? [])]);
+}
+
+export function isDynamicRoute(routePath: string): boolean {
+  return routePath.includes('[');
+}
+
+export function isIndexable(route: Pick<RouteEntry, 'status' | 'index'>): boolean {
+  return route.index && !unindexedStatuses.includes(route.status);
+}
+
+/**
+ * Registry entry serving a concrete path, e.g. "/news/some-article"
+ * resolves to "/news/[slug]". Static entries win over dynamic ones.
+ */
+export function findRoute(concretePath: string, routes = flattenRoutes(getRouteRegistry().routes)): RouteEntry | undefined {
+  const segments = concretePath.split('/').filter(Boolean);
+  const matches = (route: RouteEntry) => {
+    const pattern = route.path.split('/').filter(Boolean);
+    return pattern.length === segments.length
+      && pattern.every((segment, index) => segment.startsWith('[') || segment === segments[index]);
+  };
+  return routes.find((route) => route.path === (concretePath || '/')) ?? routes.find(matches);
+}
+
+function navLabel(route: RouteEntry): string {
+  return route.label ?? route.path.split('/').filter(Boolean).pop() ?? 'home';
+}
+
+/**
+ * Header and footer links, in registry order, from each route's `nav` field.
+ * Labels are message keys resolved by the rendering component.
+ */
+export function getNavigation(routes = getRouteRegistry().routes): Navigation {
+  const navigation: Navigation = { header: [], header_cta: [], footer: [], footer_legal: [] };
+  for (const route of flattenRoutes(routes)) {
+    for (const area of route.nav) {
+      navigation[area].push({ href: route.path, label: navLabel(route) });
+    }
+  }
+  return navigation;
+}
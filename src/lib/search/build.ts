@@ -0,0 +1,13 @@
+import { getArticles } from '@/lib/content';
+import type { Locale } from '@/lib/i18n/config';
+import { buildArticleDocuments, buildPageDocuments, type SearchDocument } from './documents';
+
+/**
+ * Search index for one locale: page copy from the message files plus
+ * news articles. Served as static JSON from /[locale]/search/index.json.
+ */
+export async function buildSearchIndex(locale: Locale): Promise<SearchDocument[]> {
+  const messages = (await import(`@/messages/${locale}.json`)).default;
+  const articles = await getArticles(locale);
+  return [...buildPageDocuments(messages), ...buildArticleDocuments(articles)];
+}
@@ -0,0 +1,111 @@
+import { capabilities, getCapabilityPath } from '@/lib/capabilities/definitions';
+import type { Article, ArticleBody } from '@/lib/content/types';
+
+export type SearchDocumentType = 'page' | 'article';
+
+export interface SearchDocument {
+  id: string;
+  type: SearchDocumentType;
+  // Locale-relative path, e.g. /capabilities/defense
+  path: string;
+  title: string;
+  description: string;
+  // Remaining page copy, flattened to plain text
+  text: string;
+}
+
+type Messages = Record<string, unknown>;
+
+/**
+ * Indexed pages and the `pages.<key>` message namespace holding their copy.
+ * Form labels and page metadata titles are left out of the body text.
+ */
+export const searchablePages: { key: string; path: string }[] = [
+  { key: 'about', path: '/about' },
+  { key: 'team', path: '/about/team' },
+  { key: 'partners', path: '/about/partners' },
+  { key: 'capabilities', path: '/capabilities' },
+  ...capabilities.map(({ slug, messageKey }) => ({ key: messageKey, path: getCapabilityPath(slug) })),
+  { key: 'sectors', path: '/sectors' },
+  { key: 'contact', path: '/contact' },
+  { key: 'privacy', path: '/legal/privacy' },
+  { key: 'terms', path: '/legal/terms' },
+  { key: 'cookies', path: '/legal/cookies' },
+];
+
+const skippedKeys = new Set(['meta', 'form', 'cta']);
+
+// ICU placeholders and rich-text tags are markup, not searchable copy
+function cleanMessage(value: string): string {
+  return value.replace(/<\/?\w+>/g, '').replace(/\{[^}]*\}/g, '').trim();
+}
+
+function collectStrings(value: unknown, into: string[] = []): string[] {
+  if (typeof value === 'string') {
+    const text = cleanMessage(value);
+    if (text) {
+      into.push(text);
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (!skippedKeys.has(key)) {
+        collectStrings(child, into);
+      }
+    }
+  }
+  return into;
+}
+
+function stripMarkdown(source: string): string {
+  return source
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function richTextToPlain(node: { nodeType: string; value?: string; content?: unknown[] }): string {
+  if (node.nodeType === 'text') {
+    return node.value ?? '';
+  }
+  return ((node.content ?? []) as Parameters<typeof richTextToPlain>[0][]).map(richTextToPlain).join(' ');
+}
+
+function bodyText(body: ArticleBody): string {
+  return body.format === 'markdown' ? stripMarkdown(body.source) : richTextToPlain(body.document);
+}
+
+export function buildPageDocuments(messages: Messages): SearchDocument[] {
+  const pages = (messages.pages ?? {}) as Record<string, Messages>;
+
+  return searchablePages
+    .filter(({ key }) => pages[key])
+    .map(({ key, path }) => {
+      const page = pages[key];
+      const meta = (page.meta ?? {}) as { description?: string };
+      const title = typeof page.title === 'string' ? page.title : key;
+      const body = Object.fromEntries(Object.entries(page).filter(([field]) => field !== 'title'));
+
+      return {
+        id: `page:${key}`,
+        type: 'page',
+        path,
+        title,
+        description: meta.description ?? '',
+        text: collectStrings(body).join(' '),
+      };
+    });
+}
+
+export function buildArticleDocuments(articles: Article[]): SearchDocument[] {
+  return articles.map((article) => ({
+    id: `article:${article.slug}`,
+    type: 'article',
+    path: `/news/${article.slug}`,
+    title: article.title,
+    description: article.excerpt,
+    text: bodyText(article.body),
+  }));
+}
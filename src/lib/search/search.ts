@@ -0,0 +1,126 @@
+import type { Locale } from '@/lib/i18n/config';
+import type { SearchDocument } from './documents';
+import { foldText, tokenize } from './text';
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: HighlightPart[];
+}
+
+// Field weights: a title hit outranks any number of body mentions
+const weights = { title: 10, description: 4, text: 1 };
+const MAX_TEXT_HITS = 5;
+const SNIPPET_LENGTH = 160;
+
+function countHits(terms: string[], term: string): number {
+  return terms.filter((candidate) => candidate.startsWith(term)).length;
+}
+
+// Ranges of word-initial matches of any term in the folded text, mapped back to the original
+function findMatches(value: string, terms: string[], locale: Locale): [number, number][] {
+  const { text, offsets } = foldText(value, locale);
+  const ranges: [number, number][] = [];
+
+  for (const term of terms) {
+    let index = text.indexOf(term);
+    while (index !== -1) {
+      const atWordStart = index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+      if (atWordStart) {
+        ranges.push([offsets[index], offsets[index + term.length - 1] + 1]);
+      }
+      index = text.indexOf(term, index + term.length);
+    }
+  }
+
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Split `value` into plain and highlighted parts. Long text is cut to a
+ * window around the first match.
+ */
+export function highlight(value: string, terms: string[], locale: Locale, maxLength = SNIPPET_LENGTH): HighlightPart[] {
+  const ranges = findMatches(value, terms, locale);
+  let start = 0;
+  let end = value.length;
+  if (value.length > maxLength) {
+    start = Math.max(0, (ranges[0]?.[0] ?? 0) - Math.floor(maxLength / 4));
+    end = Math.min(value.length, start + maxLength);
+  }
+
+  const parts: HighlightPart[] = [];
+  let cursor = start;
+  for (const [from, to] of ranges) {
+    if (from < cursor || to > end) {
+      continue;
+    }
+    if (from > cursor) {
+      parts.push({ text: value.slice(cursor, from), match: false });
+    }
+    parts.push({ text: value.slice(from, to), match: true });
+    cursor = to;
+  }
+  if (cursor < end) {
+    parts.push({ text: value.slice(cursor, end), match: false });
+  }
+
+  if (start > 0) {
+    parts.unshift({ text: '…', match: false });
+  }
+  if (end < value.length) {
+    parts.push({ text: '…', match: false });
+  }
+  return parts;
+}
+
+/**
+ * Rank documents for a query. Every query term must appear in the document
+ * (as a word prefix, so "cyber" finds "cybersecurity"); title hits weigh
+ * most. The snippet comes from the description, or the body when only the
+ * body matches.
+ */
+export function search(documents: SearchDocument[], query: string, locale: Locale, limit = 20): SearchResult[] {
+  const terms = [...new Set(tokenize(query, locale))];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results: SearchResult[] = [];
+  for (const document of documents) {
+    const fields = {
+      title: tokenize(document.title, locale),
+      description: tokenize(document.description, locale),
+      text: tokenize(document.text, locale),
+    };
+
+    let score = 0;
+    let matchesAll = true;
+    for (const term of terms) {
+      const title = countHits(fields.title, term);
+      const description = countHits(fields.description, term);
+      const text = Math.min(countHits(fields.text, term), MAX_TEXT_HITS);
+      if (title + description + text === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += title * weights.title + description * weights.description + text * weights.text;
+    }
+    if (!matchesAll) {
+      continue;
+    }
+
+    const descriptionMatches = terms.some((term) => countHits(fields.description, term) > 0);
+    const snippetSource = descriptionMatches || !document.text ? document.description : document.text;
+    results.push({ document, score, snippet: highlight(snippetSource, terms, locale) });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title))
+    .slice(0, limit);
+}
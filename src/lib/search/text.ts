@@ -0,0 +1,53 @@
+import type { Locale } from '@/lib/i18n/config';
+
+// Locales where accents are often left out when typing ("defense" for "défense")
+const accentFoldingLocales: readonly Locale[] = ['ca', 'es', 'fr', 'it'];
+
+export interface FoldedText {
+  text: string;
+  // Index in the original string of each folded character
+  offsets: number[];
+}
+
+function foldChar(char: string, foldAccents: boolean): string {
+  const lower = char.toLowerCase();
+  if (!foldAccents) {
+    return lower;
+  }
+  // Catalan "l·l" (col·laboració) is searched as "ll"
+  if (lower === '·') {
+    return '';
+  }
+  return lower.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * Lower-case a string for matching, stripping accents where the locale
+ * calls for it. Keeps an offset map so matches can be highlighted in the
+ * original text.
+ */
+export function foldText(value: string, locale: Locale): FoldedText {
+  const foldAccents = accentFoldingLocales.includes(locale);
+  let text = '';
+  const offsets: number[] = [];
+
+  for (let index = 0; index < value.length; index += 1) {
+    const folded = foldChar(value[index], foldAccents);
+    for (const char of folded) {
+      text += char;
+      offsets.push(index);
+    }
+  }
+
+  return { text, offsets };
+}
+
+/**
+ * Split text into folded search terms. Elisions (l'autonomia, d'innovació)
+ * split on the apostrophe, and one-letter fragments are dropped.
+ */
+export function tokenize(value: string, locale: Locale): string[] {
+  return foldText(value, locale).text
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 || /\d/.test(token));
+}
@@ -0,0 +1,44 @@
+import { ctaHref, getCtaRegistry, type CtaRegistry } from '@/lib/routes/cta-registry';
+
+/**
+ * Sectors with a spoke page under /sectors. Each one needs an entry in
+ * cta-registry.yaml's `sector_to_capability` map (checked by validate:registry).
+ */
+export const sectors = ['institutional', 'industrial', 'academic'] as const;
+
+export type Sector = (typeof sectors)[number];
+
+export function isSector(value: unknown): value is Sector {
+  return typeof value === 'string' && (sectors as readonly string[]).includes(value);
+}
+
+export function getSectorPath(sector: Sector): string {
+  return `/sectors/${sector}`;
+}
+
+export interface SectorLinks {
+  // Capability page paths, e.g. "/capabilities/defense"
+  relatedCapabilities: string[];
+  // Contact form link with the sector's inquiry topic preselected
+  ctaHref: string;
+}
+
+/**
+ * Related capabilities and contact CTA of a sector spoke page,
+ * as declared in cta-registry.yaml `sector_to_capability`.
+ */
+export function getSectorLinks(sector: Sector, registry: CtaRegistry = getCtaRegistry()): SectorLinks {
+  const mapping = registry.sector_to_capability[sector];
+  if (!mapping) {
+    throw new Error(`cta-registry.yaml has no sector_to_capability entry for "${sector}"`);
+  }
+  return {
+    relatedCapabilities: mapping.related_capabilities,
+    ctaHref: ctaHref(mapping.cta),
+  };
+}
+
+// Sectors whose spoke page links to a capability page
+export function getCapabilitySectors(capabilityPath: string, registry: CtaRegistry = getCtaRegistry()): Sector[] {
+  return sectors.filter((sector) => registry.sector_to_capability[sector]?.related_capabilities.includes(capabilityPath));
+}
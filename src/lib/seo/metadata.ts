@@ -1,14 +1,27 @@
 import type { Metadata } from 'next';
-import { locales, type Locale } from '@/lib/i18n/config';
+import { locales, xDefaultLocale, type Locale } from '@/lib/i18n/config';
+import { getLocalizedHref } from '@/lib/i18n/pathnames';
+import { findRoute, isIndexable } from '@/lib/routes/registry';
 
-const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://dualys.eu';
+export const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://dualys.eu';
+
+/**
+ * Absolute URL of an internal path in a locale, using the locale's
+ * translated slugs ("/capabilities" -> "https://dualys.eu/ca/capacitats").
+ */
+export function getLocalizedUrl(locale: Locale, path: string): string {
+  return `${baseUrl}${getLocalizedHref(path || '/', locale)}`;
+}
 
 interface GenerateMetadataProps {
   title: string;
   description: string;
   locale: Locale;
   path?: string;
+  // Overrides the page's generated opengraph-image route
   image?: string;
+  // Extra <link rel="alternate"> entries by MIME type, e.g. news feeds
+  alternateTypes?: Record<string, string>;
 }
 
 export function generatePageMetadata({
@@ -16,16 +29,21 @@ export function generatePageMetadata({
   description,
   locale,
   path = '',
-  image = '/og-image.png',
+  image,
+  alternateTypes,
 }: GenerateMetadataProps): Metadata {
-  const url = `${baseUrl}/${locale}${path}`;
+  const url = getLocalizedUrl(locale, path);
 
   // Generate alternates for all languages
   const languages: Record<string, string> = {};
   for (const loc of locales) {
-    languages[loc] = `${baseUrl}/${loc}${path}`;
+    languages[loc] = getLocalizedUrl(loc, path);
   }
-  languages['x-default'] = `${baseUrl}/en${path}`;
+  languages['x-default'] = getLocalizedUrl(xDefaultLocale, path);
+
+  // Draft and placeholder routes in route-registry.yaml stay out of search results
+  const route = findRoute(path);
+  const index = !route || isIndexable(route);
 
   return {
     title,
@@ -43,6 +61,7 @@ export function generatePageMetadata({
     alternates: {
       canonical: url,
       languages,
+      ...(alternateTypes ? { types: alternateTypes } : {}),
     },
     openGraph: {
       title,
@@ -51,26 +70,21 @@ export function generatePageMetadata({
       siteName: 'Dualys',
       locale,
       type: 'website',
-      images: [
-        {
-          url: image,
-          width: 1200,
-          height: 630,
-          alt: title,
-        },
-      ],
+      // Without explicit images Next.js uses the segment's opengraph-image,
+      // and the twitter card inherits it
+      ...(image ? { images: [{ url: image, width: 1200, height: 630, alt: title }] } : {}),
     },
     twitter: {
       card: 'summary_large_image',
       title,
       description,
-      images: [image],
+      ...(image ? { images: [image] } : {}),
     },
     robots: {
-      index: true,
+      index,
       follow: true,
       googleBot: {
-        index: true,
+        index,
         follow: true,
         'max-video-preview': -1,
         'max-image-preview': 'large',
@@ -79,106 +93,3 @@ export function generatePageMetadata({
     },
   };
 }
-
-// Organization schema for JSON-LD
-export function getOrganizationSchema() {
-  return {
-    '@context': 'https://schema.org',
-    '@type': 'Organization',
-    name: 'Dualys',
-    alternateName: 'Dualys AIE',
-    url: baseUrl,
-    logo: `${baseUrl}/logo.png`,
-    description: 'Protecting democracy with dual deterrence technologies. Enabling capabilities in defense, cybersecurity, and biosecurity for European strategic autonomy.',
-    address: {
-      '@type': 'PostalAddress',
-      addressLocality: 'Barcelona',
-      addressRegion: 'Catalonia',
-      addressCountry: 'ES',
-    },
-    sameAs: [
-      'https://www.linkedin.com/company/dualys-strategy/',
-      'https://twitter.com/dualys',
-    ],
-    areaServed: {
-      '@type': 'GeoCircle',
-      geoMidpoint: {
-        '@type': 'GeoCoordinates',
-        latitude: 48.8566,
-        longitude: 2.3522,
-      },
-      geoRadius: '2000 km',
-      name: 'Europe',
-    },
-    knowsAbout: [
-      'Dual-use technologies',
-      'Defense technologies',
-      'Cybersecurity',
-      'Biosecurity',
-      'European strategic autonomy',
-      'Unmanned systems',
-    ],
-  };
-}
-
-// WebSite schema for JSON-LD
-export function getWebSiteSchema(locale: Locale) {
-  return {
-    '@context': 'https://schema.org',
-    '@type': 'WebSite',
-    name: 'Dualys',
-    url: `${baseUrl}/${locale}`,
-    inLanguage: locale,
-    potentialAction: {
-      '@type': 'SearchAction',
-      target: {
-        '@type': 'EntryPoint',
-        urlTemplate: `${baseUrl}/${locale}/search?q={search_term_string}`,
-      },
-      'query-input': 'required name=search_term_string',
-    },
-  };
-}
-
-// WebPage schema for JSON-LD
-interface WebPageSchemaProps {
-  title: string;
-  description: string;
-  locale: Locale;
-  path: string;
-}
-
-export function getWebPageSchema({ title, description, locale, path }: WebPageSchemaProps) {
-  return {
-    '@context': 'https://schema.org',
-    '@type': 'WebPage',
-    name: title,
-    description,
-    url: `${baseUrl}/${locale}${path}`,
-    inLanguage: locale,
-    isPartOf: {
-      '@type': 'WebSite',
-      name: 'Dualys',
-      url: `${baseUrl}/${locale}`,
-    },
-  };
-}
-
-// BreadcrumbList schema for JSON-LD
-interface BreadcrumbItem {
-  name: string;
-  url: string;
-}
-
-export function getBreadcrumbSchema(items: BreadcrumbItem[], locale: Locale) {
-  return {
-    '@context': 'https://schema.org',
-    '@type': 'BreadcrumbList',
-    itemListElement: items.map((item, index) => ({
-      '@type': 'ListItem',
-      position: index + 1,
-      name: item.name,
-      item: `${baseUrl}/${locale}${item.url}`,
-    })),
-  };
-}
@@ -0,0 +1,93 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ImageResponse } from 'next/og';
+import { OgImage } from '@/components/seo/OgImage';
+import type { Locale } from '@/lib/i18n/config';
+import { baseUrl } from './metadata';
+
+export const ogImageSize = { width: 1200, height: 630 };
+export const ogImageContentType = 'image/png';
+export const ogImageAlt = 'Dualys';
+
+type FontWeight = 400 | 600 | 700;
+
+// Brand fonts from @fontsource, read from disk so images render offline.
+// Satori reads woff but not woff2; latin-ext covers the Catalan, German etc. glyphs.
+// Keep in sync with outputFileTracingIncludes in next.config.ts.
+const fontFiles: { name: 'Inter' | 'Outfit'; weight: FontWeight; file: string }[] = [
+  { name: 'Inter', weight: 400, file: 'inter/files/inter-latin-400-normal.woff' },
+  { name: 'Inter', weight: 400, file: 'inter/files/inter-latin-ext-400-normal.woff' },
+  { name: 'Outfit', weight: 600, file: 'outfit/files/outfit-latin-600-normal.woff' },
+  { name: 'Outfit', weight: 600, file: 'outfit/files/outfit-latin-ext-600-normal.woff' },
+  { name: 'Outfit', weight: 700, file: 'outfit/files/outfit-latin-700-normal.woff' },
+  { name: 'Outfit', weight: 700, file: 'outfit/files/outfit-latin-ext-700-normal.woff' },
+];
+
+let fonts: Promise<{ name: string; data: Buffer; weight: FontWeight; style: 'normal' }[]> | undefined;
+
+function loadFonts() {
+  fonts ??= Promise.all(fontFiles.map(async ({ name, weight, file }) => ({
+    name,
+    weight,
+    style: 'normal' as const,
+    data: await readFile(path.join(process.cwd(), 'node_modules', '@fontsource', file)),
+  })));
+  return fonts;
+}
+
+const imageTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+};
+
+/**
+ * Background for a card. Remote images are passed through for Satori to
+ * fetch; site images are inlined from public/. Missing files and formats
+ * Satori cannot draw (e.g. webp) give no background.
+ */
+export async function loadOgBackground(image?: string): Promise<string | undefined> {
+  if (!image) {
+    return undefined;
+  }
+  if (/^https?:\/\//.test(image)) {
+    return image;
+  }
+  const type = imageTypes[path.extname(image).toLowerCase()];
+  if (!type) {
+    return undefined;
+  }
+  try {
+    const data = await readFile(path.join(process.cwd(), 'public', image));
+    return `data:${type};base64,${data.toString('base64')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+interface RenderOgImageProps {
+  title: string;
+  section?: string;
+  locale: Locale;
+  // Site path or absolute URL, e.g. an article's featured image
+  image?: string;
+}
+
+/**
+ * Branded 1200x630 card for a page's opengraph-image route.
+ */
+export async function renderOgImage({ title, section, locale, image }: RenderOgImageProps): Promise<ImageResponse> {
+  const [fontData, background] = await Promise.all([loadFonts(), loadOgBackground(image)]);
+
+  return new ImageResponse(
+    <OgImage
+      title={title}
+      section={section}
+      locale={locale}
+      background={background}
+      host={new URL(baseUrl).host}
+    />,
+    { ...ogImageSize, fonts: fontData }
+  );
+}
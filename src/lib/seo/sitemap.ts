@@ -0,0 +1,82 @@
+import type { MetadataRoute } from 'next';
+import { locales, xDefaultLocale, type Locale } from '@/lib/i18n/config';
+import { flattenRoutes, isDynamicRoute, isIndexable, type RouteEntry } from '@/lib/routes/registry';
+import { getLocalizedUrl } from './metadata';
+
+export interface SitemapPath {
+  path: string;
+  lastModified?: Date;
+}
+
+/**
+ * Concrete paths for a dynamic registry route (e.g. "/news/[slug]") in one
+ * locale. Dynamic routes without a resolver are left out of the sitemap.
+ */
+export type DynamicRouteResolver = (locale: Locale) => Promise<SitemapPath[]>;
+
+interface BuildSitemapOptions {
+  resolvers?: Record<string, DynamicRouteResolver>;
+  now?: Date;
+}
+
+async function routePaths(route: RouteEntry, resolvers: Record<string, DynamicRouteResolver>) {
+  const perLocale = new Map<Locale, SitemapPath[]>();
+  if (!isDynamicRoute(route.path)) {
+    locales.forEach((locale) => perLocale.set(locale, [{ path: route.path }]));
+    return perLocale;
+  }
+  const resolve = resolvers[route.path];
+  if (resolve) {
+    for (const locale of locales) {
+      perLocale.set(locale, await resolve(locale));
+    }
+  }
+  return perLocale;
+}
+
+/**
+ * Sitemap entries for every indexable registry route (draft and placeholder
+ * routes are skipped), one per locale, with hreflang alternates limited to
+ * the locales where the same path exists.
+ */
+export async function buildSitemap(
+  routes: RouteEntry[],
+  { resolvers = {}, now = new Date() }: BuildSitemapOptions = {}
+): Promise<MetadataRoute.Sitemap> {
+  const entries: MetadataRoute.Sitemap = [];
+
+  for (const route of flattenRoutes(routes).filter(isIndexable)) {
+    const perLocale = await routePaths(route, resolvers);
+
+    // path -> locales serving it
+    const available = new Map<string, Map<Locale, SitemapPath>>();
+    for (const [locale, paths] of perLocale) {
+      for (const item of paths) {
+        const byLocale = available.get(item.path) ?? new Map<Locale, SitemapPath>();
+        byLocale.set(locale, item);
+        available.set(item.path, byLocale);
+      }
+    }
+
+    for (const [path, byLocale] of available) {
+      const languages: Record<string, string> = {};
+      for (const locale of byLocale.keys()) {
+        languages[locale] = getLocalizedUrl(locale, path);
+      }
+      const fallback = byLocale.has(xDefaultLocale) ? xDefaultLocale : [...byLocale.keys()][0];
+      languages['x-default'] = getLocalizedUrl(fallback, path);
+
+      for (const [locale, item] of byLocale) {
+        entries.push({
+          url: getLocalizedUrl(locale, path),
+          lastModified: item.lastModified ?? now,
+          changeFrequency: route.changefreq,
+          priority: route.priority,
+          alternates: { languages },
+        });
+      }
+    }
+  }
+
+  return entries;
+}
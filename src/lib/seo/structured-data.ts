@@ -0,0 +1,523 @@
+import type { Locale } from '@/lib/i18n/config';
+import { baseUrl, getLocalizedUrl } from './metadata';
+
+/**
+ * Typed schema.org builders for JSON-LD. Each builder returns a node with a
+ * stable `@id`; nodes point at each other through `{ '@id' }` references and
+ * a page emits all of its nodes as one `@graph` (see getJsonLdGraph).
+ */
+
+export interface Reference {
+  '@id': string;
+}
+
+export interface GeoCircle {
+  '@type': 'GeoCircle';
+  geoMidpoint: { '@type': 'GeoCoordinates'; latitude: number; longitude: number };
+  geoRadius: string;
+  name: string;
+}
+
+export interface PostalAddress {
+  '@type': 'PostalAddress';
+  addressLocality: string;
+  addressRegion: string;
+  addressCountry: string;
+}
+
+export interface ListItem {
+  '@type': 'ListItem';
+  position: number;
+  name: string;
+  // Breadcrumbs link through `item`, item lists through `url`
+  item?: string;
+  url?: string;
+}
+
+export interface Organization extends Reference {
+  '@type': 'Organization';
+  name: string;
+  alternateName: string;
+  url: string;
+  logo: { '@type': 'ImageObject'; url: string };
+  description: string;
+  address: PostalAddress;
+  sameAs: string[];
+  areaServed: GeoCircle;
+  knowsAbout: string[];
+}
+
+export interface WebSite extends Reference {
+  '@type': 'WebSite';
+  name: string;
+  url: string;
+  inLanguage: Locale;
+  publisher: Reference;
+  potentialAction: {
+    '@type': 'SearchAction';
+    target: { '@type': 'EntryPoint'; urlTemplate: string };
+    'query-input': string;
+  };
+}
+
+export interface Question {
+  '@type': 'Question';
+  name: string;
+  acceptedAnswer: { '@type': 'Answer'; text: string };
+}
+
+// ContactPage and FAQPage are WebPage subtypes and take its place in the graph
+export interface WebPage extends Reference {
+  '@type': 'WebPage' | 'ContactPage' | 'FAQPage';
+  name: string;
+  description: string;
+  url: string;
+  inLanguage: Locale;
+  isPartOf: Reference;
+  breadcrumb?: Reference;
+  about?: Reference;
+  mainEntity?: Reference | Question[];
+}
+
+export interface BreadcrumbList extends Reference {
+  '@type': 'BreadcrumbList';
+  itemListElement: ListItem[];
+}
+
+export interface ItemList extends Reference {
+  '@type': 'ItemList';
+  name: string;
+  numberOfItems: number;
+  itemListElement: ListItem[];
+}
+
+export interface Person extends Reference {
+  '@type': 'Person';
+  name: string;
+  jobTitle?: string;
+  image?: string;
+  sameAs?: string[];
+  worksFor: Reference;
+}
+
+export interface NewsArticle extends Reference {
+  '@type': 'NewsArticle';
+  headline: string;
+  description: string;
+  url: string;
+  mainEntityOfPage: Reference;
+  datePublished: string;
+  dateModified: string;
+  inLanguage: Locale;
+  image: string[];
+  author: Person | Reference;
+  publisher: Reference;
+}
+
+export interface Service extends Reference {
+  '@type': 'Service';
+  name: string;
+  description: string;
+  serviceType: string;
+  url: string;
+  provider: Reference;
+  areaServed: GeoCircle;
+  audience: { '@type': 'Audience'; audienceType: string }[];
+  offers?: {
+    '@type': 'Offer';
+    url: string;
+    businessFunction: string;
+    eligibleRegion: GeoCircle;
+  };
+}
+
+export type JsonLdNode = Organization | WebSite | WebPage | BreadcrumbList | ItemList | Person | NewsArticle | Service;
+
+export interface JsonLdGraph {
+  '@context': 'https://schema.org';
+  '@graph': JsonLdNode[];
+}
+
+export interface BreadcrumbItem {
+  name: string;
+  url: string;
+}
+
+function pageUrl(locale: Locale, path: string): string {
+  return getLocalizedUrl(locale, path);
+}
+
+function absoluteUrl(url: string): string {
+  return url.startsWith('http') ? url : `${baseUrl}${url}`;
+}
+
+export function ref(node: Reference): Reference {
+  return { '@id': node['@id'] };
+}
+
+export const organizationId = `${baseUrl}/#organization`;
+
+export function getWebSiteId(locale: Locale): string {
+  return `${pageUrl(locale, '')}#website`;
+}
+
+export function getWebPageId(locale: Locale, path: string): string {
+  return `${pageUrl(locale, path)}#webpage`;
+}
+
+// Area served by the organization and its services
+const europe: GeoCircle = {
+  '@type': 'GeoCircle',
+  geoMidpoint: {
+    '@type': 'GeoCoordinates',
+    latitude: 48.8566,
+    longitude: 2.3522,
+  },
+  geoRadius: '2000 km',
+  name: 'Europe',
+};
+
+export function getOrganizationSchema(): Organization {
+  return {
+    '@type': 'Organization',
+    '@id': organizationId,
+    name: 'Dualys',
+    alternateName: 'Dualys AIE',
+    url: baseUrl,
+    logo: { '@type': 'ImageObject', url: `${baseUrl}/logo.png` },
+    description: 'Protecting democracy with dual deterrence technologies. Enabling capabilities in defense, cybersecurity, and biosecurity for European strategic autonomy.',
+    address: {
+      '@type': 'PostalAddress',
+      addressLocality: 'Barcelona',
+      addressRegion: 'Catalonia',
+      addressCountry: 'ES',
+    },
+    sameAs: [
+      'https://www.linkedin.com/company/dualys-strategy/',
+      'https://twitter.com/dualys',
+    ],
+    areaServed: europe,
+    knowsAbout: [
+      'Dual-use technologies',
+      'Defense technologies',
+      'Cybersecurity',
+      'Biosecurity',
+      'European strategic autonomy',
+      'Unmanned systems',
+    ],
+  };
+}
+
+export function getWebSiteSchema(locale: Locale): WebSite {
+  return {
+    '@type': 'WebSite',
+    '@id': getWebSiteId(locale),
+    name: 'Dualys',
+    url: pageUrl(locale, ''),
+    inLanguage: locale,
+    publisher: { '@id': organizationId },
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: `${pageUrl(locale, '/search')}?q={search_term_string}`,
+      },
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
+
+interface WebPageSchemaProps {
+  title: string;
+  description: string;
+  locale: Locale;
+  path: string;
+  breadcrumb?: BreadcrumbList;
+  // What the page is primarily about, e.g. the article it renders
+  mainEntity?: Reference;
+}
+
+export function getWebPageSchema({ title, description, locale, path, breadcrumb, mainEntity }: WebPageSchemaProps): WebPage {
+  return {
+    '@type': 'WebPage',
+    '@id': getWebPageId(locale, path),
+    name: title,
+    description,
+    url: pageUrl(locale, path),
+    inLanguage: locale,
+    isPartOf: { '@id': getWebSiteId(locale) },
+    ...(breadcrumb ? { breadcrumb: ref(breadcrumb) } : {}),
+    ...(mainEntity ? { mainEntity: ref(mainEntity) } : {}),
+  };
+}
+
+// Contact page about the organization it reaches
+export function getContactPageSchema(props: WebPageSchemaProps): WebPage {
+  return {
+    ...getWebPageSchema(props),
+    '@type': 'ContactPage',
+    about: { '@id': organizationId },
+  };
+}
+
+interface FaqPageSchemaProps extends Omit<WebPageSchemaProps, 'mainEntity'> {
+  questions: { question: string; answer: string }[];
+}
+
+export function getFaqPageSchema({ questions, ...props }: FaqPageSchemaProps): WebPage {
+  return {
+    ...getWebPageSchema(props),
+    '@type': 'FAQPage',
+    mainEntity: questions.map(({ question, answer }) => ({
+      '@type': 'Question',
+      name: question,
+      acceptedAnswer: { '@type': 'Answer', text: answer },
+    })),
+  };
+}
+
+// The last item is the current page; its URL keys the list's @id
+export function getBreadcrumbSchema(items: BreadcrumbItem[], locale: Locale): BreadcrumbList {
+  return {
+    '@type': 'BreadcrumbList',
+    '@id': `${pageUrl(locale, items.at(-1)?.url ?? '')}#breadcrumb`,
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      item: pageUrl(locale, item.url),
+    })),
+  };
+}
+
+// ItemList of the spokes a hub page links to
+interface ItemListSchemaProps {
+  name: string;
+  items: BreadcrumbItem[];
+  locale: Locale;
+  path: string;
+}
+
+export function getItemListSchema({ name, items, locale, path }: ItemListSchemaProps): ItemList {
+  return {
+    '@type': 'ItemList',
+    '@id': `${pageUrl(locale, path)}#itemlist`,
+    name,
+    numberOfItems: items.length,
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      url: pageUrl(locale, item.url),
+    })),
+  };
+}
+
+interface PersonSchemaProps {
+  name: string;
+  // Stable key for the @id, e.g. the team member id; defaults to the name
+  key?: string;
+  jobTitle?: string;
+  image?: string;
+  sameAs?: string[];
+}
+
+export function getPersonSchema({ name, key = name, jobTitle, image, sameAs }: PersonSchemaProps): Person {
+  const slug = key.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-');
+
+  return {
+    '@type': 'Person',
+    '@id': `${baseUrl}/#person-${slug}`,
+    name,
+    ...(jobTitle ? { jobTitle } : {}),
+    ...(image ? { image: absoluteUrl(image) } : {}),
+    ...(sameAs?.length ? { sameAs } : {}),
+    worksFor: { '@id': organizationId },
+  };
+}
+
+interface NewsArticleSchemaProps {
+  headline: string;
+  description: string;
+  locale: Locale;
+  path: string;
+  datePublished: string;
+  dateModified?: string;
+  author?: string;
+  image?: string;
+}
+
+export function getNewsArticleSchema({
+  headline,
+  description,
+  locale,
+  path,
+  datePublished,
+  dateModified,
+  author,
+  image = '/og-image.png',
+}: NewsArticleSchemaProps): NewsArticle {
+  return {
+    '@type': 'NewsArticle',
+    '@id': `${pageUrl(locale, path)}#article`,
+    headline,
+    description,
+    url: pageUrl(locale, path),
+    mainEntityOfPage: { '@id': getWebPageId(locale, path) },
+    datePublished,
+    dateModified: dateModified ?? datePublished,
+    inLanguage: locale,
+    image: [absoluteUrl(image)],
+    // Unsigned articles are attributed to the organization itself
+    author: author ? getPersonSchema({ name: author }) : { '@id': organizationId },
+    publisher: { '@id': organizationId },
+  };
+}
+
+// Service offered on a capability page
+interface ServiceSchemaProps {
+  name: string;
+  description: string;
+  serviceType: string;
+  locale: Locale;
+  path: string;
+  // Who the service is for, e.g. the sectors a capability serves
+  audiences?: string[];
+  // Page where the service is requested, e.g. the contact form with its topic
+  offerPath?: string;
+}
+
+export function getServiceSchema({
+  name,
+  description,
+  serviceType,
+  locale,
+  path,
+  audiences = [],
+  offerPath,
+}: ServiceSchemaProps): Service {
+  return {
+    '@type': 'Service',
+    '@id': `${pageUrl(locale, path)}#service`,
+    name,
+    description,
+    serviceType,
+    url: pageUrl(locale, path),
+    provider: { '@id': organizationId },
+    areaServed: europe,
+    audience: audiences.map((audienceType) => ({ '@type': 'Audience', audienceType })),
+    // Services are quoted per engagement, so the offer carries no price
+    ...(offerPath
+      ? {
+        offers: {
+          '@type': 'Offer',
+          url: pageUrl(locale, offerPath),
+          businessFunction: 'http://purl.org/goodrelations/v1#ProvideService',
+          eligibleRegion: europe,
+        },
+      }
+      : {}),
+  };
+}
+
+/**
+ * One connected graph for a page. The organization and the localized website
+ * are always included so every page's references resolve; nodes repeated by
+ * @id are emitted once.
+ */
+export function getJsonLdGraph(locale: Locale, ...nodes: JsonLdNode[]): JsonLdGraph {
+  const graph = new Map<string, JsonLdNode>();
+  for (const node of [getOrganizationSchema(), getWebSiteSchema(locale), ...nodes]) {
+    if (!graph.has(node['@id'])) {
+      graph.set(node['@id'], node);
+    }
+  }
+  return { '@context': 'https://schema.org', '@graph': [...graph.values()] };
+}
+
+/**
+ * JSON for an inline <script>. "<" is escaped so text such as "</script>"
+ * or "<!--" in content cannot end the script element early.
+ */
+export function serializeJsonLd(data: JsonLdGraph): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+// Properties each schema.org type must carry, after Google's structured data guidelines
+const requiredProperties: Record<string, string[]> = {
+  Organization: ['name', 'url', 'logo'],
+  WebSite: ['name', 'url'],
+  WebPage: ['name', 'url', 'isPartOf'],
+  ContactPage: ['name', 'url', 'isPartOf'],
+  FAQPage: ['name', 'url', 'isPartOf', 'mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+  BreadcrumbList: ['itemListElement'],
+  ItemList: ['itemListElement'],
+  ListItem: ['position', 'name'],
+  Person: ['name'],
+  NewsArticle: ['headline', 'datePublished', 'image', 'author', 'publisher'],
+  Service: ['name', 'description', 'serviceType', 'url', 'provider', 'areaServed'],
+  Offer: ['url'],
+  Audience: ['audienceType'],
+  GeoCircle: ['geoMidpoint', 'geoRadius'],
+};
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Problems in a JSON-LD document, as "<JSON path>: <problem>": missing
+ * required properties, list items without a link, duplicate @ids and
+ * references to nodes that are not in the graph.
+ */
+export function validateJsonLd(data: unknown): string[] {
+  const problems: string[] = [];
+  const defined = new Set<string>();
+  const references: { id: string; path: string }[] = [];
+
+  const visit = (node: unknown, path: string) => {
+    if (Array.isArray(node)) {
+      node.forEach((child, index) => visit(child, `${path}[${index}]`));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    const id = record['@id'];
+    const type = record['@type'];
+
+    if (typeof id === 'string') {
+      if (Object.keys(record).length === 1) {
+        references.push({ id, path });
+      } else if (defined.has(id)) {
+        problems.push(`${path}: duplicate @id ${id}`);
+      } else {
+        defined.add(id);
+      }
+    }
+    if (typeof type === 'string') {
+      for (const property of requiredProperties[type] ?? []) {
+        if (isEmpty(record[property])) {
+          problems.push(`${path}.${property}: missing`);
+        }
+      }
+      if (type === 'ListItem' && isEmpty(record.item) && isEmpty(record.url)) {
+        problems.push(`${path}: list item without item or url`);
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      visit(child, `${path}.${key}`);
+    }
+  };
+
+  visit(data, '$');
+  for (const { id, path } of references) {
+    if (!defined.has(id)) {
+      problems.push(`${path}: reference to ${id} is not in the graph`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,70 @@
+// Throwaway inbox providers commonly used for form spam
+const disposableEmailDomains = new Set([
+  '10minutemail.com',
+  'dispostable.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'mailinator.com',
+  'maildrop.cc',
+  'mailnesia.com',
+  'sharklasers.com',
+  'tempmail.com',
+  'temp-mail.org',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+]);
+
+export type ContentSignal = 'tooManyLinks' | 'linkMarkup' | 'disposableEmail';
+
+export interface ContentScore {
+  score: number;
+  signals: ContentSignal[];
+}
+
+interface ContentInput {
+  text: string;
+  email?: string;
+}
+
+const signalWeights: Record<ContentSignal, number> = {
+  tooManyLinks: 2,
+  linkMarkup: 2,
+  // Below the threshold: real inquiries do come from throwaway addresses
+  disposableEmail: 2,
+};
+
+// Submissions scoring at or above this are treated as spam
+export const SPAM_SCORE_THRESHOLD = 3;
+
+const MAX_LINKS = 2;
+
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.split('@').pop()?.trim().toLowerCase();
+  return !!domain && disposableEmailDomains.has(domain);
+}
+
+/**
+ * Heuristic spam score for free-text submissions.
+ * Each signal adds its weight; callers compare against SPAM_SCORE_THRESHOLD.
+ */
+export function scoreContent({ text, email }: ContentInput): ContentScore {
+  const signals: ContentSignal[] = [];
+
+  const links = text.match(/https?:\/\/|www\./gi) ?? [];
+  if (links.length > MAX_LINKS) {
+    signals.push('tooManyLinks');
+  }
+  if (/<a\s+href|\[url=/i.test(text)) {
+    signals.push('linkMarkup');
+  }
+  if (email && isDisposableEmail(email)) {
+    signals.push('disposableEmail');
+  }
+
+  return {
+    score: signals.reduce((total, signal) => total + signalWeights[signal], 0),
+    signals,
+  };
+}
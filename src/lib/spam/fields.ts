@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Hidden input that humans never see; bots filling every field trip it
+export const HONEYPOT_FIELD = 'website';
+
+// Signed issue-time token proving the form was rendered before submission
+export const FORM_TOKEN_FIELD = 'formToken';
+
+/**
+ * Anti-abuse fields every public form posts alongside its own data.
+ * Client-safe: no server-only imports so forms can share it.
+ */
+export const formProtectionSchema = z.object({
+  [HONEYPOT_FIELD]: z.string().optional(),
+  [FORM_TOKEN_FIELD]: z.string().optional(),
+});
+
+export type FormProtectionFields = z.infer<typeof formProtectionSchema>;
@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { scoreContent, SPAM_SCORE_THRESHOLD, type ContentSignal } from './content';
+import type { FormProtectionFields } from './fields';
+import { createRateLimiter, type RateLimitStore } from './rate-limit';
+import { verifyFormToken, type TokenRejection } from './token';
+
+export type RejectionReason = 'rateLimited' | 'honeypot' | TokenRejection | 'contentSpam';
+
+export type GuardRejection = { ok: false; reason: RejectionReason; retryAfterMs?: number };
+
+export type GuardVerdict = { ok: true } | GuardRejection;
+
+export interface GuardInput extends FormProtectionFields {
+  // Free text and sender address fed to the content heuristics
+  content?: { text: string; email?: string };
+}
+
+export interface RejectionLogEntry {
+  form: string;
+  reason: RejectionReason;
+  client: string;
+  at: string;
+  signals?: ContentSignal[];
+}
+
+export interface FormGuardOptions {
+  // Form identifier used for rate-limit keys and log entries
+  form: string;
+  rateLimit?: { limit: number; windowMs: number; store?: RateLimitStore };
+  minSubmitMs?: number;
+  // Defaults to getTrustedProxyCount()
+  trustedProxies?: number;
+  log?: (entry: RejectionLogEntry) => void;
+}
+
+/**
+ * Number of reverse proxies in front of the app that append to
+ * x-forwarded-for (TRUSTED_PROXY_COUNT, default 1: Vercel or one nginx).
+ */
+export function getTrustedProxyCount(env: Partial<NodeJS.ProcessEnv> = process.env): number {
+  const count = Number(env.TRUSTED_PROXY_COUNT ?? 1);
+  return Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+/**
+ * Client IP as seen by the outermost trusted proxy. Each proxy appends the
+ * address it was connected from, so only the last `trustedProxies` entries
+ * of x-forwarded-for can be trusted; earlier ones are whatever the client
+ * sent. Falls back to x-real-ip behind a proxy, then to a shared bucket.
+ */
+export function getClientIp(request: Request, trustedProxies = getTrustedProxyCount()): string {
+  if (trustedProxies === 0) {
+    return 'unknown';
+  }
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length >= trustedProxies) {
+    return forwarded[forwarded.length - trustedProxies];
+  }
+  return request.headers.get('x-real-ip') ?? 'unknown';
+}
+
+// Logs carry a truncated hash instead of the raw IP address (GDPR)
+function anonymize(ip: string): string {
+  return createHash('sha256').update(ip).digest('hex').slice(0, 12);
+}
+
+function logRejection(entry: RejectionLogEntry) {
+  console.warn('[form-guard] rejected submission', JSON.stringify(entry));
+}
+
+/**
+ * Reusable abuse guard for public form route handlers.
+ * Checks run cheapest-first: rate limit, honeypot, time-to-submit token,
+ * then content heuristics. Every rejection is logged with its reason code.
+ */
+export function createFormGuard({
+  form,
+  rateLimit = { limit: 5, windowMs: 10 * 60 * 1000 },
+  minSubmitMs,
+  trustedProxies = getTrustedProxyCount(),
+  log = logRejection,
+}: FormGuardOptions) {
+  const limiter = createRateLimiter(rateLimit);
+
+  return {
+    async check(request: Request, input: GuardInput, now = Date.now()): Promise<GuardVerdict> {
+      const ip = getClientIp(request, trustedProxies);
+
+      const reject = (reason: RejectionReason, extra: Partial<RejectionLogEntry> = {}): GuardRejection => {
+        log({ form, reason, client: anonymize(ip), at: new Date(now).toISOString(), ...extra });
+        return { ok: false, reason };
+      };
+
+      const limit = await limiter.check(`${form}:${ip}`, now);
+      if (!limit.allowed) {
+        return { ...reject('rateLimited'), retryAfterMs: limit.retryAfterMs };
+      }
+
+      if (input.website) {
+        return reject('honeypot');
+      }
+
+      const token = verifyFormToken(input.formToken, { now, minAgeMs: minSubmitMs });
+      if (!token.ok) {
+        return reject(token.reason);
+      }
+
+      if (input.content) {
+        const { score, signals } = scoreContent(input.content);
+        if (score >= SPAM_SCORE_THRESHOLD) {
+          return reject('contentSpam', { signals });
+        }
+      }
+
+      return { ok: true };
+    },
+  };
+}
+
+export type FormGuard = ReturnType<typeof createFormGuard>;
+
+/**
+ * Response for a rejected submission. Honeypot and content-spam hits get a
+ * fake success so bots learn nothing; throttled and tokenless requests get
+ * an error the form can show.
+ */
+export function rejectionResponse(verdict: GuardRejection): NextResponse {
+  switch (verdict.reason) {
+    case 'honeypot':
+    case 'contentSpam':
+      return NextResponse.json({ ok: true });
+    case 'rateLimited':
+      return NextResponse.json(
+        { ok: false, error: 'rateLimited' },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(Math.ceil((verdict.retryAfterMs ?? 0) / 1000)) },
+        }
+      );
+    default:
+      return NextResponse.json({ ok: false, error: 'rejected' }, { status: 400 });
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Sliding-window rate limiting (request log per key).
+ * Stores are pluggable: the in-memory store suits a single server process,
+ * the Redis store shares limits across instances.
+ */
+export interface RateLimitStore {
+  /**
+   * Record a hit at `now`, drop hits older than the window and
+   * return the remaining hit timestamps (oldest first).
+   */
+  hit(key: string, now: number, windowMs: number): Promise<number[]>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, number[]>();
+
+  return {
+    async hit(key, now, windowMs) {
+      const windowStart = now - windowMs;
+      const timestamps = (hits.get(key) ?? []).filter((t) => t > windowStart);
+      timestamps.push(now);
+      hits.set(key, timestamps);
+
+      // Opportunistic sweep so idle keys don't accumulate forever
+      if (hits.size > 10_000) {
+        for (const [otherKey, other] of hits) {
+          if (other[other.length - 1] <= windowStart) {
+            hits.delete(otherKey);
+          }
+        }
+      }
+
+      return timestamps;
+    },
+  };
+}
+
+/**
+ * Subset of the Redis client API used by the Redis store
+ * (signatures match ioredis and node-redis in legacy mode).
+ */
+export interface RedisLikeClient {
+  zremrangebyscore(key: string, min: number, max: number): Promise<unknown>;
+  zadd(key: string, score: number, member: string): Promise<unknown>;
+  zrange(key: string, start: number, stop: number): Promise<string[]>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+}
+
+export function createRedisRateLimitStore(client: RedisLikeClient, prefix = 'ratelimit:'): RateLimitStore {
+  return {
+    async hit(key, now, windowMs) {
+      const redisKey = `${prefix}${key}`;
+      await client.zremrangebyscore(redisKey, 0, now - windowMs);
+      await client.zadd(redisKey, now, `${now}:${Math.random().toString(36).slice(2)}`);
+      await client.pexpire(redisKey, windowMs);
+      const members = await client.zrange(redisKey, 0, -1);
+      return members.map((member) => Number(member.split(':')[0]));
+    },
+  };
+}
+
+export function createRateLimiter({ limit, windowMs, store = createMemoryRateLimitStore() }: RateLimiterOptions) {
+  return {
+    async check(key: string, now = Date.now()): Promise<RateLimitResult> {
+      const timestamps = await store.hit(key, now, windowMs);
+      const allowed = timestamps.length <= limit;
+
+      return {
+        allowed,
+        remaining: Math.max(0, limit - timestamps.length),
+        // Enough hits must age out for the next one to fit under the limit
+        retryAfterMs: allowed ? 0 : timestamps[timestamps.length - limit] + windowMs - now,
+      };
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,66 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export type TokenRejection = 'missingToken' | 'invalidToken' | 'tooFast' | 'expiredToken';
+
+export type TokenVerification = { ok: true; ageMs: number } | { ok: false; reason: TokenRejection };
+
+interface VerifyOptions {
+  now?: number;
+  // Humans need a few seconds to fill in a form; scripts post instantly
+  minAgeMs?: number;
+  maxAgeMs?: number;
+}
+
+// Per-process fallback keeps local development working without configuration.
+// Set FORM_TOKEN_SECRET when running more than one server instance.
+const fallbackSecret = randomBytes(32).toString('hex');
+
+function getSecret(): string {
+  return process.env.FORM_TOKEN_SECRET || fallbackSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a time-to-submit token: `<issuedAt>.<nonce>.<signature>`.
+ */
+export function issueFormToken(now = Date.now()): string {
+  const payload = `${now}.${randomBytes(8).toString('base64url')}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyFormToken(
+  token: string | undefined,
+  { now = Date.now(), minAgeMs = 3_000, maxAgeMs = 2 * 60 * 60 * 1000 }: VerifyOptions = {}
+): TokenVerification {
+  if (!token) {
+    return { ok: false, reason: 'missingToken' };
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return { ok: false, reason: 'invalidToken' };
+  }
+
+  const [issuedAt, nonce, signature] = parts;
+  const expected = Buffer.from(sign(`${issuedAt}.${nonce}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: 'invalidToken' };
+  }
+
+  const ageMs = now - Number(issuedAt);
+  if (!Number.isFinite(ageMs) || ageMs < 0) {
+    return { ok: false, reason: 'invalidToken' };
+  }
+  if (ageMs < minAgeMs) {
+    return { ok: false, reason: 'tooFast' };
+  }
+  if (ageMs > maxAgeMs) {
+    return { ok: false, reason: 'expiredToken' };
+  }
+
+  return { ok: true, ageMs };
+}
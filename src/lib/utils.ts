@@ -4,3 +4,21 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Long-form localized date, e.g. "15 January 2026" / "15 de enero de 2026"
+export function formatDate(date: string, locale: string) {
+  return new Date(date).toLocaleDateString(locale, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+// Localized month and year for archive headings, e.g. "January 2026" / "gener de 2026"
+export function formatMonth(year: number, month: number, locale: string) {
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString(locale, {
+    year: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  });
+}
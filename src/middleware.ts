@@ -1,8 +1,43 @@
 import createMiddleware from 'next-intl/middleware';
+import { NextResponse, type NextRequest } from 'next/server';
 import { routing } from './lib/i18n/navigation';
+import { getLegacyRedirect, getLocalizedHref } from './lib/i18n/pathnames';
+import { isLocale, LOCALE_COOKIE, resolvePreferredLocale } from './lib/i18n/preference';
 
-export default createMiddleware(routing);
+const handleI18nRouting = createMiddleware(routing);
 
+// "/" goes to the visitor's language; old English slugs get a 301 before
+// next-intl rewrites to the internal path. Paths outside the locale
+// prefixes (public files, robots.txt, sitemap.xml) pass through untouched.
+export default function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (pathname === '/') {
+    const locale = resolvePreferredLocale({
+      cookie: request.cookies.get(LOCALE_COOKIE)?.value,
+      acceptLanguage: request.headers.get('accept-language'),
+    });
+    const url = request.nextUrl.clone();
+    url.pathname = getLocalizedHref('/', locale);
+    const response = NextResponse.redirect(url);
+    response.headers.set('Vary', 'Accept-Language, Cookie');
+    return response;
+  }
+
+  if (!isLocale(pathname.split('/')[1])) {
+    return NextResponse.next();
+  }
+
+  const redirect = getLegacyRedirect(pathname);
+  if (redirect) {
+    const url = request.nextUrl.clone();
+    url.pathname = redirect;
+    return NextResponse.redirect(url, 301);
+  }
+  return handleI18nRouting(request);
+}
+
+// Next.js needs a static matcher, so it stays locale-agnostic and the
+// locale prefixes are checked against `locales` in middleware()
 export const config = {
-  matcher: ['/', '/(en|fr|es|de|it|ca)/:path*'],
+  matcher: ['/((?!api|_next|_vercel).*)'],
 };